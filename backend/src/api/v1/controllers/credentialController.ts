@@ -0,0 +1,53 @@
+import { Request, Response } from "express";
+import asyncHandler from "express-async-handler";
+
+import CredentialVault, { CredentialError } from "../../../services/credentialVault.js";
+import { CreateCredentialSchema, UpdateCredentialSchema } from "../../../types/schemas.js";
+import { requestUser } from "../middleware/authenticate.js";
+import { HttpError } from "../utils/httpError.js";
+import { parseRequest } from "../utils/parseRequest.js";
+
+// HTTP status for each CredentialError code
+const CREDENTIAL_ERROR_STATUS: Record<string, number> = { DECRYPTION_FAILED: 500, FORBIDDEN: 403, NOT_FOUND: 404, VAULT_DISABLED: 503 };
+
+/**
+ * Handlers for /api/v1/credentials
+ * Responses never include secret values: a secret can be set or replaced but not read back
+ * Credentials are visible only to the user who created them; another user's respond 403 FORBIDDEN
+ * Every route responds 503 VAULT_DISABLED when no CREDENTIALS_KEY is configured
+ */
+export function createCredentialController(vault: CredentialVault) {
+  const handle = async <T>(action: Promise<T>): Promise<T> => {
+    try {
+      return await action;
+    } catch (error) {
+      if (error instanceof CredentialError) throw new HttpError(CREDENTIAL_ERROR_STATUS[error.code] ?? 500, error.code, error.message);
+      throw error;
+    }
+  };
+
+  return {
+    create: asyncHandler(async (req: Request, res: Response) => {
+      const input = parseRequest(CreateCredentialSchema, req.body);
+      res.status(201).json(await handle(vault.create(input, requestUser(res))));
+    }),
+
+    get: asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+      res.json(await handle(vault.get(req.params.id, requestUser(res))));
+    }),
+
+    list: asyncHandler(async (_req: Request, res: Response) => {
+      res.json({ credentials: await handle(vault.list(requestUser(res))) });
+    }),
+
+    remove: asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+      await handle(vault.delete(req.params.id, requestUser(res)));
+      res.status(204).end();
+    }),
+
+    update: asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+      const input = parseRequest(UpdateCredentialSchema, req.body);
+      res.json(await handle(vault.update(req.params.id, input, requestUser(res))));
+    }),
+  };
+}
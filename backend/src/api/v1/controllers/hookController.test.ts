@@ -0,0 +1,112 @@
+import express from "express";
+import { createHmac, randomBytes } from "node:crypto";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+import CredentialVault from "../../../services/credentialVault.js";
+import RunService, { RunDefinition } from "../../../services/runService.js";
+import { assignWebhookTokens } from "../../../services/webhookTrigger.js";
+import { errorHandler } from "../middleware/errorHandler.js";
+import { InMemoryCredentialRepository } from "../repositories/inMemoryCredentialRepository.js";
+import { InMemoryWorkflowRepository } from "../repositories/inMemoryWorkflowRepository.js";
+import { createHookRouter } from "../routes/hookRoutes.js";
+
+const workflowRepository = new InMemoryWorkflowRepository();
+const vault = new CredentialVault(new InMemoryCredentialRepository(), randomBytes(32).toString("base64"));
+// Only execute is used by the hook controller; started runs are recorded instead of executed
+const started: RunDefinition[] = [];
+const runService = { execute: (definition: RunDefinition) => `run-${started.push(definition)}` } as unknown as RunService;
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use("/hooks", createHookRouter(workflowRepository, runService, vault));
+  app.use(errorHandler);
+  server = app.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  started.length = 0;
+});
+
+function post(url: string, body: string, headers: Record<string, string> = {}) {
+  return fetch(url, { body, headers: { "content-type": "application/json", ...headers }, method: "POST" });
+}
+
+async function saveHook(data: Record<string, unknown> = {}, ownerId?: string) {
+  const nodes = assignWebhookTokens([{ data, id: "hook", position: { x: 0, y: 0 }, type: "webhook" as const }]);
+  const workflow = await workflowRepository.create({ edges: [], name: "Hook", nodes }, ownerId);
+  return `${baseUrl}/hooks/${workflow.nodes[0].data!.token as string}`;
+}
+
+function sign(key: string, body: string) {
+  return `sha256=${createHmac("sha256", key).update(body).digest("hex")}`;
+}
+
+describe("POST /hooks/:token", () => {
+  it("starts the workflow with the request as its trigger", async () => {
+    const response = await post(await saveHook(), '{"event":"push"}', { authorization: "Bearer x" });
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({ runId: "run-1" });
+    expect(started[0].trigger).toMatchObject({ body: { event: "push" }, method: "POST", type: "webhook" });
+    expect(started[0].trigger).not.toHaveProperty("headers.authorization");
+  });
+
+  it("responds 404 for unknown tokens", async () => {
+    const response = await post(`${baseUrl}/hooks/unknown`, "{}");
+    expect(response.status).toBe(404);
+  });
+
+  describe("signatures", () => {
+    it("accepts requests signed with the key held by the node's credential", async () => {
+      const credential = await vault.create({ name: "Signing key", secret: "s3cret" }, { id: "owner" });
+      const url = await saveHook({ secretCredentialId: credential.id }, "owner");
+      const body = '{"event":"push"}';
+
+      expect((await post(url, body, { "x-signature-256": sign("s3cret", body) })).status).toBe(202);
+      expect(started[0].trigger).not.toHaveProperty("headers.x-signature-256");
+    });
+
+    it("accepts the signature in a custom header and without the sha256= prefix", async () => {
+      const credential = await vault.create({ name: "Signing key", secret: "s3cret" });
+      const url = await saveHook({ secretCredentialId: credential.id, signatureHeader: "x-hub-signature" });
+
+      expect((await post(url, "{}", { "x-hub-signature": sign("s3cret", "{}").slice("sha256=".length) })).status).toBe(202);
+    });
+
+    it.each([
+      ["no signature", undefined],
+      ["a signature made with another key", sign("other", '{"event":"push"}')],
+      ["a signature of another body", sign("s3cret", '{"event":"pull"}')],
+      ["a malformed signature", "sha256=not-hex"],
+    ])("rejects requests with %s", async (_name, signature) => {
+      const credential = await vault.create({ name: "Signing key", secret: "s3cret" });
+      const url = await saveHook({ secretCredentialId: credential.id });
+
+      const response = await post(url, '{"event":"push"}', signature ? { "x-signature-256": signature } : {});
+      expect(response.status).toBe(401);
+      expect(await response.json()).toMatchObject({ code: "INVALID_SIGNATURE" });
+      expect(started).toEqual([]);
+    });
+
+    it("fails closed when the credential cannot be used by the workflow's owner", async () => {
+      const credential = await vault.create({ name: "Someone else's key", secret: "s3cret" }, { id: "other-user" });
+      const url = await saveHook({ secretCredentialId: credential.id }, "owner");
+
+      const response = await post(url, "{}", { "x-signature-256": sign("s3cret", "{}") });
+      expect(response.status).toBe(500);
+      expect(await response.json()).toMatchObject({ code: "INVALID_NODE_CONFIG" });
+      expect(started).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { Request, Response } from "express";
+import asyncHandler from "express-async-handler";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { IncomingHttpHeaders } from "node:http";
+
+import CredentialVault, { CredentialError } from "../../../services/credentialVault.js";
+import RunService, { RunStartError } from "../../../services/runService.js";
+import { findWebhookNode } from "../../../services/webhookTrigger.js";
+import { WebhookNodeDataSchema } from "../../../types/schemas.js";
+import { WebhookTrigger } from "../../../types/workflow.js";
+import { WorkflowRepository } from "../repositories/workflowRepository.js";
+import { HttpError } from "../utils/httpError.js";
+import { START_ERROR_STATUS } from "./runController.js";
+
+// Never copied into the trigger output, which is persisted with the run
+const CREDENTIAL_HEADERS = new Set(["authorization", "cookie", "proxy-authorization"]);
+
+/**
+ * Handler for /api/v1/hooks/:token: starts the latest version of the workflow owning the token
+ * Bodies arrive raw so the signature can be checked against the exact bytes that were signed
+ * The signing key is a credential of the workflow's owner, so it never appears in the workflow's node data
+ */
+export function createHookController(workflowRepository: WorkflowRepository, runService: RunService, vault: CredentialVault) {
+  const resolveSigningKey = async (nodeId: string, credentialId: string, ownerId?: string): Promise<string> => {
+    try {
+      return (await vault.resolve([credentialId], ownerId))[credentialId];
+    } catch (error) {
+      if (!(error instanceof CredentialError)) throw error;
+      // Failing closed: a hook whose key cannot be read must not accept unsigned requests
+      throw new HttpError(500, "INVALID_NODE_CONFIG", `Webhook node ${nodeId} signing credential cannot be used: ${error.message}`);
+    }
+  };
+
+  return {
+    receive: asyncHandler(async (req: Request<{ token: string }>, res: Response) => {
+      const workflow = await workflowRepository.findByWebhookToken(req.params.token);
+      const node = workflow && findWebhookNode(workflow.nodes, req.params.token);
+      if (!workflow || !node) throw new HttpError(404, "NOT_FOUND", "Unknown webhook");
+
+      const parsed = WebhookNodeDataSchema.safeParse(node.data ?? {});
+      if (!parsed.success) throw new HttpError(500, "INVALID_NODE_CONFIG", `Webhook node ${node.id} is misconfigured`);
+      const { secretCredentialId, signatureHeader } = parsed.data;
+
+      const raw = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      if (
+        secretCredentialId &&
+        !isValidSignature(await resolveSigningKey(node.id, secretCredentialId, workflow.ownerId), raw, req.get(signatureHeader))
+      ) {
+        throw new HttpError(401, "INVALID_SIGNATURE", `Missing or invalid ${signatureHeader} header`);
+      }
+
+      const trigger: WebhookTrigger = {
+        body: parseBody(req.get("content-type"), raw),
+        headers: toTriggerHeaders(req.headers, signatureHeader),
+        method: req.method,
+        query: req.query,
+        receivedAt: Date.now(),
+        type: "webhook",
+      };
+
+      try {
+        const { edges, id, nodes, version } = workflow;
+        const runId = runService.execute({ definitionId: id, definitionVersion: version, edges, inputs: {}, nodes, options: {}, trigger });
+        res.status(202).location(`/api/v1/runs/${runId}`).json({ runId });
+      } catch (error) {
+        if (!(error instanceof RunStartError)) throw error;
+        throw new HttpError(START_ERROR_STATUS[error.code] ?? 400, error.code, error.message, error.issues);
+      }
+    }),
+  };
+}
+
+/**
+ * Compare an HMAC-SHA256 hex signature of the raw body, optionally prefixed with "sha256=", in constant time
+ */
+function isValidSignature(secret: string, raw: Buffer, header: string | undefined): boolean {
+  if (!header) return false;
+
+  const expected = createHmac("sha256", secret).update(raw).digest();
+  const received = Buffer.from(header.trim().replace(/^sha256=/i, ""), "hex");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/**
+ * Parse a JSON or form-encoded body; an empty body is an empty object
+ */
+function parseBody(contentType: string | undefined, raw: Buffer): unknown {
+  if (raw.length === 0) return {};
+
+  const mediaType = (contentType ?? "").split(";")[0].trim().toLowerCase();
+  if (mediaType === "application/json" || mediaType.endsWith("+json")) {
+    try {
+      return JSON.parse(raw.toString("utf8"));
+    } catch {
+      throw new HttpError(400, "INVALID_JSON", "Request body is not valid JSON");
+    }
+  }
+  if (mediaType === "application/x-www-form-urlencoded") {
+    return Object.fromEntries(new URLSearchParams(raw.toString("utf8")));
+  }
+  throw new HttpError(415, "UNSUPPORTED_MEDIA_TYPE", "Webhook bodies must be application/json or application/x-www-form-urlencoded");
+}
+
+function toTriggerHeaders(headers: IncomingHttpHeaders, signatureHeader: string): Record<string, string> {
+  const skipped = new Set([signatureHeader.toLowerCase(), ...CREDENTIAL_HEADERS]);
+  return Object.fromEntries(
+    Object.entries(headers)
+      .filter((entry): entry is [string, string | string[]] => entry[1] !== undefined && !skipped.has(entry[0]))
+      .map(([name, value]) => [name, Array.isArray(value) ? value.join(", ") : value]),
+  );
+}
@@ -0,0 +1,230 @@
+import express from "express";
+import { randomBytes } from "node:crypto";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { Server as SocketIOServer } from "socket.io";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import CredentialVault from "../../../services/credentialVault.js";
+import RunRecorder from "../../../services/runRecorder.js";
+import RunService from "../../../services/runService.js";
+import WorkflowAccess from "../../../services/workflowAccess.js";
+import WorkflowEventEmitter, { EventEmitterConfig } from "../../../services/workflowEventEmitter.js";
+import WorkflowRegistry from "../../../services/workflowRegistry.js";
+import WorkflowScheduler from "../../../services/workflowScheduler.js";
+import { CreateWorkflowRequest, NodeEvent } from "../../../types/schemas.js";
+import { createApiV1Router } from "../index.js";
+import { InMemoryCredentialRepository } from "../repositories/inMemoryCredentialRepository.js";
+import { InMemoryRunRepository } from "../repositories/inMemoryRunRepository.js";
+import { InMemoryScheduleRepository } from "../repositories/inMemoryScheduleRepository.js";
+import { InMemoryWorkflowRepository } from "../repositories/inMemoryWorkflowRepository.js";
+
+// Stub upstream for api nodes: /delay/<ms> answers after ms
+let upstream: Server;
+let upstreamUrl: string;
+const servers: Server[] = [];
+
+beforeAll(async () => {
+  upstream = createServer((request, response) => {
+    const ms = Number((request.url ?? "").split("/")[2]);
+    setTimeout(() => response.writeHead(200, { "content-type": "application/json" }).end("{}"), ms);
+  });
+  await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+  upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterAll(async () => {
+  for (const server of [upstream, ...servers]) {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+  vi.restoreAllMocks();
+});
+
+interface StreamedEvent {
+  data: unknown;
+  event: string;
+  id?: number;
+}
+
+// Node events of a stream in the order they arrived, with their seq
+function nodeEvents(events: StreamedEvent[]): NodeEvent[] {
+  return events.flatMap(({ data, event }) =>
+    event === "workflow:node-events-batch"
+      ? (data as { events: NodeEvent[] }).events
+      : event === "workflow:node-event"
+        ? [(data as { event: NodeEvent }).event]
+        : [],
+  );
+}
+
+function parseEventStream(text: string): StreamedEvent[] {
+  return text
+    .split("\n\n")
+    .filter((block) => block.includes("event: "))
+    .map((block) => {
+      const fields = new Map(block.split("\n").map((line) => [line.slice(0, line.indexOf(": ")), line.slice(line.indexOf(": ") + 2)]));
+      const id = fields.get("id");
+      return { data: JSON.parse(fields.get("data")!) as unknown, event: fields.get("event")!, id: id === undefined ? undefined : Number(id) };
+    });
+}
+
+/**
+ * The REST API over in-memory repositories, with a saved workflow: start -> wait <delayMs> -> done
+ */
+async function setup(delayMs = 0, emitterConfig: EventEmitterConfig = {}) {
+  const runRepository = new InMemoryRunRepository();
+  const workflowRepository = new InMemoryWorkflowRepository();
+  const registry = new WorkflowRegistry();
+  const recorder = new RunRecorder(runRepository);
+  const vault = new CredentialVault(new InMemoryCredentialRepository(), randomBytes(32).toString("base64"));
+  const emitter = new WorkflowEventEmitter(new SocketIOServer(), { batchWindow: 10, ...emitterConfig }, recorder);
+  const runService = new RunService(emitter, recorder, registry, runRepository, workflowRepository, vault);
+  const access = new WorkflowAccess(workflowRepository, runRepository, registry);
+  const scheduler = new WorkflowScheduler(new InMemoryScheduleRepository(), workflowRepository, runService);
+
+  const app = express();
+  app.use("/api/v1", createApiV1Router({ access, runRepository, runService, scheduler, vault, workflowRepository }));
+  const server = app.listen(0, "127.0.0.1");
+  servers.push(server);
+  await new Promise((resolve) => server.once("listening", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+
+  const definition: CreateWorkflowRequest = {
+    edges: [
+      { id: "start-wait", source: "start", target: "wait" },
+      { id: "wait-done", source: "wait", target: "done" },
+    ],
+    name: "Slow",
+    nodes: [
+      { id: "start", position: { x: 0, y: 0 }, type: "start" },
+      { data: { url: `${upstreamUrl}/delay/${delayMs}` }, id: "wait", position: { x: 200, y: 0 }, type: "api" },
+      { data: { mapping: { ok: true } }, id: "done", position: { x: 400, y: 0 }, type: "transform" },
+    ],
+  };
+  const workflow = await workflowRepository.create(definition);
+
+  const execute = (query = "") => fetch(`${baseUrl}/workflows/${workflow.id}/execute${query}`, { method: "POST" });
+  // Every event of a run's SSE stream, read until the server closes it
+  const stream = async (runId: string, lastEventId?: number): Promise<StreamedEvent[]> => {
+    const response = await fetch(`${baseUrl}/runs/${runId}/events`, {
+      headers: lastEventId === undefined ? {} : { "Last-Event-ID": String(lastEventId) },
+    });
+    expect(response.headers.get("content-type")).toContain("text/event-stream");
+    return parseEventStream(await response.text());
+  };
+
+  return { baseUrl, definition, execute, runService, stream, workflow };
+}
+
+describe("POST /workflows/:id/execute", () => {
+  it("starts the latest version and responds 202 with the run's ID and URL", async () => {
+    const { execute, runService, workflow } = await setup();
+    const response = await execute();
+    const { runId } = (await response.json()) as { runId: string };
+
+    expect(response.status).toBe(202);
+    expect(response.headers.get("location")).toBe(`/api/v1/runs/${runId}`);
+    expect(await runService.waitForCompletion(runId)).toMatchObject({ status: "success", workflowId: runId });
+    expect(workflow.version).toBe(1);
+  });
+
+  it("responds with the WorkflowComplete with ?wait=true", async () => {
+    const { execute } = await setup();
+    const response = await execute("?wait=true");
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: "success", totalTime: expect.any(Number) });
+  });
+
+  it("responds 202 once a run outlasts the wait timeout", async () => {
+    const { execute, runService } = await setup(1500);
+    const response = await execute("?wait=true&timeout=1");
+    const { runId } = (await response.json()) as { runId: string };
+
+    expect(response.status).toBe(202);
+    expect(runService.isActive(runId)).toBe(true);
+    await runService.waitForCompletion(runId);
+  });
+
+  it("rejects invalid query parameters and unknown workflows", async () => {
+    const { baseUrl, execute } = await setup();
+
+    expect((await execute("?timeout=0")).status).toBe(400);
+    expect((await fetch(`${baseUrl}/workflows/missing/execute`, { method: "POST" })).status).toBe(404);
+  });
+});
+
+describe("POST /runs", () => {
+  it("records the saved version a submitted graph matches, and none once it differs", async () => {
+    const { baseUrl, definition, workflow } = await setup();
+    // Runs the graph and returns the version recorded for the run
+    const recordedVersion = async (nodes: CreateWorkflowRequest["nodes"]) => {
+      const response = await fetch(`${baseUrl}/runs?wait=true`, {
+        body: JSON.stringify({ definitionId: workflow.id, edges: definition.edges, nodes }),
+        headers: { "content-type": "application/json" },
+        method: "POST",
+      });
+      const { workflowId } = (await response.json()) as { workflowId: string };
+      const run = (await (await fetch(`${baseUrl}/runs/${workflowId}`)).json()) as { definitionVersion?: number };
+      return run.definitionVersion;
+    };
+
+    const moved = definition.nodes.map((node) => ({ ...node, position: { x: node.position.x, y: 100 } }));
+    expect(await recordedVersion(moved)).toBe(1);
+    const edited = definition.nodes.map((node) => (node.id === "done" ? { ...node, data: { mapping: { ok: false } } } : node));
+    expect(await recordedVersion(edited)).toBeUndefined();
+  });
+});
+
+describe("GET /runs/:runId/events", () => {
+  it("replays the events sent before the stream connected, then streams the rest", async () => {
+    const { execute, stream } = await setup(300);
+    const { runId } = (await (await execute()).json()) as { runId: string };
+    await new Promise((resolve) => setTimeout(resolve, 100)); // start and wait have started by now
+
+    const events = await stream(runId);
+    const seqs = nodeEvents(events).map(({ seq }) => seq);
+
+    expect(nodeEvents(events)[0]).toMatchObject({ eventType: "start", nodeId: "start", seq: 1 });
+    expect(seqs).toEqual(seqs.map((_, index) => index + 1)); // Every node event once, in order
+    expect(events.at(-1)).toMatchObject({ data: { status: "success" }, event: "workflow:complete", id: seqs.at(-1) });
+    // Each event's ID is the seq of the last node event sent so far
+    for (const { data, event, id } of events) {
+      if (event === "workflow:node-events-batch") expect(id).toBe((data as { events: NodeEvent[] }).events.at(-1)!.seq);
+    }
+  });
+
+  it("resumes after the Last-Event-ID", async () => {
+    const { execute, stream } = await setup(300);
+    const { runId } = (await (await execute()).json()) as { runId: string };
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const seqs = nodeEvents(await stream(runId, 2)).map(({ seq }) => seq);
+    expect(seqs[0]).toBe(3);
+  });
+
+  it("starts with a snapshot once the missed events have left the replay buffer", async () => {
+    const { execute, stream } = await setup(300, { replayBufferSize: 1 });
+    const { runId } = (await (await execute()).json()) as { runId: string };
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const events = await stream(runId);
+    expect(events[0]).toMatchObject({ data: { status: "running", workflowId: runId }, event: "workflow:snapshot" });
+    const snapshotSeqs = (events[0].data as { events: NodeEvent[] }).events.map(({ seq }) => seq!);
+    expect(events[0].id).toBe(Math.max(...snapshotSeqs));
+    // Later node events follow without repeating those in the snapshot
+    expect(nodeEvents(events).every(({ seq }) => seq! > events[0].id!)).toBe(true);
+    expect(events.at(-1)?.event).toBe("workflow:complete");
+  });
+
+  it("sends a finished run's snapshot and final event", async () => {
+    const { execute, stream } = await setup();
+    const { workflowId } = (await (await execute("?wait=true")).json()) as { workflowId: string };
+    const events = await stream(workflowId);
+
+    expect(events.map(({ event }) => event)).toEqual(["workflow:snapshot", "workflow:complete"]);
+    expect((events[0].data as { events: NodeEvent[] }).events.map(({ nodeId }) => nodeId).sort()).toEqual(["done", "start", "wait"]);
+  });
+});
@@ -0,0 +1,189 @@
+import { Request, Response } from "express";
+import asyncHandler from "express-async-handler";
+
+import RunService, { RunDefinition, RunStartError } from "../../../services/runService.js";
+import WorkflowAccess from "../../../services/workflowAccess.js";
+import { isSameGraph } from "../../../services/workflowDiff.js";
+import {
+  ExecuteQuerySchema,
+  ExecuteWorkflowSchema,
+  NodeEvent,
+  NodeLogsQuerySchema,
+  RunListQuerySchema,
+  TriggerWorkflowSchema,
+  WorkflowComplete,
+} from "../../../types/schemas.js";
+import { requestUser } from "../middleware/authenticate.js";
+import { RunRepository } from "../repositories/runRepository.js";
+import { authorize } from "../utils/authorize.js";
+import { openEventStream } from "../utils/eventStream.js";
+import { HttpError } from "../utils/httpError.js";
+import { parseRequest } from "../utils/parseRequest.js";
+
+// HTTP status for each RunStartError code
+export const START_ERROR_STATUS: Record<string, number> = { INVALID_GRAPH: 400, INVALID_REQUEST: 400, NOT_FOUND: 404 };
+
+/**
+ * Handlers for runs: /api/v1/runs and /api/v1/workflows/:id/runs|execute
+ * Listings are paginated with an opaque nextCursor; unknown IDs respond 404 NOT_FOUND
+ * Running a saved workflow needs the editor role on it and reading a run the viewer role, unless the user started it
+ */
+export function createRunController(runRepository: RunRepository, runService: RunService, access: WorkflowAccess) {
+  const findOr404 = async (runId: string) => {
+    const run = await runRepository.findById(runId);
+    if (!run) throw new HttpError(404, "NOT_FOUND", `Run ${runId} not found`);
+    return run;
+  };
+
+  const findAuthorized = async (runId: string, res: Response) => {
+    await authorize(access.requireRun(runId, requestUser(res), "viewer"));
+    return findOr404(runId);
+  };
+
+  /**
+   * Start a run and respond 202 with its ID, or with ?wait=true hold the response until the run finishes
+   */
+  const startRun = async (definition: RunDefinition, query: unknown, res: Response) => {
+    const { timeout, wait } = parseRequest(ExecuteQuerySchema, query);
+
+    let runId: string;
+    try {
+      runId = runService.execute(definition);
+    } catch (error) {
+      if (!(error instanceof RunStartError)) throw error;
+      throw new HttpError(START_ERROR_STATUS[error.code] ?? 400, error.code, error.message, error.issues);
+    }
+
+    let complete: undefined | WorkflowComplete;
+    try {
+      complete = wait ? await runService.waitForCompletion(runId, timeout * 1000) : undefined;
+    } catch (error) {
+      throw new HttpError(500, "EXECUTION_ERROR", error instanceof Error ? error.message : "Unknown error", { runId });
+    }
+
+    // Without ?wait=true, or when the run outlasts the wait, the client follows it through the run's URL
+    if (complete) res.json(complete);
+    else res.status(202).location(`/api/v1/runs/${runId}`).json({ runId });
+  };
+
+  return {
+    create: asyncHandler(async (req: Request, res: Response) => {
+      const { definitionId, edges, inputs, nodes, options } = parseRequest(ExecuteWorkflowSchema, req.body);
+      const user = requestUser(res);
+      const workflow = definitionId ? await authorize(access.requireWorkflow(definitionId, user, "editor")) : undefined;
+      // A graph unchanged since the latest save runs as that version
+      const stored = workflow && isSameGraph(workflow, { edges, nodes }) ? workflow : undefined;
+      await startRun(
+        {
+          definitionId,
+          definitionVersion: stored?.version,
+          edges: stored?.edges ?? edges,
+          inputs: inputs ?? {},
+          nodes: stored?.nodes ?? nodes,
+          options: options ?? {},
+          startedBy: user?.id,
+        },
+        req.query,
+        res,
+      );
+    }),
+
+    // Runs the latest saved version of a workflow
+    executeWorkflow: asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+      const { inputs, options } = parseRequest(TriggerWorkflowSchema, req.body ?? {});
+      const user = requestUser(res);
+      const { edges, id, nodes, version } = await authorize(access.requireWorkflow(req.params.id, user, "editor"));
+      await startRun(
+        { definitionId: id, definitionVersion: version, edges, inputs: inputs ?? {}, nodes, options: options ?? {}, startedBy: user?.id },
+        req.query,
+        res,
+      );
+    }),
+
+    get: asyncHandler(async (req: Request<{ runId: string }>, res: Response) => {
+      res.json(await findAuthorized(req.params.runId, res));
+    }),
+
+    listByWorkflow: asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+      const query = parseRequest(RunListQuerySchema, req.query);
+      await authorize(access.requireWorkflow(req.params.id, requestUser(res), "viewer"));
+      res.json(await runRepository.listByDefinition(req.params.id, query));
+    }),
+
+    listNodeLogs: asyncHandler(async (req: Request<{ nodeId: string; runId: string }>, res: Response) => {
+      const query = parseRequest(NodeLogsQuerySchema, req.query);
+      await findAuthorized(req.params.runId, res);
+      res.json(await runRepository.listLogs({ ...query, nodeId: req.params.nodeId, runId: req.params.runId }));
+    }),
+
+    /**
+     * Stream a run's events as Server-Sent Events, named like their socket events (e.g. workflow:node-events-batch)
+     * Every event carries the seq of the last node event sent as its ID; the stream starts with the node events after
+     * the Last-Event-ID header (all of them without it), or with a workflow:snapshot once some have left the replay buffer
+     * A finished run sends its snapshot and its final event
+     */
+    streamEvents: asyncHandler(async (req: Request<{ runId: string }>, res: Response) => {
+      const { runId } = req.params;
+      await authorize(access.requireRun(runId, requestUser(res), "viewer"));
+      const lastEventId = Number(req.get("Last-Event-ID"));
+      let lastSeq = Number.isSafeInteger(lastEventId) && lastEventId > 0 ? lastEventId : 0;
+
+      if (runService.isActive(runId)) {
+        let unsubscribe = () => {};
+        const stream = openEventStream(req, res, () => unsubscribe());
+
+        // Node events already sent, e.g. by the replay and again in a batch flushed after it, are dropped
+        const send = (eventName: string, payload: unknown) => {
+          let sent = payload;
+          if (eventName === "workflow:node-events-batch") {
+            const batch = payload as { events: NodeEvent[] };
+            const events = batch.events.filter(({ seq = 0 }) => seq > lastSeq);
+            if (events.length === 0) return;
+            sent = { ...batch, count: events.length, events };
+            lastSeq = Math.max(lastSeq, ...events.map(({ seq = 0 }) => seq));
+          } else if (eventName === "workflow:node-event") {
+            const { seq = 0 } = (payload as { event: NodeEvent }).event;
+            if (seq <= lastSeq) return;
+            lastSeq = seq;
+          }
+          stream.send(eventName, sent, lastSeq);
+          if (eventName === "workflow:complete" || eventName === "workflow:error") stream.close();
+        };
+
+        // Live events are held back until the events missed before connecting have been sent
+        let held: [string, unknown][] | undefined = [];
+        unsubscribe = runService.subscribe(runId, (eventName, payload) => (held ? held.push([eventName, payload]) : send(eventName, payload)));
+
+        const missed = runService.replay(runId, lastSeq);
+        if (missed) {
+          send("workflow:node-events-batch", { count: missed.events.length, events: missed.events, workflowId: runId });
+          send("workflow:state", { state: missed.state, workflowId: runId });
+        } else {
+          const snapshot = await runService.getSnapshot(runId);
+          if (snapshot) {
+            lastSeq = Math.max(lastSeq, ...snapshot.events.map(({ seq = 0 }) => seq));
+            stream.send("workflow:snapshot", snapshot, lastSeq);
+          }
+        }
+
+        const live = held;
+        held = undefined;
+        for (const [eventName, payload] of live) send(eventName, payload);
+        return;
+      }
+
+      const run = await findOr404(runId);
+      const snapshot = await runService.getSnapshot(runId);
+      const stream = openEventStream(req, res, () => {});
+      if (snapshot) stream.send("workflow:snapshot", snapshot, lastSeq);
+      if (run.status === "running" || run.error) {
+        // A run still marked running here was interrupted by a server restart
+        stream.send("workflow:error", { code: "EXECUTION_ERROR", error: run.error ?? "Run did not finish", workflowId: runId }, lastSeq);
+      } else {
+        const { endTime = run.startTime, failedNodes, startTime, status, timedOutNodes } = run;
+        stream.send("workflow:complete", { failedNodes, status, timedOutNodes, totalTime: endTime - startTime, workflowId: runId }, lastSeq);
+      }
+      stream.close();
+    }),
+  };
+}
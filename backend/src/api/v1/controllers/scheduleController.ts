@@ -0,0 +1,83 @@
+import { Request, Response } from "express";
+import asyncHandler from "express-async-handler";
+
+import WorkflowAccess, { hasRole } from "../../../services/workflowAccess.js";
+import WorkflowScheduler, { ScheduleError } from "../../../services/workflowScheduler.js";
+import { CreateScheduleSchema, ScheduleListQuerySchema } from "../../../types/schemas.js";
+import { WorkflowRole } from "../../../types/workflow.js";
+import { requestUser } from "../middleware/authenticate.js";
+import { WorkflowRepository } from "../repositories/workflowRepository.js";
+import { authorize } from "../utils/authorize.js";
+import { HttpError } from "../utils/httpError.js";
+import { parseRequest } from "../utils/parseRequest.js";
+
+/**
+ * Handlers for schedules: /api/v1/schedules and /api/v1/workflows/:id/schedules
+ * Unknown IDs respond 404 NOT_FOUND; invalid cron expressions and time zones 400 INVALID_CRON / INVALID_TIMEZONE
+ * Reading a schedule needs the viewer role on its workflow and changing it the editor role
+ */
+export function createScheduleController(workflowRepository: WorkflowRepository, scheduler: WorkflowScheduler, access: WorkflowAccess) {
+  const findAuthorized = async (scheduleId: string, res: Response, role: WorkflowRole) => {
+    const schedule = scheduler.get(scheduleId);
+    if (!schedule) throw new HttpError(404, "NOT_FOUND", `Schedule ${scheduleId} not found`);
+    await authorize(access.requireWorkflow(schedule.definitionId, requestUser(res), role));
+    return schedule;
+  };
+
+  const setPaused = (paused: boolean) =>
+    asyncHandler(async (req: Request<{ scheduleId: string }>, res: Response) => {
+      await findAuthorized(req.params.scheduleId, res, "editor");
+      const schedule = await scheduler.setPaused(req.params.scheduleId, paused);
+      if (!schedule) throw new HttpError(404, "NOT_FOUND", `Schedule ${req.params.scheduleId} not found`);
+      res.json(schedule);
+    });
+
+  return {
+    create: asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+      const input = parseRequest(CreateScheduleSchema, req.body);
+      await authorize(access.requireWorkflow(req.params.id, requestUser(res), "editor"));
+
+      try {
+        res.status(201).json(await scheduler.create(req.params.id, input));
+      } catch (error) {
+        if (error instanceof ScheduleError) throw new HttpError(400, error.code, error.message);
+        throw error;
+      }
+    }),
+
+    get: asyncHandler(async (req: Request<{ scheduleId: string }>, res: Response) => {
+      res.json(await findAuthorized(req.params.scheduleId, res, "viewer"));
+    }),
+
+    // Only the schedules of workflows shared with the user
+    list: asyncHandler(async (req: Request, res: Response) => {
+      const { definitionId } = parseRequest(ScheduleListQuerySchema, req.query);
+      const user = requestUser(res);
+      const schedules = scheduler.list(definitionId);
+
+      const visible = new Set<string>();
+      for (const id of new Set(schedules.map((schedule) => schedule.definitionId))) {
+        const workflow = await workflowRepository.findById(id);
+        if (workflow && hasRole(workflow, user, "viewer")) visible.add(id);
+      }
+      res.json({ schedules: schedules.filter((schedule) => visible.has(schedule.definitionId)) });
+    }),
+
+    listByWorkflow: asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+      await authorize(access.requireWorkflow(req.params.id, requestUser(res), "viewer"));
+      res.json({ schedules: scheduler.list(req.params.id) });
+    }),
+
+    pause: setPaused(true),
+
+    remove: asyncHandler(async (req: Request<{ scheduleId: string }>, res: Response) => {
+      await findAuthorized(req.params.scheduleId, res, "editor");
+      if (!(await scheduler.delete(req.params.scheduleId))) {
+        throw new HttpError(404, "NOT_FOUND", `Schedule ${req.params.scheduleId} not found`);
+      }
+      res.status(204).end();
+    }),
+
+    resume: setPaused(false),
+  };
+}
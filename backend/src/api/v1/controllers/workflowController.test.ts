@@ -0,0 +1,168 @@
+import express from "express";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import RunService from "../../../services/runService.js";
+import WorkflowAccess from "../../../services/workflowAccess.js";
+import WorkflowRegistry from "../../../services/workflowRegistry.js";
+import WorkflowScheduler from "../../../services/workflowScheduler.js";
+import { WorkflowDefinition } from "../../../types/workflow.js";
+import { errorHandler } from "../middleware/errorHandler.js";
+import { InMemoryRunRepository } from "../repositories/inMemoryRunRepository.js";
+import { InMemoryScheduleRepository } from "../repositories/inMemoryScheduleRepository.js";
+import { InMemoryWorkflowRepository } from "../repositories/inMemoryWorkflowRepository.js";
+import { createWorkflowRouter } from "../routes/workflowRoutes.js";
+
+const workflowRepository = new InMemoryWorkflowRepository();
+const runRepository = new InMemoryRunRepository();
+// Nothing is run by these routes
+const runService = {} as RunService;
+const scheduleRepository = new InMemoryScheduleRepository();
+const scheduler = new WorkflowScheduler(scheduleRepository, workflowRepository, runService);
+const access = new WorkflowAccess(workflowRepository, runRepository, new WorkflowRegistry());
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use("/workflows", createWorkflowRouter(workflowRepository, runRepository, runService, scheduler, access));
+  app.use(errorHandler);
+  server = app.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/workflows`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function request(method: string, path: string, body?: unknown) {
+  return fetch(`${baseUrl}${path}`, {
+    body: body === undefined ? undefined : JSON.stringify(body),
+    headers: { "content-type": "application/json" },
+    method,
+  });
+}
+
+const transform = (id: string, value: number) => ({ data: { mapping: { value } }, id, position: { x: 0, y: 0 }, type: "transform" });
+
+async function createWorkflow(value = 1): Promise<WorkflowDefinition> {
+  const response = await request("POST", "", { edges: [], name: "Flow", nodes: [transform("a", value)] });
+  return (await response.json()) as WorkflowDefinition;
+}
+
+describe("workflow CRUD", () => {
+  it("creates a workflow as version 1 and reads it back", async () => {
+    const response = await request("POST", "", { description: "Doubles", edges: [], name: "Flow", nodes: [transform("a", 1)] });
+    const created = (await response.json()) as WorkflowDefinition;
+
+    expect(response.status).toBe(201);
+    expect(created).toMatchObject({ description: "Doubles", name: "Flow", nodes: [{ id: "a" }], version: 1 });
+    expect(await (await request("GET", `/${created.id}`)).json()).toEqual(created);
+    const { workflows } = (await (await request("GET", "")).json()) as { workflows: WorkflowDefinition[] };
+    expect(workflows.map(({ id }) => id)).toContain(created.id);
+  });
+
+  it("assigns webhook tokens instead of taking them from the body", async () => {
+    const webhook = { data: { token: "chosen" }, id: "hook", position: { x: 0, y: 0 }, type: "webhook" };
+    const created = (await (await request("POST", "", { edges: [], name: "Hooked", nodes: [webhook] })).json()) as WorkflowDefinition;
+    const token = created.nodes[0].data?.token as string;
+
+    expect(token).toEqual(expect.any(String));
+    expect(token).not.toBe("chosen");
+    // Saving again keeps the stored token, whatever the body sends
+    const updated = (await (await request("PUT", `/${created.id}`, { nodes: [webhook] })).json()) as WorkflowDefinition;
+    expect(updated.nodes[0].data?.token).toBe(token);
+  });
+
+  it("rejects invalid workflows with VALIDATION_ERROR and every issue", async () => {
+    const response = await request("POST", "", { edges: [], nodes: [{ id: "a", type: "unknown" }] });
+    const body = (await response.json()) as { code: string; details: { path: (number | string)[] }[] };
+
+    expect(response.status).toBe(400);
+    expect(body.code).toBe("VALIDATION_ERROR");
+    expect(body.details.map(({ path }) => path.join("."))).toEqual(expect.arrayContaining(["name", "nodes.0.type", "nodes.0.position"]));
+  });
+
+  it("saves updates as a new version and keeps the fields they leave out", async () => {
+    const { id } = await createWorkflow(1);
+    const response = await request("PUT", `/${id}`, { name: "Renamed" });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ id, name: "Renamed", nodes: [{ data: { mapping: { value: 1 } } }], version: 2 });
+    expect(await (await request("GET", `/${id}`)).json()).toMatchObject({ name: "Renamed", version: 2 });
+  });
+
+  it("rejects invalid updates without saving them", async () => {
+    const { id } = await createWorkflow(1);
+    const response = await request("PUT", `/${id}`, { nodes: "none" });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "VALIDATION_ERROR" });
+    expect(await (await request("GET", `/${id}`)).json()).toMatchObject({ version: 1 });
+  });
+
+  it("deletes a workflow with its schedules", async () => {
+    const { id } = await createWorkflow();
+    await scheduler.create(id, { cron: "0 * * * *", inputs: {}, missedRunPolicy: "skip", timezone: "UTC" });
+    const response = await request("DELETE", `/${id}`);
+
+    expect(response.status).toBe(204);
+    expect((await request("GET", `/${id}`)).status).toBe(404);
+    expect((await scheduleRepository.list()).filter(({ definitionId }) => definitionId === id)).toEqual([]);
+  });
+
+  it.each([
+    ["GET", undefined],
+    ["PUT", { name: "Renamed" }],
+    ["DELETE", undefined],
+  ])("responds 404 NOT_FOUND to %s of an unknown workflow", async (method, body) => {
+    const response = await request(method, "/missing", body);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ code: "NOT_FOUND" });
+  });
+});
+
+describe("workflow versions", () => {
+  it("rolls back by saving the old contents as a new version", async () => {
+    const { id } = await createWorkflow(1);
+    await request("PUT", `/${id}`, { nodes: [transform("a", 2)] });
+
+    const response = await request("POST", `/${id}/versions/1/rollback`);
+    const rolledBack = (await response.json()) as WorkflowDefinition;
+
+    expect(response.status).toBe(200);
+    expect(rolledBack).toMatchObject({ nodes: [{ data: { mapping: { value: 1 } } }], version: 3 });
+    const { versions } = (await (await request("GET", `/${id}/versions`)).json()) as { versions: { restoredFrom?: number; version: number }[] };
+    expect(versions.map(({ restoredFrom, version }) => ({ restoredFrom, version }))).toEqual([
+      { restoredFrom: 1, version: 3 },
+      { restoredFrom: undefined, version: 2 },
+      { restoredFrom: undefined, version: 1 },
+    ]);
+    // Older versions are left as they were
+    expect(await (await request("GET", `/${id}/versions/2`)).json()).toMatchObject({ nodes: [{ data: { mapping: { value: 2 } } }], version: 2 });
+  });
+
+  it("responds 404 when rolling back to an unknown version or workflow", async () => {
+    const { id } = await createWorkflow();
+
+    expect((await request("POST", `/${id}/versions/9/rollback`)).status).toBe(404);
+    expect((await request("POST", `/missing/versions/1/rollback`)).status).toBe(404);
+    expect((await request("POST", `/${id}/versions/zero/rollback`)).status).toBe(400);
+  });
+
+  it("diffs two versions", async () => {
+    const { id } = await createWorkflow(1);
+    await request("PUT", `/${id}`, { nodes: [transform("a", 2)] });
+
+    expect(await (await request("GET", `/${id}/diff?from=1&to=2`)).json()).toMatchObject({
+      fromVersion: 1,
+      nodes: { changed: [{ changes: [{ from: 1, path: "data.mapping.value", to: 2 }], nodeId: "a" }] },
+      toVersion: 2,
+    });
+  });
+});
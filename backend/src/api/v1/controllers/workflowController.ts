@@ -0,0 +1,116 @@
+import { Request, Response } from "express";
+import asyncHandler from "express-async-handler";
+
+import { assignWebhookTokens } from "../../../services/webhookTrigger.js";
+import WorkflowAccess, { hasRole } from "../../../services/workflowAccess.js";
+import { diffWorkflowVersions } from "../../../services/workflowDiff.js";
+import WorkflowScheduler from "../../../services/workflowScheduler.js";
+import {
+  CreateWorkflowSchema,
+  UpdateWorkflowSchema,
+  VersionDiffQuerySchema,
+  VersionParamSchema,
+  WorkflowMembersSchema,
+} from "../../../types/schemas.js";
+import { WorkflowRole } from "../../../types/workflow.js";
+import { requestUser } from "../middleware/authenticate.js";
+import { WebhookTokenConflictError, WorkflowRepository } from "../repositories/workflowRepository.js";
+import { authorize } from "../utils/authorize.js";
+import { HttpError } from "../utils/httpError.js";
+import { parseRequest } from "../utils/parseRequest.js";
+
+/**
+ * Handlers for /api/v1/workflows and their versions
+ * Bodies are validated with zod; unknown IDs and versions respond 404 NOT_FOUND
+ * Reading needs the viewer role, saving the editor role, and deleting and sharing the owner role (403 FORBIDDEN)
+ * Deleting a workflow deletes its schedules; webhook tokens are assigned by the server, never taken from the body
+ */
+export function createWorkflowController(repository: WorkflowRepository, scheduler: WorkflowScheduler, access: WorkflowAccess) {
+  const findAuthorized = (id: string, res: Response, role: WorkflowRole) => authorize(access.requireWorkflow(id, requestUser(res), role));
+
+  const findVersionOr404 = async (id: string, version: number) => {
+    const snapshot = await repository.findVersion(id, version);
+    if (!snapshot) throw new HttpError(404, "NOT_FOUND", `Version ${version} of workflow ${id} not found`);
+    return snapshot;
+  };
+
+  // Tokens are random, so a conflict is a freak collision the client can resolve by saving again
+  const saving = <T>(save: Promise<T>): Promise<T> =>
+    save.catch((error: unknown) => {
+      if (error instanceof WebhookTokenConflictError) throw new HttpError(409, "WEBHOOK_TOKEN_CONFLICT", error.message);
+      throw error;
+    });
+
+  return {
+    create: asyncHandler(async (req: Request, res: Response) => {
+      const input = parseRequest(CreateWorkflowSchema, req.body);
+      res.status(201).json(await saving(repository.create({ ...input, nodes: assignWebhookTokens(input.nodes) }, requestUser(res)?.id)));
+    }),
+
+    diffVersions: asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+      const { from, to } = parseRequest(VersionDiffQuerySchema, req.query);
+      await findAuthorized(req.params.id, res, "viewer");
+      const [fromVersion, toVersion] = await Promise.all([findVersionOr404(req.params.id, from), findVersionOr404(req.params.id, to)]);
+      res.json(diffWorkflowVersions(fromVersion, toVersion));
+    }),
+
+    get: asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+      res.json(await findAuthorized(req.params.id, res, "viewer"));
+    }),
+
+    getVersion: asyncHandler(async (req: Request<{ id: string; version: string }>, res: Response) => {
+      const version = parseRequest(VersionParamSchema, req.params.version);
+      await findAuthorized(req.params.id, res, "viewer");
+      res.json(await findVersionOr404(req.params.id, version));
+    }),
+
+    // Only the workflows shared with the user
+    list: asyncHandler(async (_req: Request, res: Response) => {
+      const user = requestUser(res);
+      res.json({ workflows: (await repository.list()).filter((workflow) => hasRole(workflow, user, "viewer")) });
+    }),
+
+    listVersions: asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+      await findAuthorized(req.params.id, res, "viewer");
+      res.json({ versions: await repository.listVersions(req.params.id) });
+    }),
+
+    remove: asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+      await findAuthorized(req.params.id, res, "owner");
+      if (!(await repository.delete(req.params.id))) {
+        throw new HttpError(404, "NOT_FOUND", `Workflow ${req.params.id} not found`);
+      }
+      await scheduler.deleteByDefinition(req.params.id);
+      res.status(204).end();
+    }),
+
+    // Rolling back saves the old contents as a new version, so history is never rewritten
+    rollback: asyncHandler(async (req: Request<{ id: string; version: string }>, res: Response) => {
+      const version = parseRequest(VersionParamSchema, req.params.version);
+      const current = await findAuthorized(req.params.id, res, "editor");
+      const { description, edges, name, nodes } = await findVersionOr404(req.params.id, version);
+      const workflow = await saving(
+        repository.update(req.params.id, { description, edges, name, nodes: assignWebhookTokens(nodes, current.nodes) }, version),
+      );
+      if (!workflow) throw new HttpError(404, "NOT_FOUND", `Workflow ${req.params.id} not found`);
+      res.json(workflow);
+    }),
+
+    setMembers: asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+      const { members } = parseRequest(WorkflowMembersSchema, req.body);
+      await findAuthorized(req.params.id, res, "owner");
+      const workflow = await repository.setMembers(req.params.id, members);
+      if (!workflow) throw new HttpError(404, "NOT_FOUND", `Workflow ${req.params.id} not found`);
+      res.json(workflow);
+    }),
+
+    update: asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+      const input = parseRequest(UpdateWorkflowSchema, req.body);
+      const current = await findAuthorized(req.params.id, res, "editor");
+      if (input.nodes) input.nodes = assignWebhookTokens(input.nodes, current.nodes);
+      const workflow = await saving(repository.update(req.params.id, input));
+      if (!workflow) throw new HttpError(404, "NOT_FOUND", `Workflow ${req.params.id} not found`);
+      res.json(workflow);
+    }),
+  };
+}
@@ -1,7 +1,48 @@
 import express from "express";
 
+import CredentialVault from "../../services/credentialVault.js";
+import RunService from "../../services/runService.js";
+import WorkflowAccess from "../../services/workflowAccess.js";
+import WorkflowScheduler from "../../services/workflowScheduler.js";
+import { authenticate } from "./middleware/authenticate.js";
+import { cors } from "./middleware/cors.js";
+import { errorHandler, notFoundHandler } from "./middleware/errorHandler.js";
+import { RunRepository } from "./repositories/runRepository.js";
+import { WorkflowRepository } from "./repositories/workflowRepository.js";
+import { createCredentialRouter } from "./routes/credentialRoutes.js";
+import { createHookRouter } from "./routes/hookRoutes.js";
+import { createRunRouter } from "./routes/runRoutes.js";
+import { createScheduleRouter } from "./routes/scheduleRoutes.js";
+import { createWorkflowRouter } from "./routes/workflowRoutes.js";
 
-const app = express();
+export interface ApiV1Dependencies {
+  access: WorkflowAccess;
+  authSecret?: string; // Requests need a token signed with it; unset disables authentication
+  runRepository: RunRepository;
+  runService: RunService;
+  scheduler: WorkflowScheduler;
+  vault: CredentialVault;
+  workflowRepository: WorkflowRepository;
+}
 
+/**
+ * REST API mounted at /api/v1
+ * Webhooks authenticate with their signature; every other route needs a bearer token when authSecret is set
+ */
+export function createApiV1Router({ access, authSecret, runRepository, runService, scheduler, vault, workflowRepository }: ApiV1Dependencies) {
+  const router = express.Router();
 
-export { app as apiV1Router };
+  router.use(cors);
+  router.use("/hooks", createHookRouter(workflowRepository, runService, vault)); // Before express.json so bodies stay raw
+  router.use(authenticate(authSecret));
+  router.use(express.json({ limit: "1mb" })); // Parsed here so malformed bodies reach errorHandler
+  router.use("/credentials", createCredentialRouter(vault));
+  router.use("/runs", createRunRouter(runRepository, runService, access));
+  router.use("/schedules", createScheduleRouter(workflowRepository, scheduler, access));
+  router.use("/workflows", createWorkflowRouter(workflowRepository, runRepository, runService, scheduler, access));
+
+  router.use(notFoundHandler);
+  router.use(errorHandler);
+
+  return router;
+}
@@ -0,0 +1,38 @@
+import { NextFunction, Request, Response } from "express";
+
+import { AuthError, bearerToken, verifyToken } from "../../../services/authToken.js";
+import { AuthUser } from "../../../types/workflow.js";
+import { HttpError } from "../utils/httpError.js";
+
+/**
+ * Require a valid bearer token (see services/authToken) when a secret is configured, responding 401 UNAUTHORIZED otherwise
+ * The verified user is kept in res.locals.user; without a secret every request is anonymous
+ */
+export function authenticate(secret?: string) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!secret) {
+      next();
+      return;
+    }
+
+    const token = bearerToken(req.headers.authorization);
+    if (!token) {
+      next(new HttpError(401, "UNAUTHORIZED", "Missing bearer token"));
+      return;
+    }
+
+    try {
+      res.locals.user = verifyToken(token, secret);
+      next();
+    } catch (error) {
+      next(error instanceof AuthError ? new HttpError(401, error.code, error.message) : error);
+    }
+  };
+}
+
+/**
+ * User the request was authenticated as; undefined when authentication is not configured
+ */
+export function requestUser(res: Response): AuthUser | undefined {
+  return res.locals.user as AuthUser | undefined;
+}
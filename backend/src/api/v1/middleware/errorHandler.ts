@@ -0,0 +1,35 @@
+import { NextFunction, Request, Response } from "express";
+
+import { HttpError } from "../utils/httpError.js";
+
+/**
+ * Respond with { code, error } for errors thrown by route handlers
+ * Unexpected errors are logged and reported as INTERNAL_ERROR without leaking their message
+ */
+export function errorHandler(error: unknown, _req: Request, res: Response, next: NextFunction): void {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  if (error instanceof HttpError) {
+    res.status(error.status).json({ code: error.code, details: error.details, error: error.message });
+    return;
+  }
+
+  // Malformed JSON bodies are rejected by express.json() before reaching a route
+  if (error instanceof SyntaxError && "body" in error) {
+    res.status(400).json({ code: "INVALID_JSON", error: "Request body is not valid JSON" });
+    return;
+  }
+
+  console.error("[API] Unhandled error:", error);
+  res.status(500).json({ code: "INTERNAL_ERROR", error: "Internal server error" });
+}
+
+/**
+ * 404 for routes that do not exist under the API prefix
+ */
+export function notFoundHandler(req: Request, res: Response): void {
+  res.status(404).json({ code: "NOT_FOUND", error: `No route for ${req.method} ${req.originalUrl}` });
+}
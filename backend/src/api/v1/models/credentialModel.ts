@@ -0,0 +1,26 @@
+import mongoose, { Schema } from "mongoose";
+
+import { EncryptedCredential, EncryptedSecret } from "../../../types/workflow.js";
+
+const encryptedSecretSchema = new Schema<EncryptedSecret>(
+  {
+    ciphertext: { required: true, type: String },
+    iv: { required: true, type: String },
+    tag: { required: true, type: String },
+  },
+  { _id: false },
+);
+
+const credentialSchema = new Schema<EncryptedCredential>({
+  createdAt: { required: true, type: Number },
+  description: { type: String },
+  id: { required: true, type: String, unique: true },
+  name: { required: true, type: String },
+  ownerId: { index: true, type: String },
+  secret: { required: true, type: encryptedSecretSchema },
+  updatedAt: { required: true, type: Number },
+});
+
+export const CredentialModel = mongoose.model("Credential", credentialSchema);
+
+export default CredentialModel;
@@ -0,0 +1,54 @@
+import mongoose, { Schema } from "mongoose";
+
+import { NodeLogEntry, WorkflowRun } from "../../../types/workflow.js";
+import { StoredNodeEvent } from "../repositories/runRepository.js";
+
+// Graph, inputs and node outcomes are stored as-is; they are validated before a run starts
+const workflowRunSchema = new Schema<WorkflowRun>(
+  {
+    definitionId: { index: true, type: String },
+    definitionVersion: { type: Number },
+    edges: { type: Schema.Types.Mixed },
+    endTime: { type: Number },
+    error: { type: String },
+    failedNodes: { type: [String] },
+    inputs: { type: Schema.Types.Mixed },
+    nodeRuns: { type: Schema.Types.Mixed },
+    nodes: { type: Schema.Types.Mixed },
+    options: { type: Schema.Types.Mixed },
+    parentRunId: { type: String },
+    rerunFromNodeId: { type: String },
+    runId: { required: true, type: String, unique: true },
+    startedBy: { type: String },
+    startTime: { required: true, type: Number },
+    status: { required: true, type: String },
+    timedOutNodes: { type: [String] },
+    trigger: { type: Schema.Types.Mixed },
+  },
+  { minimize: false },
+);
+// Key order is the index order, matching the listing sort
+// eslint-disable-next-line perfectionist/sort-objects
+workflowRunSchema.index({ definitionId: 1, startTime: -1, runId: -1 });
+
+const nodeEventSchema = new Schema<StoredNodeEvent>({
+  event: { type: Schema.Types.Mixed },
+  runId: { required: true, type: String },
+  seq: { required: true, type: Number },
+});
+nodeEventSchema.index({ runId: 1, seq: 1 });
+
+const nodeLogSchema = new Schema<NodeLogEntry>({
+  fields: { type: Schema.Types.Mixed },
+  level: { required: true, type: String },
+  message: { required: true, type: String },
+  nodeId: { required: true, type: String },
+  runId: { required: true, type: String },
+  seq: { required: true, type: Number },
+  timestamp: { required: true, type: Number },
+});
+nodeLogSchema.index({ nodeId: 1, runId: 1, seq: 1 });
+
+export const WorkflowRunModel = mongoose.model("WorkflowRun", workflowRunSchema);
+export const NodeEventModel = mongoose.model("NodeEvent", nodeEventSchema);
+export const NodeLogModel = mongoose.model("NodeLog", nodeLogSchema);
@@ -0,0 +1,26 @@
+import mongoose, { Schema } from "mongoose";
+
+import { WorkflowSchedule } from "../../../types/workflow.js";
+
+const scheduleSchema = new Schema<WorkflowSchedule>(
+  {
+    createdAt: { required: true, type: Number },
+    cron: { required: true, type: String },
+    definitionId: { index: true, required: true, type: String },
+    id: { required: true, type: String, unique: true },
+    inputs: { type: Schema.Types.Mixed },
+    lastError: { type: String },
+    lastRunAt: { type: Number },
+    lastRunId: { type: String },
+    missedRunPolicy: { required: true, type: String },
+    nextRunAt: { type: Number },
+    paused: { required: true, type: Boolean },
+    timezone: { required: true, type: String },
+    updatedAt: { required: true, type: Number },
+  },
+  { minimize: false },
+);
+
+export const ScheduleModel = mongoose.model("WorkflowSchedule", scheduleSchema);
+
+export default ScheduleModel;
@@ -0,0 +1,58 @@
+import mongoose, { InferSchemaType, Schema } from "mongoose";
+
+export const positionSchema = new Schema({ x: { required: true, type: Number }, y: { required: true, type: Number } }, { _id: false });
+
+export const nodeSchema = new Schema(
+  {
+    data: { type: Schema.Types.Mixed },
+    id: { required: true, type: String },
+    label: { type: String },
+    position: { required: true, type: positionSchema },
+    type: { required: true, type: String },
+  },
+  { _id: false, minimize: false },
+);
+
+export const edgeSchema = new Schema(
+  {
+    id: { required: true, type: String },
+    source: { required: true, type: String },
+    sourceHandle: { type: String },
+    target: { required: true, type: String },
+    targetHandle: { type: String },
+  },
+  { _id: false },
+);
+
+const memberSchema = new Schema(
+  {
+    role: { enum: ["editor", "viewer"], required: true, type: String },
+    userId: { required: true, type: String },
+  },
+  { _id: false },
+);
+
+const workflowSchema = new Schema(
+  {
+    description: { type: String },
+    edges: { default: [], type: [edgeSchema] },
+    members: { default: [], type: [memberSchema] },
+    name: { required: true, type: String },
+    nodes: { default: [], type: [nodeSchema] },
+    ownerId: { type: String },
+    version: { default: 1, required: true, type: Number },
+    // Tokens of the webhook nodes, kept by the repository; unset rather than empty so the sparse index skips the workflow
+    webhookTokens: { default: undefined, type: [String] },
+  },
+  { timestamps: true },
+);
+
+// Webhook requests look their workflow up by token, which no two workflows may share
+// Indexed apart from nodes.data.token, where every node without a token would count as a duplicate null
+workflowSchema.index({ webhookTokens: 1 }, { sparse: true, unique: true });
+
+export type WorkflowDocument = InferSchemaType<typeof workflowSchema> & { _id: mongoose.Types.ObjectId };
+
+export const WorkflowModel = mongoose.model("Workflow", workflowSchema);
+
+export default WorkflowModel;
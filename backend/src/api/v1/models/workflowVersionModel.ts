@@ -0,0 +1,25 @@
+import mongoose, { InferSchemaType, Schema } from "mongoose";
+
+import { edgeSchema, nodeSchema } from "./workflowModel.js";
+
+const workflowVersionSchema = new Schema(
+  {
+    createdAt: { required: true, type: Date },
+    definitionId: { required: true, type: Schema.Types.ObjectId },
+    description: { type: String },
+    edges: { default: [], type: [edgeSchema] },
+    name: { required: true, type: String },
+    nodes: { default: [], type: [nodeSchema] },
+    restoredFrom: { type: Number },
+    version: { required: true, type: Number },
+  },
+  { versionKey: false },
+);
+
+workflowVersionSchema.index({ definitionId: 1, version: -1 }, { unique: true });
+
+export type WorkflowVersionDocument = InferSchemaType<typeof workflowVersionSchema> & { _id: mongoose.Types.ObjectId };
+
+export const WorkflowVersionModel = mongoose.model("WorkflowVersion", workflowVersionSchema);
+
+export default WorkflowVersionModel;
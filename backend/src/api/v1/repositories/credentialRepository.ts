@@ -0,0 +1,16 @@
+/**
+ * Storage for credentials, whose secrets arrive already encrypted by the credential vault
+ * Implemented in memory for local development and with Mongoose when MONGO_URI is set
+ */
+
+import { EncryptedCredential } from "../../../types/workflow.js";
+
+export interface CredentialRepository {
+  /** Returns false if the credential does not exist */
+  delete(id: string): Promise<boolean>;
+  findById(id: string): Promise<EncryptedCredential | undefined>;
+  /** Oldest first */
+  list(): Promise<EncryptedCredential[]>;
+  /** Insert or replace the credential */
+  save(credential: EncryptedCredential): Promise<void>;
+}
@@ -0,0 +1,28 @@
+import { EncryptedCredential } from "../../../types/workflow.js";
+import { CredentialRepository } from "./credentialRepository.js";
+
+/**
+ * Credential repository backed by a Map; contents are lost on restart
+ */
+export class InMemoryCredentialRepository implements CredentialRepository {
+  private credentials: Map<string, EncryptedCredential> = new Map();
+
+  async delete(id: string): Promise<boolean> {
+    return this.credentials.delete(id);
+  }
+
+  async findById(id: string): Promise<EncryptedCredential | undefined> {
+    const credential = this.credentials.get(id);
+    return credential && structuredClone(credential);
+  }
+
+  async list(): Promise<EncryptedCredential[]> {
+    return [...this.credentials.values()].map((credential) => structuredClone(credential));
+  }
+
+  async save(credential: EncryptedCredential): Promise<void> {
+    this.credentials.set(credential.id, structuredClone(credential));
+  }
+}
+
+export default InMemoryCredentialRepository;
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+
+import { WorkflowRun } from "../../../types/workflow.js";
+import { InMemoryRunRepository } from "./inMemoryRunRepository.js";
+
+async function listAll(repository: InMemoryRunRepository, limit: number) {
+  const runIds: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await repository.listByDefinition("wf", { cursor, limit });
+    runIds.push(...page.runs.map((summary) => summary.runId));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return runIds;
+}
+
+function run(runId: string, startTime: number, definitionId = "wf"): WorkflowRun {
+  return { definitionId, edges: [], inputs: {}, nodeRuns: {}, nodes: [], options: {}, runId, startTime, status: "success" };
+}
+
+describe("InMemoryRunRepository.listByDefinition", () => {
+  it("lists a workflow's runs newest first as summaries", async () => {
+    const repository = new InMemoryRunRepository();
+    await repository.save(run("a", 1));
+    await repository.save(run("b", 2));
+    await repository.save(run("other", 3, "other-wf"));
+
+    const page = await repository.listByDefinition("wf", { limit: 10 });
+    expect(page.runs.map((summary) => summary.runId)).toEqual(["b", "a"]);
+    expect(page.runs[0]).not.toHaveProperty("nodes");
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it("does not skip or repeat runs started in the same millisecond across page boundaries", async () => {
+    const repository = new InMemoryRunRepository();
+    for (const runId of ["a", "b", "c", "d", "e"]) await repository.save(run(runId, 1000));
+    await repository.save(run("f", 999));
+
+    expect(await listAll(repository, 2)).toEqual(["e", "d", "c", "b", "a", "f"]);
+  });
+});
@@ -0,0 +1,70 @@
+import { NodeLogEntry, WorkflowRun } from "../../../types/workflow.js";
+import { decodeRunCursor, encodeRunCursor, LogPage, NodeLogFilter, RunPage, RunRepository, StoredNodeEvent, toRunSummary } from "./runRepository.js";
+
+// Oldest runs, with their events and logs, are dropped beyond this many
+const MAX_RUNS = 200;
+
+/**
+ * Run repository backed by Maps; contents are lost on restart
+ */
+export class InMemoryRunRepository implements RunRepository {
+  private events: Map<string, StoredNodeEvent[]> = new Map();
+  private logs: Map<string, NodeLogEntry[]> = new Map();
+  private runs: Map<string, WorkflowRun> = new Map();
+
+  async appendEvents(events: StoredNodeEvent[]): Promise<void> {
+    for (const event of events) {
+      if (!this.events.has(event.runId)) this.events.set(event.runId, []);
+      this.events.get(event.runId)!.push(structuredClone(event));
+    }
+  }
+
+  async appendLogs(entries: NodeLogEntry[]): Promise<void> {
+    for (const entry of entries) {
+      if (!this.logs.has(entry.runId)) this.logs.set(entry.runId, []);
+      this.logs.get(entry.runId)!.push({ ...entry });
+    }
+  }
+
+  async findById(runId: string): Promise<undefined | WorkflowRun> {
+    const run = this.runs.get(runId);
+    return run && structuredClone(run);
+  }
+
+  async listByDefinition(definitionId: string, { cursor, limit }: { cursor?: string; limit: number }): Promise<RunPage> {
+    const after = cursor === undefined ? undefined : decodeRunCursor(cursor);
+    const runs = [...this.runs.values()]
+      .filter(
+        (run) =>
+          run.definitionId === definitionId &&
+          (after === undefined || run.startTime < after.startTime || (run.startTime === after.startTime && run.runId < after.runId)),
+      )
+      .sort((a, b) => b.startTime - a.startTime || (a.runId < b.runId ? 1 : -1));
+
+    const page = runs.slice(0, limit);
+    return { nextCursor: runs.length > limit ? encodeRunCursor(page.at(-1)!) : undefined, runs: page.map(toRunSummary) };
+  }
+
+  async listLogs({ cursor, level, limit, nodeId, runId }: NodeLogFilter): Promise<LogPage> {
+    const logs = (this.logs.get(runId) ?? []).filter(
+      (entry) => entry.nodeId === nodeId && (cursor === undefined || entry.seq > cursor) && (level === undefined || entry.level === level),
+    );
+
+    const page = logs.slice(0, limit);
+    return { logs: page, nextCursor: logs.length > limit ? page.at(-1)!.seq : undefined };
+  }
+
+  async save(run: WorkflowRun): Promise<void> {
+    this.runs.delete(run.runId);
+    this.runs.set(run.runId, structuredClone(run));
+
+    for (const runId of this.runs.keys()) {
+      if (this.runs.size <= MAX_RUNS) break;
+      this.runs.delete(runId);
+      this.events.delete(runId);
+      this.logs.delete(runId);
+    }
+  }
+}
+
+export default InMemoryRunRepository;
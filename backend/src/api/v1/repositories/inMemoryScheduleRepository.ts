@@ -0,0 +1,29 @@
+import { WorkflowSchedule } from "../../../types/workflow.js";
+import { ScheduleRepository } from "./scheduleRepository.js";
+
+/**
+ * Schedule repository backed by a Map; contents are lost on restart
+ */
+export class InMemoryScheduleRepository implements ScheduleRepository {
+  private schedules: Map<string, WorkflowSchedule> = new Map();
+
+  async delete(id: string): Promise<boolean> {
+    return this.schedules.delete(id);
+  }
+
+  async deleteByDefinition(definitionId: string): Promise<void> {
+    for (const schedule of this.schedules.values()) {
+      if (schedule.definitionId === definitionId) this.schedules.delete(schedule.id);
+    }
+  }
+
+  async list(): Promise<WorkflowSchedule[]> {
+    return [...this.schedules.values()].map((schedule) => structuredClone(schedule));
+  }
+
+  async save(schedule: WorkflowSchedule): Promise<void> {
+    this.schedules.set(schedule.id, structuredClone(schedule));
+  }
+}
+
+export default InMemoryScheduleRepository;
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+
+import { InMemoryWorkflowRepository } from "./inMemoryWorkflowRepository.js";
+import { WebhookTokenConflictError } from "./workflowRepository.js";
+
+const hook = (token: string) => ({ data: { token }, id: "hook", position: { x: 0, y: 0 }, type: "webhook" as const });
+
+describe("InMemoryWorkflowRepository webhook tokens", () => {
+  it("finds the workflow owning a token", async () => {
+    const repository = new InMemoryWorkflowRepository();
+    const workflow = await repository.create({ edges: [], name: "Hook", nodes: [hook("t1")] });
+
+    expect((await repository.findByWebhookToken("t1"))?.id).toBe(workflow.id);
+    expect(await repository.findByWebhookToken("t2")).toBeUndefined();
+  });
+
+  it("rejects a token already used by another workflow", async () => {
+    const repository = new InMemoryWorkflowRepository();
+    const first = await repository.create({ edges: [], name: "First", nodes: [hook("t1")] });
+    const second = await repository.create({ edges: [], name: "Second", nodes: [hook("t2")] });
+
+    await expect(repository.create({ edges: [], name: "Copy", nodes: [hook("t1")] })).rejects.toBeInstanceOf(WebhookTokenConflictError);
+    await expect(repository.update(second.id, { nodes: [hook("t1")] })).rejects.toBeInstanceOf(WebhookTokenConflictError);
+    await expect(repository.update(first.id, { nodes: [hook("t1")] })).resolves.toMatchObject({ version: 2 });
+  });
+});
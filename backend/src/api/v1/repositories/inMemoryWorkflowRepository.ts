@@ -0,0 +1,109 @@
+import { randomUUID } from "node:crypto";
+
+import { findWebhookNode, webhookTokens } from "../../../services/webhookTrigger.js";
+import { CreateWorkflowRequest, UpdateWorkflowRequest } from "../../../types/schemas.js";
+import { WorkflowDefinition, WorkflowMember, WorkflowVersion } from "../../../types/workflow.js";
+import { toWorkflowVersion, WebhookTokenConflictError, WorkflowRepository, WorkflowSummary, WorkflowVersionSummary } from "./workflowRepository.js";
+
+/**
+ * Workflow repository backed by a Map; contents are lost on restart
+ * Definitions are cloned on the way in and out so callers cannot mutate stored state
+ */
+export class InMemoryWorkflowRepository implements WorkflowRepository {
+  private versions: Map<string, WorkflowVersion[]> = new Map(); // Definition ID -> versions, oldest first
+  private workflows: Map<string, WorkflowDefinition> = new Map();
+
+  async create(input: CreateWorkflowRequest, ownerId?: string): Promise<WorkflowDefinition> {
+    this.assertTokensUnused(input.nodes);
+    const now = Date.now();
+    const workflow: WorkflowDefinition = {
+      ...structuredClone(input),
+      createdAt: now,
+      id: randomUUID(),
+      members: [],
+      ownerId,
+      updatedAt: now,
+      version: 1,
+    };
+    this.workflows.set(workflow.id, workflow);
+    this.versions.set(workflow.id, [toWorkflowVersion(structuredClone(workflow))]);
+    return structuredClone(workflow);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    this.versions.delete(id);
+    return this.workflows.delete(id);
+  }
+
+  async findById(id: string): Promise<undefined | WorkflowDefinition> {
+    const workflow = this.workflows.get(id);
+    return workflow && structuredClone(workflow);
+  }
+
+  async findByWebhookToken(token: string): Promise<undefined | WorkflowDefinition> {
+    const workflow = [...this.workflows.values()].find(({ nodes }) => findWebhookNode(nodes, token));
+    return workflow && structuredClone(workflow);
+  }
+
+  async findVersion(id: string, version: number): Promise<undefined | WorkflowVersion> {
+    const snapshot = this.versions.get(id)?.[version - 1];
+    return snapshot && structuredClone(snapshot);
+  }
+
+  async list(): Promise<WorkflowSummary[]> {
+    return [...this.workflows.values()]
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(({ createdAt, description, id, members, name, ownerId, updatedAt, version }) => ({
+        createdAt,
+        description,
+        id,
+        members: structuredClone(members),
+        name,
+        ownerId,
+        updatedAt,
+        version,
+      }));
+  }
+
+  async listVersions(id: string): Promise<WorkflowVersionSummary[]> {
+    return (this.versions.get(id) ?? [])
+      .map(({ createdAt, definitionId, description, name, restoredFrom, version }) => ({
+        createdAt,
+        definitionId,
+        description,
+        name,
+        restoredFrom,
+        version,
+      }))
+      .reverse();
+  }
+
+  async setMembers(id: string, members: WorkflowMember[]): Promise<undefined | WorkflowDefinition> {
+    const workflow = this.workflows.get(id);
+    if (!workflow) return undefined;
+
+    workflow.members = structuredClone(members);
+    return structuredClone(workflow);
+  }
+
+  async update(id: string, input: UpdateWorkflowRequest, restoredFrom?: number): Promise<undefined | WorkflowDefinition> {
+    const existing = this.workflows.get(id);
+    if (!existing) return undefined;
+    if (input.nodes) this.assertTokensUnused(input.nodes, id);
+
+    const workflow: WorkflowDefinition = { ...existing, ...structuredClone(input), updatedAt: Date.now(), version: existing.version + 1 };
+    this.workflows.set(id, workflow);
+    this.versions.get(id)!.push(toWorkflowVersion(structuredClone(workflow), restoredFrom));
+    return structuredClone(workflow);
+  }
+
+  // Same rule as the unique webhookTokens index of the Mongo repository
+  private assertTokensUnused(nodes: CreateWorkflowRequest["nodes"], id?: string): void {
+    const tokens = new Set(webhookTokens(nodes));
+    for (const workflow of this.workflows.values()) {
+      if (workflow.id !== id && webhookTokens(workflow.nodes).some((token) => tokens.has(token))) throw new WebhookTokenConflictError();
+    }
+  }
+}
+
+export default InMemoryWorkflowRepository;
@@ -0,0 +1,43 @@
+import connectDb from "../config/dbConnection.js";
+import { CredentialRepository } from "./credentialRepository.js";
+import InMemoryCredentialRepository from "./inMemoryCredentialRepository.js";
+import InMemoryRunRepository from "./inMemoryRunRepository.js";
+import InMemoryScheduleRepository from "./inMemoryScheduleRepository.js";
+import InMemoryWorkflowRepository from "./inMemoryWorkflowRepository.js";
+import MongoCredentialRepository from "./mongoCredentialRepository.js";
+import MongoRunRepository from "./mongoRunRepository.js";
+import MongoScheduleRepository from "./mongoScheduleRepository.js";
+import MongoWorkflowRepository from "./mongoWorkflowRepository.js";
+import { RunRepository } from "./runRepository.js";
+import { ScheduleRepository } from "./scheduleRepository.js";
+import { WorkflowRepository } from "./workflowRepository.js";
+
+export interface Repositories {
+  credentialRepository: CredentialRepository;
+  runRepository: RunRepository;
+  scheduleRepository: ScheduleRepository;
+  workflowRepository: WorkflowRepository;
+}
+
+/**
+ * Pick the storage backend: MongoDB when MONGO_URI is set, otherwise in memory
+ */
+export async function createRepositories(): Promise<Repositories> {
+  if (!process.env.MONGO_URI) {
+    console.log("[API] MONGO_URI not set, storing workflows, runs, schedules and credentials in memory");
+    return {
+      credentialRepository: new InMemoryCredentialRepository(),
+      runRepository: new InMemoryRunRepository(),
+      scheduleRepository: new InMemoryScheduleRepository(),
+      workflowRepository: new InMemoryWorkflowRepository(),
+    };
+  }
+
+  await connectDb();
+  return {
+    credentialRepository: new MongoCredentialRepository(),
+    runRepository: new MongoRunRepository(),
+    scheduleRepository: new MongoScheduleRepository(),
+    workflowRepository: new MongoWorkflowRepository(),
+  };
+}
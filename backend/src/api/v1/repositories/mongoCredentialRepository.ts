@@ -0,0 +1,29 @@
+import { EncryptedCredential } from "../../../types/workflow.js";
+import CredentialModel from "../models/credentialModel.js";
+import { CredentialRepository } from "./credentialRepository.js";
+
+// Projection that strips Mongo's own fields from returned documents
+const WITHOUT_MONGO_FIELDS = { __v: 0, _id: 0 };
+
+/**
+ * Credential repository backed by MongoDB
+ */
+export class MongoCredentialRepository implements CredentialRepository {
+  async delete(id: string): Promise<boolean> {
+    return (await CredentialModel.deleteOne({ id })).deletedCount > 0;
+  }
+
+  async findById(id: string): Promise<EncryptedCredential | undefined> {
+    return (await CredentialModel.findOne({ id }, WITHOUT_MONGO_FIELDS).lean<EncryptedCredential>()) ?? undefined;
+  }
+
+  async list(): Promise<EncryptedCredential[]> {
+    return CredentialModel.find({}, WITHOUT_MONGO_FIELDS).sort({ createdAt: 1 }).lean<EncryptedCredential[]>();
+  }
+
+  async save(credential: EncryptedCredential): Promise<void> {
+    await CredentialModel.replaceOne({ id: credential.id }, credential, { upsert: true });
+  }
+}
+
+export default MongoCredentialRepository;
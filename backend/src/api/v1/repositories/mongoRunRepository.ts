@@ -0,0 +1,60 @@
+import { NodeLogEntry, WorkflowRun } from "../../../types/workflow.js";
+import { NodeEventModel, NodeLogModel, WorkflowRunModel } from "../models/runModels.js";
+import { decodeRunCursor, encodeRunCursor, LogPage, NodeLogFilter, RunPage, RunRepository, StoredNodeEvent, toRunSummary } from "./runRepository.js";
+
+// Projection that strips Mongo's own fields from returned documents
+const WITHOUT_MONGO_FIELDS = { __v: 0, _id: 0 };
+
+/**
+ * Run repository backed by MongoDB
+ */
+export class MongoRunRepository implements RunRepository {
+  async appendEvents(events: StoredNodeEvent[]): Promise<void> {
+    if (events.length > 0) await NodeEventModel.insertMany(events);
+  }
+
+  async appendLogs(entries: NodeLogEntry[]): Promise<void> {
+    if (entries.length > 0) await NodeLogModel.insertMany(entries);
+  }
+
+  async findById(runId: string): Promise<undefined | WorkflowRun> {
+    return (await WorkflowRunModel.findOne({ runId }, WITHOUT_MONGO_FIELDS).lean<WorkflowRun>()) ?? undefined;
+  }
+
+  async listByDefinition(definitionId: string, { cursor, limit }: { cursor?: string; limit: number }): Promise<RunPage> {
+    const after = cursor === undefined ? undefined : decodeRunCursor(cursor);
+    const filter =
+      after === undefined
+        ? { definitionId }
+        : {
+            $or: [{ startTime: { $lt: after.startTime } }, { runId: { $lt: after.runId }, startTime: after.startTime }],
+            definitionId,
+          };
+    const runs = await WorkflowRunModel.find(filter, WITHOUT_MONGO_FIELDS)
+      .sort("-startTime -runId")
+      .limit(limit + 1)
+      .lean<WorkflowRun[]>();
+
+    const page = runs.slice(0, limit);
+    return { nextCursor: runs.length > limit ? encodeRunCursor(page.at(-1)!) : undefined, runs: page.map(toRunSummary) };
+  }
+
+  async listLogs({ cursor, level, limit, nodeId, runId }: NodeLogFilter): Promise<LogPage> {
+    const logs = await NodeLogModel.find(
+      { nodeId, runId, ...(cursor !== undefined && { seq: { $gt: cursor } }), ...(level && { level }) },
+      WITHOUT_MONGO_FIELDS,
+    )
+      .sort({ seq: 1 })
+      .limit(limit + 1)
+      .lean<NodeLogEntry[]>();
+
+    const page = logs.slice(0, limit);
+    return { logs: page, nextCursor: logs.length > limit ? page.at(-1)!.seq : undefined };
+  }
+
+  async save(run: WorkflowRun): Promise<void> {
+    await WorkflowRunModel.replaceOne({ runId: run.runId }, run, { upsert: true });
+  }
+}
+
+export default MongoRunRepository;
@@ -0,0 +1,29 @@
+import { WorkflowSchedule } from "../../../types/workflow.js";
+import ScheduleModel from "../models/scheduleModel.js";
+import { ScheduleRepository } from "./scheduleRepository.js";
+
+// Projection that strips Mongo's own fields from returned documents
+const WITHOUT_MONGO_FIELDS = { __v: 0, _id: 0 };
+
+/**
+ * Schedule repository backed by MongoDB
+ */
+export class MongoScheduleRepository implements ScheduleRepository {
+  async delete(id: string): Promise<boolean> {
+    return (await ScheduleModel.deleteOne({ id })).deletedCount > 0;
+  }
+
+  async deleteByDefinition(definitionId: string): Promise<void> {
+    await ScheduleModel.deleteMany({ definitionId });
+  }
+
+  async list(): Promise<WorkflowSchedule[]> {
+    return ScheduleModel.find({}, WITHOUT_MONGO_FIELDS).lean<WorkflowSchedule[]>();
+  }
+
+  async save(schedule: WorkflowSchedule): Promise<void> {
+    await ScheduleModel.replaceOne({ id: schedule.id }, schedule, { upsert: true });
+  }
+}
+
+export default MongoScheduleRepository;
@@ -0,0 +1,149 @@
+import mongoose from "mongoose";
+
+import { webhookTokens } from "../../../services/webhookTrigger.js";
+import { CreateWorkflowRequest, UpdateWorkflowRequest } from "../../../types/schemas.js";
+import { WorkflowDefinition, WorkflowMember, WorkflowVersion } from "../../../types/workflow.js";
+import WorkflowModel, { WorkflowDocument } from "../models/workflowModel.js";
+import WorkflowVersionModel, { WorkflowVersionDocument } from "../models/workflowVersionModel.js";
+import { toWorkflowVersion, WebhookTokenConflictError, WorkflowRepository, WorkflowSummary, WorkflowVersionSummary } from "./workflowRepository.js";
+
+/**
+ * Workflow repository backed by MongoDB
+ * IDs that are not valid ObjectIds are treated as missing rather than as errors
+ * The definition is written before its version snapshot; the unique (definitionId, version) index rejects duplicate snapshots
+ * Webhook tokens are copied out of the nodes into webhookTokens, whose unique index keeps them from being shared
+ */
+export class MongoWorkflowRepository implements WorkflowRepository {
+  async create(input: CreateWorkflowRequest, ownerId?: string): Promise<WorkflowDefinition> {
+    const document = await WorkflowModel.create({ ...input, ownerId, version: 1, webhookTokens: toTokenField(input.nodes) }).catch(
+      rethrowTokenConflict,
+    );
+    const workflow = toDefinition(document.toObject());
+    await WorkflowVersionModel.create(toWorkflowVersion(workflow));
+    return workflow;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!mongoose.isValidObjectId(id)) return false;
+    const result = await WorkflowModel.deleteOne({ _id: id });
+    await WorkflowVersionModel.deleteMany({ definitionId: id });
+    return result.deletedCount > 0;
+  }
+
+  async findById(id: string): Promise<undefined | WorkflowDefinition> {
+    if (!mongoose.isValidObjectId(id)) return undefined;
+    const document = await WorkflowModel.findById(id).lean<WorkflowDocument>();
+    return document ? toDefinition(document) : undefined;
+  }
+
+  async findByWebhookToken(token: string): Promise<undefined | WorkflowDefinition> {
+    const document = await WorkflowModel.findOne({ webhookTokens: token }).lean<WorkflowDocument>();
+    return document ? toDefinition(document) : undefined;
+  }
+
+  async findVersion(id: string, version: number): Promise<undefined | WorkflowVersion> {
+    if (!mongoose.isValidObjectId(id)) return undefined;
+    const document = await WorkflowVersionModel.findOne({ definitionId: id, version }).lean<WorkflowVersionDocument>();
+    return document ? toVersion(document) : undefined;
+  }
+
+  async list(): Promise<WorkflowSummary[]> {
+    const documents = await WorkflowModel.find({}, { edges: 0, nodes: 0 }).sort({ updatedAt: -1 }).lean<WorkflowDocument[]>();
+    return documents.map((document) => {
+      const { createdAt, description, id, members, name, ownerId, updatedAt, version } = toDefinition(document);
+      return { createdAt, description, id, members, name, ownerId, updatedAt, version };
+    });
+  }
+
+  async listVersions(id: string): Promise<WorkflowVersionSummary[]> {
+    if (!mongoose.isValidObjectId(id)) return [];
+    const documents = await WorkflowVersionModel.find({ definitionId: id }, { edges: 0, nodes: 0 })
+      .sort({ version: -1 })
+      .lean<WorkflowVersionDocument[]>();
+    return documents.map((document) => {
+      const { createdAt, definitionId, description, name, restoredFrom, version } = toVersion(document);
+      return { createdAt, definitionId, description, name, restoredFrom, version };
+    });
+  }
+
+  async setMembers(id: string, members: WorkflowMember[]): Promise<undefined | WorkflowDefinition> {
+    if (!mongoose.isValidObjectId(id)) return undefined;
+    // Timestamps are left alone: sharing is not an edit of the workflow
+    const document = await WorkflowModel.findByIdAndUpdate(
+      id,
+      { $set: { members } },
+      { new: true, runValidators: true, timestamps: false },
+    ).lean<WorkflowDocument>();
+    return document ? toDefinition(document) : undefined;
+  }
+
+  async update(id: string, input: UpdateWorkflowRequest, restoredFrom?: number): Promise<undefined | WorkflowDefinition> {
+    if (!mongoose.isValidObjectId(id)) return undefined;
+    const fields = input.nodes ? { ...input, webhookTokens: toTokenField(input.nodes) } : input;
+    // Fields sent as undefined (e.g. a rolled back version without a description) are cleared
+    const cleared = Object.fromEntries(Object.entries(fields).flatMap(([key, value]) => (value === undefined ? [[key, 1]] : [])));
+    const document = await WorkflowModel.findByIdAndUpdate(
+      id,
+      { $inc: { version: 1 }, $set: fields, $unset: cleared },
+      { new: true, runValidators: true },
+    )
+      .lean<WorkflowDocument>()
+      .catch(rethrowTokenConflict);
+    if (!document) return undefined;
+
+    const workflow = toDefinition(document);
+    await WorkflowVersionModel.create(toWorkflowVersion(workflow, restoredFrom));
+    return workflow;
+  }
+}
+
+function rethrowTokenConflict(error: unknown): never {
+  if (error instanceof mongoose.mongo.MongoServerError && error.code === 11000 && error.keyPattern?.webhookTokens) {
+    throw new WebhookTokenConflictError();
+  }
+  throw error;
+}
+
+function toDefinition(document: WorkflowDocument): WorkflowDefinition {
+  return {
+    createdAt: document.createdAt.getTime(),
+    description: document.description ?? undefined,
+    edges: toEdges(document.edges),
+    id: document._id.toString(),
+    members: (document.members ?? []).map(({ role, userId }) => ({ role, userId })),
+    name: document.name,
+    nodes: (document.nodes ?? []) as WorkflowDefinition["nodes"],
+    ownerId: document.ownerId ?? undefined,
+    updatedAt: document.updatedAt.getTime(),
+    version: document.version,
+  };
+}
+
+function toEdges(edges: undefined | WorkflowDocument["edges"]): WorkflowDefinition["edges"] {
+  return (edges ?? []).map((edge) => ({
+    ...edge,
+    sourceHandle: edge.sourceHandle ?? undefined,
+    targetHandle: edge.targetHandle ?? undefined,
+  }));
+}
+
+// undefined when there are none, so the field is left unset
+function toTokenField(nodes: WorkflowDefinition["nodes"]): string[] | undefined {
+  const tokens = webhookTokens(nodes);
+  return tokens.length > 0 ? tokens : undefined;
+}
+
+function toVersion(document: WorkflowVersionDocument): WorkflowVersion {
+  return {
+    createdAt: document.createdAt.getTime(),
+    definitionId: document.definitionId.toString(),
+    description: document.description ?? undefined,
+    edges: toEdges(document.edges),
+    name: document.name,
+    nodes: (document.nodes ?? []) as WorkflowVersion["nodes"],
+    restoredFrom: document.restoredFrom ?? undefined,
+    version: document.version,
+  };
+}
+
+export default MongoWorkflowRepository;
@@ -0,0 +1,73 @@
+/**
+ * Storage for run history: one document per run plus its node events and log lines
+ * Implemented in memory for local development and with Mongoose when MONGO_URI is set
+ */
+
+import { LogLevel, NodeEvent, NodeLogEntry, WorkflowRun } from "../../../types/workflow.js";
+
+export interface LogPage {
+  logs: NodeLogEntry[];
+  nextCursor?: number; // Pass as cursor to get the next page; absent on the last page
+}
+
+export interface NodeLogFilter {
+  cursor?: number; // Only entries after this seq
+  level?: LogLevel;
+  limit: number;
+  nodeId: string;
+  runId: string;
+}
+
+export interface RunPage {
+  nextCursor?: string; // Pass as cursor to get the next page; absent on the last page
+  runs: WorkflowRunSummary[];
+}
+
+export interface RunRepository {
+  appendEvents(events: StoredNodeEvent[]): Promise<void>;
+  appendLogs(entries: NodeLogEntry[]): Promise<void>;
+  findById(runId: string): Promise<undefined | WorkflowRun>;
+  /** Newest first, ties on startTime broken by runId; cursor is the nextCursor of the previous page */
+  listByDefinition(definitionId: string, options: { cursor?: string; limit: number }): Promise<RunPage>;
+  /** Oldest first */
+  listLogs(filter: NodeLogFilter): Promise<LogPage>;
+  /** Insert or replace the run document */
+  save(run: WorkflowRun): Promise<void>;
+}
+
+export interface StoredNodeEvent {
+  event: NodeEvent;
+  runId: string;
+  seq: number; // Order of the event within its run
+}
+
+// Listing omits the graph and node outcomes
+export type WorkflowRunSummary = Omit<WorkflowRun, (typeof RUN_DETAIL_FIELDS)[number]>;
+
+// Fields left out of run listings
+const RUN_DETAIL_FIELDS = ["edges", "inputs", "nodeRuns", "nodes", "options"] as const;
+
+/**
+ * Inverse of encodeRunCursor; the cursor has already been validated by RunListQuerySchema
+ */
+export function decodeRunCursor(cursor: string): Pick<WorkflowRun, "runId" | "startTime"> {
+  const separator = cursor.indexOf("_");
+  return { runId: cursor.slice(separator + 1), startTime: Number(cursor.slice(0, separator)) };
+}
+
+/**
+ * Position of a run in listings, as "<startTime>_<runId>"
+ * startTime alone is not unique: runs started in the same millisecond would be skipped at a page boundary
+ */
+export function encodeRunCursor(run: Pick<WorkflowRun, "runId" | "startTime">): string {
+  return `${run.startTime}_${run.runId}`;
+}
+
+/**
+ * Strip a run down to the fields kept in listings
+ */
+export function toRunSummary(run: WorkflowRun): WorkflowRunSummary {
+  const summary: Partial<WorkflowRun> = { ...run };
+  for (const field of RUN_DETAIL_FIELDS) delete summary[field];
+  return summary as WorkflowRunSummary;
+}
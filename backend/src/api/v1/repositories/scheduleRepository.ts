@@ -0,0 +1,16 @@
+/**
+ * Storage for workflow schedules
+ * Implemented in memory for local development and with Mongoose when MONGO_URI is set
+ * The scheduler keeps every schedule in memory and writes each change through; it only reads them at startup
+ */
+
+import { WorkflowSchedule } from "../../../types/workflow.js";
+
+export interface ScheduleRepository {
+  /** Returns false if the schedule does not exist */
+  delete(id: string): Promise<boolean>;
+  deleteByDefinition(definitionId: string): Promise<void>;
+  list(): Promise<WorkflowSchedule[]>;
+  /** Insert or replace the schedule */
+  save(schedule: WorkflowSchedule): Promise<void>;
+}
@@ -0,0 +1,54 @@
+/**
+ * Storage for saved workflow definitions and their immutable version snapshots
+ * Implemented in memory for local development and with Mongoose when MONGO_URI is set
+ */
+
+import { CreateWorkflowRequest, UpdateWorkflowRequest } from "../../../types/schemas.js";
+import { WorkflowDefinition, WorkflowMember, WorkflowVersion } from "../../../types/workflow.js";
+
+export interface WorkflowRepository {
+  /** Saves version 1, owned by ownerId if given */
+  create(input: CreateWorkflowRequest, ownerId?: string): Promise<WorkflowDefinition>;
+  /** Deletes the workflow and all of its versions; returns false if the workflow does not exist */
+  delete(id: string): Promise<boolean>;
+  findById(id: string): Promise<undefined | WorkflowDefinition>;
+  /** The workflow whose latest version has a webhook node with this token */
+  findByWebhookToken(token: string): Promise<undefined | WorkflowDefinition>;
+  findVersion(id: string, version: number): Promise<undefined | WorkflowVersion>;
+  /** Most recently updated first */
+  list(): Promise<WorkflowSummary[]>;
+  /** Newest first */
+  listVersions(id: string): Promise<WorkflowVersionSummary[]>;
+  /** Replaces who the workflow is shared with, without saving a version; returns undefined if the workflow does not exist */
+  setMembers(id: string, members: WorkflowMember[]): Promise<undefined | WorkflowDefinition>;
+  /**
+   * Saves the next version; returns undefined if the workflow does not exist
+   * restoredFrom records that the new version rolls back to an older one
+   */
+  update(id: string, input: UpdateWorkflowRequest, restoredFrom?: number): Promise<undefined | WorkflowDefinition>;
+}
+
+// Listing omits the graph so large workflows do not bloat the response
+export type WorkflowSummary = Omit<WorkflowDefinition, "edges" | "nodes">;
+
+export type WorkflowVersionSummary = Omit<WorkflowVersion, "edges" | "nodes">;
+
+/**
+ * create and update throw this when a webhook node's token already belongs to another workflow
+ */
+export class WebhookTokenConflictError extends Error {
+  constructor() {
+    super("A webhook token is already used by another workflow");
+    this.name = "WebhookTokenConflictError";
+  }
+}
+
+/**
+ * Snapshot the saved state of a definition as its current version
+ */
+export function toWorkflowVersion(
+  { description, edges, id, name, nodes, updatedAt, version }: WorkflowDefinition,
+  restoredFrom?: number,
+): WorkflowVersion {
+  return { createdAt: updatedAt, definitionId: id, description, edges, name, nodes, restoredFrom, version };
+}
@@ -0,0 +1,14 @@
+import express from "express";
+
+import CredentialVault from "../../../services/credentialVault.js";
+import { createCredentialController } from "../controllers/credentialController.js";
+
+export function createCredentialRouter(vault: CredentialVault) {
+  const router = express.Router();
+  const controller = createCredentialController(vault);
+
+  router.route("/").get(controller.list).post(controller.create);
+  router.route("/:id").delete(controller.remove).get(controller.get).put(controller.update);
+
+  return router;
+}
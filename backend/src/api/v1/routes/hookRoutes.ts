@@ -0,0 +1,16 @@
+import express from "express";
+
+import CredentialVault from "../../../services/credentialVault.js";
+import RunService from "../../../services/runService.js";
+import { createHookController } from "../controllers/hookController.js";
+import { WorkflowRepository } from "../repositories/workflowRepository.js";
+
+export function createHookRouter(workflowRepository: WorkflowRepository, runService: RunService, vault: CredentialVault) {
+  const router = express.Router();
+  const controller = createHookController(workflowRepository, runService, vault);
+
+  // Kept raw (any content type) for signature checks; the controller parses it
+  router.post("/:token", express.raw({ limit: "1mb", type: () => true }), controller.receive);
+
+  return router;
+}
@@ -0,0 +1,18 @@
+import express from "express";
+
+import RunService from "../../../services/runService.js";
+import WorkflowAccess from "../../../services/workflowAccess.js";
+import { createRunController } from "../controllers/runController.js";
+import { RunRepository } from "../repositories/runRepository.js";
+
+export function createRunRouter(runRepository: RunRepository, runService: RunService, access: WorkflowAccess) {
+  const router = express.Router();
+  const controller = createRunController(runRepository, runService, access);
+
+  router.post("/", controller.create);
+  router.get("/:runId", controller.get);
+  router.get("/:runId/events", controller.streamEvents);
+  router.get("/:runId/nodes/:nodeId/logs", controller.listNodeLogs);
+
+  return router;
+}
@@ -0,0 +1,18 @@
+import express from "express";
+
+import WorkflowAccess from "../../../services/workflowAccess.js";
+import WorkflowScheduler from "../../../services/workflowScheduler.js";
+import { createScheduleController } from "../controllers/scheduleController.js";
+import { WorkflowRepository } from "../repositories/workflowRepository.js";
+
+export function createScheduleRouter(workflowRepository: WorkflowRepository, scheduler: WorkflowScheduler, access: WorkflowAccess) {
+  const router = express.Router();
+  const controller = createScheduleController(workflowRepository, scheduler, access);
+
+  router.get("/", controller.list);
+  router.route("/:scheduleId").delete(controller.remove).get(controller.get);
+  router.post("/:scheduleId/pause", controller.pause);
+  router.post("/:scheduleId/resume", controller.resume);
+
+  return router;
+}
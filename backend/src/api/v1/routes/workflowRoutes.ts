@@ -0,0 +1,36 @@
+import express from "express";
+
+import RunService from "../../../services/runService.js";
+import WorkflowAccess from "../../../services/workflowAccess.js";
+import WorkflowScheduler from "../../../services/workflowScheduler.js";
+import { createRunController } from "../controllers/runController.js";
+import { createScheduleController } from "../controllers/scheduleController.js";
+import { createWorkflowController } from "../controllers/workflowController.js";
+import { RunRepository } from "../repositories/runRepository.js";
+import { WorkflowRepository } from "../repositories/workflowRepository.js";
+
+export function createWorkflowRouter(
+  repository: WorkflowRepository,
+  runRepository: RunRepository,
+  runService: RunService,
+  scheduler: WorkflowScheduler,
+  access: WorkflowAccess,
+) {
+  const router = express.Router();
+  const controller = createWorkflowController(repository, scheduler, access);
+  const runController = createRunController(runRepository, runService, access);
+  const scheduleController = createScheduleController(repository, scheduler, access);
+
+  router.route("/").get(controller.list).post(controller.create);
+  router.route("/:id").delete(controller.remove).get(controller.get).put(controller.update);
+  router.get("/:id/diff", controller.diffVersions);
+  router.post("/:id/execute", runController.executeWorkflow);
+  router.put("/:id/members", controller.setMembers);
+  router.get("/:id/runs", runController.listByWorkflow);
+  router.route("/:id/schedules").get(scheduleController.listByWorkflow).post(scheduleController.create);
+  router.get("/:id/versions", controller.listVersions);
+  router.get("/:id/versions/:version", controller.getVersion);
+  router.post("/:id/versions/:version/rollback", controller.rollback);
+
+  return router;
+}
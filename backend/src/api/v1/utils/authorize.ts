@@ -0,0 +1,17 @@
+import { AccessError } from "../../../services/workflowAccess.js";
+import { HttpError } from "./httpError.js";
+
+// HTTP status for each AccessError code
+const ACCESS_ERROR_STATUS: Record<string, number> = { FORBIDDEN: 403, NOT_FOUND: 404 };
+
+/**
+ * Await an access check (see WorkflowAccess), turning AccessError into the matching HttpError
+ */
+export async function authorize<T>(check: Promise<T>): Promise<T> {
+  try {
+    return await check;
+  } catch (error) {
+    if (error instanceof AccessError) throw new HttpError(ACCESS_ERROR_STATUS[error.code] ?? 403, error.code, error.message);
+    throw error;
+  }
+}
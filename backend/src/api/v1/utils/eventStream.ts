@@ -0,0 +1,43 @@
+import { Request, Response } from "express";
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+export interface EventStream {
+  close(): void;
+  send(eventName: string, data: unknown, id?: number): void; // id is what the client sends back as Last-Event-ID when it reconnects
+}
+
+/**
+ * Switch a response to a Server-Sent Events stream
+ * onClose runs once, whether the client disconnects or the server closes the stream
+ */
+export function openEventStream(req: Request, res: Response, onClose: () => void): EventStream {
+  res.status(200).set({
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "Content-Type": "text/event-stream",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), HEARTBEAT_INTERVAL_MS);
+  let closed = false;
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    onClose();
+  };
+  req.on("close", cleanup);
+
+  return {
+    close: () => {
+      cleanup();
+      res.end();
+    },
+    send: (eventName, data, id) => {
+      if (!closed) res.write(`${id === undefined ? "" : `id: ${id}\n`}event: ${eventName}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+  };
+}
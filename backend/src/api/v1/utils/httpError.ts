@@ -0,0 +1,19 @@
+/**
+ * Error with an HTTP status for the REST API
+ * The error handler turns it into a { code, error } JSON response, matching the socket error payloads
+ */
+export class HttpError extends Error {
+  code: string;
+  details?: unknown;
+  status: number;
+
+  constructor(status: number, code: string, message: string, details?: unknown) {
+    super(message);
+    this.name = "HttpError";
+    this.code = code;
+    this.details = details;
+    this.status = status;
+  }
+}
+
+export default HttpError;
@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+import { HttpError } from "./httpError.js";
+
+/**
+ * Validate a request body or query, responding 400 VALIDATION_ERROR with every issue on failure
+ */
+export function parseRequest<T extends z.ZodType>(schema: T, input: unknown): z.infer<T> {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    throw new HttpError(400, "VALIDATION_ERROR", z.prettifyError(parsed.error), parsed.error.issues);
+  }
+  return parsed.data;
+}
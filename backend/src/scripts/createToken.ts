@@ -0,0 +1,16 @@
+/**
+ * Issue an authentication token signed with AUTH_SECRET
+ * Usage: npm run token -- <userId> [name] [days valid, default 30]
+ */
+
+import { signToken } from "../services/authToken.js";
+
+const [userId, name, days = "30"] = process.argv.slice(2);
+const secret = process.env.AUTH_SECRET;
+
+if (!userId || !secret || !/^[1-9]\d*$/.test(days)) {
+  console.error(secret ? "Usage: npm run token -- <userId> [name] [days valid]" : "AUTH_SECRET is not set");
+  process.exit(1);
+}
+
+console.log(signToken({ id: userId, name: name || undefined }, secret, Number(days) * 24 * 60 * 60));
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { AuthError, bearerToken, signToken, verifyToken } from "./authToken.js";
+
+const SECRET = "test-secret";
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+// A token signed for u1, with its header or claims swapped afterwards
+function tampered({ claims, header }: { claims?: object; header?: object }): string {
+  const [signedHeader, signedClaims, signature] = signToken({ id: "u1" }, SECRET, 60).split(".");
+  return `${header ? encode(header) : signedHeader}.${claims ? encode(claims) : signedClaims}.${signature}`;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("authToken", () => {
+  it("verifies the tokens it signs", () => {
+    const token = signToken({ id: "u1", name: "Ada" }, SECRET, 60);
+    expect(verifyToken(token, SECRET)).toEqual({ id: "u1", name: "Ada" });
+  });
+
+  it("rejects tokens signed with another secret", () => {
+    const token = signToken({ id: "u1" }, "other-secret", 60);
+    expect(() => verifyToken(token, SECRET)).toThrow("Invalid token signature");
+  });
+
+  it("rejects tokens whose claims were changed after signing", () => {
+    expect(() => verifyToken(tampered({ claims: { sub: "admin" } }), SECRET)).toThrow("Invalid token signature");
+  });
+
+  it("rejects unsigned and malformed tokens", () => {
+    expect(() => verifyToken(tampered({ header: { alg: "none" } }), SECRET)).toThrow("Unsupported token algorithm");
+    expect(() => verifyToken("not-a-token", SECRET)).toThrow(AuthError);
+    expect(() => verifyToken("a.b.c.d", SECRET)).toThrow("Malformed token");
+  });
+
+  it("rejects expired tokens", () => {
+    vi.useFakeTimers();
+    const token = signToken({ id: "u1" }, SECRET, 60);
+    vi.advanceTimersByTime(61_000);
+    expect(() => verifyToken(token, SECRET)).toThrow("Token has expired");
+  });
+
+  it("reads bearer tokens from Authorization headers", () => {
+    expect(bearerToken("Bearer abc.def.ghi")).toBe("abc.def.ghi");
+    expect(bearerToken("bearer  abc")).toBe("abc");
+    expect(bearerToken("Basic abc")).toBeUndefined();
+    expect(bearerToken(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Authentication tokens
+ * HS256 JSON Web Tokens signed with the locally configured secret (AUTH_SECRET)
+ * The subject (sub) is the user ID and name is optional; exp and nbf are enforced when present
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+import { AuthUser } from "../types/workflow.js";
+
+interface TokenClaims {
+  exp?: number; // Seconds since the epoch
+  iat?: number;
+  name?: string;
+  nbf?: number;
+  sub?: string;
+}
+
+/**
+ * Thrown when a token is missing, malformed, wrongly signed or expired
+ */
+export class AuthError extends Error {
+  code = "UNAUTHORIZED";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * Bearer token of an Authorization header, if any
+ */
+export function bearerToken(header?: string): string | undefined {
+  return /^Bearer\s+(\S+)$/i.exec(header ?? "")?.[1];
+}
+
+/**
+ * Issue a token for a user, valid for expiresInSeconds
+ */
+export function signToken({ id, name }: AuthUser, secret: string, expiresInSeconds: number): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = encode({ alg: "HS256", typ: "JWT" });
+  const claims = encode({ exp: now + expiresInSeconds, iat: now, name, sub: id } satisfies TokenClaims);
+  return `${header}.${claims}.${sign(`${header}.${claims}`, secret)}`;
+}
+
+/**
+ * Verify a token and return the user it was issued to; throws AuthError
+ */
+export function verifyToken(token: string, secret: string): AuthUser {
+  const [header, claims, signature, ...rest] = token.split(".");
+  if (!header || !claims || !signature || rest.length > 0) throw new AuthError("Malformed token");
+
+  if (decode<{ alg?: string }>(header).alg !== "HS256") throw new AuthError("Unsupported token algorithm");
+
+  const expected = Buffer.from(sign(`${header}.${claims}`, secret));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) throw new AuthError("Invalid token signature");
+
+  const { exp, name, nbf, sub } = decode<TokenClaims>(claims);
+  const now = Date.now() / 1000;
+  if (typeof exp === "number" && now >= exp) throw new AuthError("Token has expired");
+  if (typeof nbf === "number" && now < nbf) throw new AuthError("Token is not valid yet");
+  if (typeof sub !== "string" || sub === "") throw new AuthError("Token has no subject");
+
+  return { id: sub, name: typeof name === "string" ? name : undefined };
+}
+
+function decode<T>(segment: string): T {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+    if (typeof value !== "object" || value === null) throw new Error("Not an object");
+    return value as T;
+  } catch {
+    throw new AuthError("Malformed token");
+  }
+}
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function sign(content: string, secret: string): string {
+  return createHmac("sha256", secret).update(content).digest("base64url");
+}
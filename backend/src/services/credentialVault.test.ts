@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+
+import { InMemoryCredentialRepository } from "../api/v1/repositories/inMemoryCredentialRepository.js";
+import { CredentialVault } from "./credentialVault.js";
+
+const KEY = Buffer.alloc(32, 1).toString("base64");
+const OTHER_KEY = Buffer.alloc(32, 2).toString("hex");
+
+const ada = { id: "ada" };
+const bob = { id: "bob" };
+
+describe("CredentialVault", () => {
+  it("stores secrets encrypted and never returns them with the credential", async () => {
+    const repository = new InMemoryCredentialRepository();
+    const vault = new CredentialVault(repository, KEY);
+
+    const credential = await vault.create({ name: "API key", secret: "s3cr3t-value" }, ada);
+    const stored = await repository.findById(credential.id);
+
+    expect(JSON.stringify(credential)).not.toContain("s3cr3t-value");
+    expect(JSON.stringify(stored)).not.toContain("s3cr3t-value");
+    expect(JSON.stringify(await vault.list(ada))).not.toContain("s3cr3t-value");
+    expect(await vault.resolve([credential.id], ada.id)).toEqual({ [credential.id]: "s3cr3t-value" });
+  });
+
+  it("lets only the owner manage and use a credential, and shares ownerless ones", async () => {
+    const vault = new CredentialVault(new InMemoryCredentialRepository(), KEY);
+    const adas = await vault.create({ name: "Ada's", secret: "ada-secret" }, ada);
+    const shared = await vault.create({ name: "Shared", secret: "shared-secret" });
+
+    await expect(vault.get(adas.id, bob)).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(vault.delete(adas.id, bob)).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect((await vault.list(bob)).map(({ name }) => name)).toEqual(["Shared"]);
+
+    await expect(vault.resolve([adas.id], bob.id)).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(vault.resolve([adas.id])).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(await vault.resolve([shared.id], bob.id)).toEqual({ [shared.id]: "shared-secret" });
+  });
+
+  it("re-encrypts updated secrets", async () => {
+    const vault = new CredentialVault(new InMemoryCredentialRepository(), KEY);
+    const credential = await vault.create({ name: "Token", secret: "old" }, ada);
+
+    await vault.update(credential.id, { secret: "new" }, ada);
+    expect(await vault.resolve([credential.id], ada.id)).toEqual({ [credential.id]: "new" });
+  });
+
+  it("refuses secrets stored with another master key or moved to another credential", async () => {
+    const repository = new InMemoryCredentialRepository();
+    const first = await new CredentialVault(repository, KEY).create({ name: "First", secret: "one" });
+    const second = await new CredentialVault(repository, KEY).create({ name: "Second", secret: "two" });
+
+    await expect(new CredentialVault(repository, OTHER_KEY).resolve([first.id])).rejects.toMatchObject({ code: "DECRYPTION_FAILED" });
+
+    const stored = await repository.findById(second.id);
+    await repository.save({ ...stored!, secret: (await repository.findById(first.id))!.secret });
+    await expect(new CredentialVault(repository, KEY).resolve([second.id])).rejects.toMatchObject({ code: "DECRYPTION_FAILED" });
+  });
+
+  it("is disabled without a master key and rejects malformed ones", async () => {
+    const vault = new CredentialVault(new InMemoryCredentialRepository());
+
+    expect(vault.enabled).toBe(false);
+    await expect(vault.create({ name: "Token", secret: "x" })).rejects.toMatchObject({ code: "VAULT_DISABLED" });
+    expect(() => new CredentialVault(new InMemoryCredentialRepository(), "too-short")).toThrow();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Credential Vault
+ * Keeps secrets such as API keys encrypted at rest with AES-256-GCM under a locally configured master key (CREDENTIALS_KEY)
+ * Secret values only leave the vault for the runs that use them (see resolve); everything else gets the Credential without it
+ * A credential can be managed and used only by the user who created it; without authentication every credential is shared
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID } from "node:crypto";
+
+import { CredentialRepository } from "../api/v1/repositories/credentialRepository.js";
+import { CreateCredentialRequest, UpdateCredentialRequest } from "../types/schemas.js";
+import { AuthUser, Credential, EncryptedCredential, EncryptedSecret } from "../types/workflow.js";
+
+const CIPHER = "aes-256-gcm";
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+/**
+ * Thrown when a credential cannot be managed or used
+ * code is FORBIDDEN, NOT_FOUND, DECRYPTION_FAILED (stored with another master key) or VAULT_DISABLED (no master key)
+ */
+export class CredentialError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = "CredentialError";
+    this.code = code;
+  }
+}
+
+export class CredentialVault {
+  get enabled(): boolean {
+    return this.key !== undefined;
+  }
+  private key?: Buffer;
+
+  private repository: CredentialRepository;
+
+  /**
+   * masterKey is 32 bytes, base64 or hex encoded (e.g. openssl rand -base64 32); without it the vault is disabled
+   * Throws if the key is malformed
+   */
+  constructor(repository: CredentialRepository, masterKey?: string) {
+    this.repository = repository;
+    this.key = masterKey ? parseMasterKey(masterKey) : undefined;
+  }
+
+  async create({ description, name, secret }: CreateCredentialRequest, user?: AuthUser): Promise<Credential> {
+    const now = Date.now();
+    const id = randomUUID();
+    const credential: EncryptedCredential = {
+      createdAt: now,
+      description,
+      id,
+      name,
+      ownerId: user?.id,
+      secret: this.encrypt(id, secret),
+      updatedAt: now,
+    };
+    await this.repository.save(credential);
+    return toCredential(credential);
+  }
+
+  async delete(id: string, user: AuthUser | undefined): Promise<void> {
+    await this.findManaged(id, user);
+    await this.repository.delete(id);
+  }
+
+  async get(id: string, user: AuthUser | undefined): Promise<Credential> {
+    return toCredential(await this.findManaged(id, user));
+  }
+
+  /**
+   * Credentials the user may manage, oldest first
+   */
+  async list(user: AuthUser | undefined): Promise<Credential[]> {
+    this.requireKey();
+    const credentials = await this.repository.list();
+    return credentials.filter((credential) => canManage(credential, user)).map(toCredential);
+  }
+
+  /**
+   * Decrypt credentials for a run using them on behalf of ownerId
+   * Only ownerless credentials and those owned by ownerId can be used; others are reported as not found
+   */
+  async resolve(ids: string[], ownerId?: string): Promise<Record<string, string>> {
+    const secrets: Record<string, string> = {};
+    for (const id of new Set(ids)) {
+      const credential = await this.repository.findById(id);
+      if (!credential || (credential.ownerId && credential.ownerId !== ownerId)) {
+        throw new CredentialError("NOT_FOUND", `Credential ${id} not found`);
+      }
+      secrets[id] = this.decrypt(credential);
+    }
+    return secrets;
+  }
+
+  async update(id: string, { description, name, secret }: UpdateCredentialRequest, user: AuthUser | undefined): Promise<Credential> {
+    const credential = await this.findManaged(id, user);
+    const updated: EncryptedCredential = {
+      ...credential,
+      description: description ?? credential.description,
+      name: name ?? credential.name,
+      secret: secret === undefined ? credential.secret : this.encrypt(id, secret),
+      updatedAt: Date.now(),
+    };
+    await this.repository.save(updated);
+    return toCredential(updated);
+  }
+
+  private decrypt({ id, secret: { ciphertext, iv, tag } }: EncryptedCredential): string {
+    const decipher = createDecipheriv(CIPHER, this.requireKey(), Buffer.from(iv, "base64"));
+    decipher.setAAD(Buffer.from(id));
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    try {
+      return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+    } catch {
+      throw new CredentialError("DECRYPTION_FAILED", `Credential ${id} cannot be decrypted with the configured CREDENTIALS_KEY`);
+    }
+  }
+
+  /**
+   * The credential's ID is authenticated with the ciphertext, so a secret cannot be moved to another credential
+   */
+  private encrypt(id: string, secret: string): EncryptedSecret {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(CIPHER, this.requireKey(), iv);
+    cipher.setAAD(Buffer.from(id));
+    const ciphertext = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+    return { ciphertext: ciphertext.toString("base64"), iv: iv.toString("base64"), tag: cipher.getAuthTag().toString("base64") };
+  }
+
+  private async findManaged(id: string, user: AuthUser | undefined): Promise<EncryptedCredential> {
+    this.requireKey();
+    const credential = await this.repository.findById(id);
+    if (!credential) throw new CredentialError("NOT_FOUND", `Credential ${id} not found`);
+    if (!canManage(credential, user)) throw new CredentialError("FORBIDDEN", `Credential ${id} belongs to another user`);
+    return credential;
+  }
+
+  private requireKey(): Buffer {
+    if (!this.key) throw new CredentialError("VAULT_DISABLED", "Credentials are disabled: CREDENTIALS_KEY is not set");
+    return this.key;
+  }
+}
+
+function canManage(credential: EncryptedCredential, user: AuthUser | undefined): boolean {
+  return !user || !credential.ownerId || credential.ownerId === user.id;
+}
+
+function parseMasterKey(masterKey: string): Buffer {
+  const key = /^[0-9a-f]{64}$/i.test(masterKey) ? Buffer.from(masterKey, "hex") : Buffer.from(masterKey, "base64");
+  if (key.length !== KEY_BYTES) throw new Error(`CREDENTIALS_KEY must be ${KEY_BYTES} bytes, base64 or hex encoded`);
+  return key;
+}
+
+// Picks the public fields so nothing else stored with a credential is ever returned
+function toCredential({ createdAt, description, id, name, ownerId, updatedAt }: EncryptedCredential): Credential {
+  return { createdAt, description, id, name, ownerId, updatedAt };
+}
+
+export default CredentialVault;
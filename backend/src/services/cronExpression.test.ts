@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+
+import { CronError, isValidTimeZone, nextOccurrence, parseCron } from "./cronExpression.js";
+
+const at = (iso: string) => Date.parse(iso);
+
+// The next `count` occurrences after `after`, as ISO strings
+function occurrences(cron: string, after: string, count = 3, timeZone = "UTC"): (string | undefined)[] {
+  const expression = parseCron(cron);
+  const result: (string | undefined)[] = [];
+  let from = at(after);
+  for (let i = 0; i < count; i++) {
+    const next = nextOccurrence(expression, timeZone, from);
+    result.push(next === undefined ? undefined : new Date(next).toISOString());
+    if (next === undefined) break;
+    from = next;
+  }
+  return result;
+}
+
+describe("parseCron", () => {
+  it("parses values, ranges, lists and steps", () => {
+    const expression = parseCron("5/15 1-3,22 */10 JAN-mar 1");
+
+    expect([...expression.minutes]).toEqual([5, 20, 35, 50]);
+    expect([...expression.hours]).toEqual([1, 2, 3, 22]);
+    expect([...expression.daysOfMonth]).toEqual([1, 11, 21, 31]);
+    expect([...expression.months]).toEqual([1, 2, 3]);
+    expect([...expression.daysOfWeek]).toEqual([1]);
+    expect(expression.restrictedDays).toEqual({ dayOfMonth: false, dayOfWeek: true });
+  });
+
+  it("treats 7 as Sunday", () => {
+    expect([...parseCron("0 0 * * 5-7").daysOfWeek].sort()).toEqual([0, 5, 6]);
+  });
+
+  it("expands macros", () => {
+    expect(parseCron("@weekly")).toEqual(parseCron("0 0 * * 0"));
+    expect(parseCron(" @Daily ")).toEqual(parseCron("0 0 * * *"));
+  });
+
+  it.each([
+    ["0 0 * *", "Expected 5 fields"],
+    ["60 * * * *", "minute 60 is outside 0-59"],
+    ["* * 0 * *", "day of month 0 is outside 1-31"],
+    ["* 5-2 * * *", "start is after end"],
+    ["*/0 * * * *", 'Invalid minute step "0"'],
+    ["* * * FOO *", 'Invalid month "FOO"'],
+    ["1,,2 * * * *", 'Invalid minute ""'],
+    ["@every", "Unknown macro @every"],
+  ])("rejects %s", (cron, message) => {
+    expect(() => parseCron(cron)).toThrow(CronError);
+    expect(() => parseCron(cron)).toThrow(message);
+  });
+});
+
+describe("nextOccurrence", () => {
+  it("finds the next matching minutes strictly after the given instant", () => {
+    expect(occurrences("*/20 * * * *", "2026-01-01T10:20:00Z")).toEqual([
+      "2026-01-01T10:40:00.000Z",
+      "2026-01-01T11:00:00.000Z",
+      "2026-01-01T11:20:00.000Z",
+    ]);
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // The 13th, or any Friday: Jan 2, Jan 9, Jan 13 2026
+    expect(occurrences("0 0 13 * FRI", "2026-01-01T00:00:00Z")).toEqual([
+      "2026-01-02T00:00:00.000Z",
+      "2026-01-09T00:00:00.000Z",
+      "2026-01-13T00:00:00.000Z",
+    ]);
+  });
+
+  it("finds leap days and gives up on dates that never exist", () => {
+    expect(occurrences("0 0 29 2 *", "2026-01-01T00:00:00Z", 1)).toEqual(["2028-02-29T00:00:00.000Z"]);
+    expect(occurrences("0 0 30 2 *", "2026-01-01T00:00:00Z")).toEqual([undefined]);
+  });
+
+  it("computes occurrences in the schedule's time zone", () => {
+    // 09:00 in Tokyo (UTC+9) is midnight UTC
+    expect(occurrences("0 9 * * *", "2026-01-01T00:00:00Z", 1, "Asia/Tokyo")).toEqual(["2026-01-02T00:00:00.000Z"]);
+  });
+
+  it("runs a local time skipped by daylight saving as many minutes after the change", () => {
+    // New York skips 02:00-03:00 on 2026-03-08; 02:30 runs at 03:30 EDT
+    expect(occurrences("30 2 * * *", "2026-03-07T12:00:00Z", 2, "America/New_York")).toEqual([
+      "2026-03-08T07:30:00.000Z",
+      "2026-03-09T06:30:00.000Z",
+    ]);
+  });
+
+  it("runs a local time repeated by daylight saving once", () => {
+    // New York repeats 01:00-02:00 on 2026-11-01; 01:30 EDT runs, 01:30 EST does not
+    expect(occurrences("30 1 * * *", "2026-10-31T12:00:00Z", 2, "America/New_York")).toEqual([
+      "2026-11-01T05:30:00.000Z",
+      "2026-11-02T06:30:00.000Z",
+    ]);
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zones and rejects unknown ones", () => {
+    expect(isValidTimeZone("Europe/Paris")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Cron expressions for scheduled runs
+ *
+ * Five fields: minute hour day-of-month month day-of-week
+ * Each field is "*", a value, a range "a-b" or a comma list of those, each optionally stepped with "/n"
+ * A stepped value runs to the end of the field: "5/15" in the minute field is 5, 20, 35 and 50
+ * Months and weekdays also accept names (JAN-DEC, SUN-SAT); both 0 and 7 are Sunday
+ * Macros: @yearly (@annually), @monthly, @weekly, @daily (@midnight), @hourly
+ * As in classic cron, when both day fields are restricted a day matches if either of them does
+ */
+
+export interface CronExpression {
+  daysOfMonth: Set<number>;
+  daysOfWeek: Set<number>; // 0 is Sunday
+  hours: Set<number>;
+  minutes: Set<number>;
+  months: Set<number>; // 1-12
+  restrictedDays: { dayOfMonth: boolean; dayOfWeek: boolean }; // Whether each day field is anything but "*"
+}
+
+interface FieldSpec {
+  max: number;
+  min: number;
+  name: string;
+  names?: string[]; // Index + min is the value
+}
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronError";
+  }
+}
+
+const MACROS: Record<string, string> = {
+  "@annually": "0 0 1 1 *",
+  "@daily": "0 0 * * *",
+  "@hourly": "0 * * * *",
+  "@midnight": "0 0 * * *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@yearly": "0 0 1 1 *",
+};
+
+const FIELDS: FieldSpec[] = [
+  { max: 59, min: 0, name: "minute" },
+  { max: 23, min: 0, name: "hour" },
+  { max: 31, min: 1, name: "day of month" },
+  { max: 12, min: 1, name: "month", names: ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"] },
+  { max: 7, min: 0, name: "day of week", names: ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"] },
+];
+
+// Leap days recur within 8 years; anything not found by then never matches
+const MAX_SEARCH_MS = 10 * 366 * 24 * 60 * 60 * 1000;
+
+// Formatters are expensive to create and reused for every occurrence computed in a zone
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * First occurrence strictly after `after` in the time zone, or undefined if the expression never matches again
+ * A local time skipped by a daylight saving change runs as many minutes after the change; a repeated one runs once
+ */
+export function nextOccurrence(expression: CronExpression, timeZone: string, after: number): number | undefined {
+  // Search in wall-clock time, represented as a UTC timestamp, and convert matches back to instants
+  const wall = new Date(toWallTime(after, timeZone));
+  wall.setUTCSeconds(0, 0);
+  wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+  const end = wall.getTime() + MAX_SEARCH_MS;
+
+  while (wall.getTime() < end) {
+    if (!expression.months.has(wall.getUTCMonth() + 1)) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(expression, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0, 0, 0);
+    } else if (!expression.hours.has(wall.getUTCHours())) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+    } else if (!expression.minutes.has(wall.getUTCMinutes())) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+    } else {
+      const instant = fromWallTime(wall.getTime(), timeZone);
+      if (instant > after) return instant;
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse a cron expression; throws CronError describing the first invalid field
+ */
+export function parseCron(source: string): CronExpression {
+  const trimmed = source.trim();
+  const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  if (expanded.startsWith("@")) throw new CronError(`Unknown macro ${trimmed}`);
+
+  const fields = expanded.split(/\s+/);
+  if (fields.length !== 5) throw new CronError(`Expected 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`);
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+  // 7 is an alias of Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    daysOfMonth,
+    daysOfWeek,
+    hours,
+    minutes,
+    months,
+    restrictedDays: { dayOfMonth: !fields[2].startsWith("*"), dayOfWeek: !fields[4].startsWith("*") },
+  };
+}
+
+/**
+ * Instant at which the zone's clocks show the wall time
+ */
+function fromWallTime(wall: number, timeZone: string): number {
+  const guessedOffset = getOffset(wall, timeZone);
+  const guess = wall - guessedOffset;
+  const offset = getOffset(guess, timeZone);
+  if (offset === guessedOffset) return guess;
+
+  const instant = wall - offset;
+  if (getOffset(instant, timeZone) === offset) return instant;
+  // Skipped by a daylight saving change: both candidates fall on either side of it, take the later one
+  return Math.max(guess, instant);
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    // Throws RangeError for unknown zones
+    formatter = new Intl.DateTimeFormat("en-US", {
+      day: "numeric",
+      hour: "numeric",
+      hourCycle: "h23",
+      minute: "numeric",
+      month: "numeric",
+      second: "numeric",
+      timeZone,
+      year: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Milliseconds the zone's clocks are ahead of UTC at the instant
+ */
+function getOffset(instant: number, timeZone: string): number {
+  return toWallTime(instant, timeZone) - (instant - (((instant % 1000) + 1000) % 1000));
+}
+
+function matchesDay(expression: CronExpression, wall: Date): boolean {
+  const dayOfMonth = expression.daysOfMonth.has(wall.getUTCDate());
+  const dayOfWeek = expression.daysOfWeek.has(wall.getUTCDay());
+  const { dayOfMonth: monthRestricted, dayOfWeek: weekRestricted } = expression.restrictedDays;
+
+  if (monthRestricted && weekRestricted) return dayOfMonth || dayOfWeek;
+  return dayOfMonth && dayOfWeek;
+}
+
+function parseField(source: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of source.split(",")) {
+    const [range, stepText, ...rest] = part.split("/");
+    if (rest.length > 0 || range === "") throw new CronError(`Invalid ${spec.name} "${part}"`);
+
+    if (stepText !== undefined && !/^[1-9]\d*$/.test(stepText)) throw new CronError(`Invalid ${spec.name} step "${stepText}"`);
+    const step = stepText === undefined ? 1 : Number(stepText);
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from, to, ...extra] = range.split("-");
+      if (extra.length > 0) throw new CronError(`Invalid ${spec.name} range "${range}"`);
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) throw new CronError(`Invalid ${spec.name} range "${range}": start is after end`);
+    } else {
+      start = parseValue(range, spec);
+      // "5/10" steps from 5 to the end of the field
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+}
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const nameIndex = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+  if (nameIndex >= 0) return nameIndex + spec.min;
+
+  if (!/^\d+$/.test(text)) throw new CronError(`Invalid ${spec.name} "${text}"`);
+  const value = Number(text);
+  if (value < spec.min || value > spec.max) throw new CronError(`${spec.name} ${value} is outside ${spec.min}-${spec.max}`);
+  return value;
+}
+
+/**
+ * The zone's wall-clock time at the instant, as a UTC timestamp with whole seconds
+ */
+function toWallTime(instant: number, timeZone: string): number {
+  const parts = getFormatter(timeZone).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((entry) => entry.type === type)!.value);
+  return Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+
+import { NodeConfig, NodeType, WorkflowEdge } from "../types/workflow.js";
+import { validateWorkflowGraph } from "./graphValidator.js";
+
+function codes(nodes: NodeConfig[], edges: WorkflowEdge[]) {
+  return validateWorkflowGraph(nodes, edges).map(({ code, edgeId, nodeId }) => ({ code, edgeId, nodeId }));
+}
+
+function edge(source: string, target: string, sourceHandle?: string): WorkflowEdge {
+  return { id: `${source}-${target}`, source, sourceHandle, target };
+}
+
+function node(id: string, type: NodeType = "transform"): NodeConfig {
+  return { id, type };
+}
+
+describe("validateWorkflowGraph", () => {
+  it("accepts a valid graph with branches and a loop", () => {
+    const nodes = [node("start", "start"), node("check", "condition"), node("each", "forEach"), node("body"), node("done", "result")];
+    const edges = [
+      edge("start", "check"),
+      edge("check", "each", "true"),
+      edge("each", "body", "item"),
+      edge("each", "done", "done"),
+      edge("check", "done", "false"),
+    ];
+
+    expect(validateWorkflowGraph(nodes, edges)).toEqual([]);
+  });
+
+  it("rejects condition expressions mixing a template with other text", () => {
+    const condition = (id: string, expression: string): NodeConfig => ({ data: { expression }, id, type: "condition" });
+    const nodes = [
+      node("start", "start"),
+      condition("bare", "nodes.start.result.ok == true"),
+      condition("template", "{{ nodes.start.result.ok }}"),
+      condition("mixed", "{{ nodes.start.result.role }} == 'admin'"),
+    ];
+
+    expect(codes(nodes, [edge("start", "bare"), edge("start", "template"), edge("start", "mixed")])).toEqual([
+      { code: "INVALID_NODE_CONFIG", nodeId: "mixed" },
+    ]);
+  });
+
+  it("requires exactly one start or webhook node", () => {
+    expect(codes([node("a")], [])).toEqual([{ code: "MISSING_START" }]);
+    expect(codes([node("a", "start"), node("b", "webhook")], [])).toEqual([
+      { code: "MULTIPLE_START", nodeId: "a" },
+      { code: "MULTIPLE_START", nodeId: "b" },
+    ]);
+  });
+
+  it("reports duplicate IDs and edges to unknown nodes", () => {
+    const issues = codes([node("start", "start"), node("start", "start")], [edge("start", "ghost")]);
+
+    expect(issues).toContainEqual({ code: "DUPLICATE_NODE_ID", nodeId: "start" });
+    expect(issues).toContainEqual({ code: "UNKNOWN_NODE", edgeId: "start-ghost" });
+  });
+
+  it("reports every edge of a cycle and the nodes it cuts off", () => {
+    const issues = codes(
+      [node("start", "start"), node("a"), node("b"), node("c")],
+      [edge("start", "a"), edge("a", "b"), edge("b", "a"), edge("c", "c")],
+    );
+
+    expect(issues).toEqual([
+      { code: "CYCLE", edgeId: "a-b", nodeId: "a" },
+      { code: "CYCLE", edgeId: "b-a", nodeId: "b" },
+      { code: "CYCLE", edgeId: "c-c", nodeId: "c" },
+      { code: "UNREACHABLE_NODE", nodeId: "c" },
+    ]);
+  });
+
+  it("rejects outgoing edges of result nodes and branch edges without a handle", () => {
+    const issues = codes(
+      [node("start", "start"), node("check", "condition"), node("end", "result"), node("after")],
+      [edge("start", "check"), edge("check", "end"), edge("end", "after")],
+    );
+
+    expect(issues).toEqual([
+      { code: "RESULT_HAS_OUTGOING_EDGES", edgeId: "end-after", nodeId: "end" },
+      { code: "INVALID_BRANCH_HANDLE", edgeId: "check-end", nodeId: "check" },
+    ]);
+  });
+
+  it("only lets a loop body be entered through its forEach item handle", () => {
+    const nodes = [node("start", "start"), node("each", "forEach"), node("body"), node("next")];
+    const issues = codes(nodes, [edge("start", "each"), edge("each", "body", "item"), edge("body", "next"), edge("start", "next")]);
+
+    expect(issues).toEqual([{ code: "INVALID_LOOP_BODY", edgeId: "start-next", nodeId: "next" }]);
+  });
+});
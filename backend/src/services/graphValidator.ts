@@ -0,0 +1,194 @@
+/**
+ * Structural validation of workflow graphs
+ * Collects every problem at once so the client can highlight all offending nodes and edges
+ */
+
+import { GraphIssue } from "../types/schemas.js";
+import { NodeConfig, NodeType, WorkflowEdge } from "../types/workflow.js";
+import { conditionSource, MIXED_EXPRESSION_MESSAGE } from "./nodes/conditionNode.js";
+import { findLoopBody } from "./workflowGraph.js";
+
+// Node types a run starts from; a workflow has exactly one
+const TRIGGER_TYPES = new Set<NodeType>(["start", "webhook"]);
+
+// Source handles that outgoing edges of branching node types must start from
+const BRANCH_HANDLES: Partial<Record<NodeType, string[]>> = {
+  condition: ["true", "false"],
+  forEach: ["item", "done"],
+};
+
+/**
+ * Validate a workflow graph before execution
+ * Returns an empty array when the graph can be executed
+ */
+export function validateWorkflowGraph(nodes: NodeConfig[], edges: WorkflowEdge[]): GraphIssue[] {
+  const issues: GraphIssue[] = [];
+  const nodesById = new Map<string, NodeConfig>();
+
+  for (const node of nodes) {
+    if (nodesById.has(node.id)) {
+      issues.push({ code: "DUPLICATE_NODE_ID", message: `Node ID ${node.id} is used more than once`, nodeId: node.id });
+    }
+    nodesById.set(node.id, node);
+  }
+
+  // Only edges between known nodes take part in the structural checks below
+  const validEdges: WorkflowEdge[] = [];
+  const edgeIds = new Set<string>();
+  for (const edge of edges) {
+    if (edgeIds.has(edge.id)) {
+      issues.push({ code: "DUPLICATE_EDGE_ID", edgeId: edge.id, message: `Edge ID ${edge.id} is used more than once` });
+    }
+    edgeIds.add(edge.id);
+
+    const missing = [edge.source, edge.target].filter((nodeId) => !nodesById.has(nodeId));
+    if (missing.length > 0) {
+      issues.push({ code: "UNKNOWN_NODE", edgeId: edge.id, message: `Edge ${edge.id} references unknown node ${missing.join(", ")}` });
+      continue;
+    }
+    validEdges.push(edge);
+  }
+
+  const children = new Map<string, string[]>([...nodesById.keys()].map((nodeId) => [nodeId, []]));
+  for (const edge of validEdges) {
+    children.get(edge.source)!.push(edge.target);
+  }
+
+  const startNodes = [...nodesById.values()].filter((node) => TRIGGER_TYPES.has(node.type));
+  if (startNodes.length === 0) {
+    issues.push({ code: "MISSING_START", message: "Workflow has no start or webhook node" });
+  } else if (startNodes.length > 1) {
+    for (const node of startNodes) {
+      issues.push({ code: "MULTIPLE_START", message: "Workflow has more than one start or webhook node", nodeId: node.id });
+    }
+  }
+
+  for (const edge of validEdges) {
+    if (nodesById.get(edge.source)!.type === "result") {
+      issues.push({ code: "RESULT_HAS_OUTGOING_EDGES", edgeId: edge.id, message: "Result nodes cannot have outgoing edges", nodeId: edge.source });
+    }
+  }
+
+  for (const edge of validEdges) {
+    const sourceType = nodesById.get(edge.source)!.type;
+    const handles = BRANCH_HANDLES[sourceType];
+    if (handles && !handles.includes(edge.sourceHandle ?? "")) {
+      issues.push({
+        code: "INVALID_BRANCH_HANDLE",
+        edgeId: edge.id,
+        message: `Edges leaving a ${sourceType} node must start from its ${handles.join(" or ")} handle`,
+        nodeId: edge.source,
+      });
+    }
+  }
+
+  // Mixed text would resolve to a string and always take the true branch
+  for (const node of nodesById.values()) {
+    const expression = node.data?.expression;
+    if (node.type === "condition" && typeof expression === "string" && conditionSource(expression) === undefined) {
+      issues.push({ code: "INVALID_NODE_CONFIG", message: `Node ${node.id}: ${MIXED_EXPRESSION_MESSAGE}`, nodeId: node.id });
+    }
+  }
+
+  // A loop body may only be entered through its forEach node's item handle and may not lead back out
+  for (const node of nodesById.values()) {
+    if (node.type !== "forEach") continue;
+
+    const body = new Set(findLoopBody(node.id, validEdges));
+    for (const edge of validEdges) {
+      const entersBody = !body.has(edge.source) && body.has(edge.target);
+      const leavesBody = body.has(edge.source) && !body.has(edge.target);
+      if (entersBody && (edge.source !== node.id || edge.sourceHandle !== "item")) {
+        issues.push({
+          code: "INVALID_LOOP_BODY",
+          edgeId: edge.id,
+          message: `Node ${edge.target} is inside the loop body of ${node.id} and can only receive input from its item handle`,
+          nodeId: edge.target,
+        });
+      } else if (leavesBody) {
+        issues.push({
+          code: "INVALID_LOOP_BODY",
+          edgeId: edge.id,
+          message: `Edges cannot leave the loop body of ${node.id}; connect downstream nodes to its done handle instead`,
+          nodeId: edge.source,
+        });
+      }
+    }
+  }
+
+  const componentOf = findStronglyConnectedComponents(children);
+  for (const edge of validEdges) {
+    const component = componentOf.get(edge.source)!;
+    if (component === componentOf.get(edge.target)) {
+      issues.push({ code: "CYCLE", edgeId: edge.id, message: `Edge ${edge.source} → ${edge.target} is part of a cycle`, nodeId: edge.source });
+    }
+  }
+
+  if (startNodes.length > 0) {
+    const reachable = new Set(startNodes.map((node) => node.id));
+    const queue = [...reachable];
+    while (queue.length > 0) {
+      for (const child of children.get(queue.shift()!)!) {
+        if (!reachable.has(child)) {
+          reachable.add(child);
+          queue.push(child);
+        }
+      }
+    }
+
+    for (const nodeId of nodesById.keys()) {
+      if (!reachable.has(nodeId)) {
+        issues.push({ code: "UNREACHABLE_NODE", message: `Node ${nodeId} cannot be reached from the start node`, nodeId });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Tarjan's algorithm: map each node to the index of its strongly connected component
+ * Self-loops aside, two nodes share a component only if they lie on a common cycle
+ */
+function findStronglyConnectedComponents(children: Map<string, string[]>): Map<string, number> {
+  const componentOf = new Map<string, number>();
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  let nextIndex = 0;
+  let nextComponent = 0;
+
+  const strongConnect = (nodeId: string) => {
+    index.set(nodeId, nextIndex);
+    lowLink.set(nodeId, nextIndex);
+    nextIndex++;
+    stack.push(nodeId);
+    onStack.add(nodeId);
+
+    for (const child of children.get(nodeId)!) {
+      if (!index.has(child)) {
+        strongConnect(child);
+        lowLink.set(nodeId, Math.min(lowLink.get(nodeId)!, lowLink.get(child)!));
+      } else if (onStack.has(child)) {
+        lowLink.set(nodeId, Math.min(lowLink.get(nodeId)!, index.get(child)!));
+      }
+    }
+
+    if (lowLink.get(nodeId) === index.get(nodeId)) {
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        componentOf.set(member, nextComponent);
+      } while (member !== nodeId);
+      nextComponent++;
+    }
+  };
+
+  for (const nodeId of children.keys()) {
+    if (!index.has(nodeId)) strongConnect(nodeId);
+  }
+
+  return componentOf;
+}
@@ -0,0 +1,132 @@
+import { createServer, IncomingMessage, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { NodeConfig, NodeHandlerContext, NodeLog } from "../../types/workflow.js";
+import { ApiNodeResult, executeApiNode } from "./apiNode.js";
+import { NodeExecutionError } from "./nodeExecutionError.js";
+
+interface ReceivedRequest {
+  body: string;
+  headers: IncomingMessage["headers"];
+  method?: string;
+  url?: string;
+}
+
+// Stub server: /status/<code> answers with that code, /slow never answers, everything else echoes the request as JSON
+let server: Server;
+let baseUrl: string;
+const received: ReceivedRequest[] = [];
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk: Buffer) => (body += chunk.toString()));
+    request.on("end", () => {
+      received.push({ body, headers: request.headers, method: request.method, url: request.url });
+      const status = /^\/status\/(\d+)/.exec(request.url ?? "")?.[1];
+      if (request.url === "/slow") return;
+      if (request.url === "/text") {
+        response.writeHead(200, { "content-type": "text/plain" }).end("plain text");
+      } else if (status) {
+        response.writeHead(Number(status), { "content-type": "application/json" }).end(JSON.stringify({ status: Number(status) }));
+      } else {
+        response.writeHead(200, { "content-type": "application/json" }).end(JSON.stringify({ body, method: request.method, url: request.url }));
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function apiNode(data: Record<string, unknown>): NodeConfig {
+  return { data, id: "api", type: "api" };
+}
+
+function handlerContext(signal = new AbortController().signal) {
+  const logs: Partial<NodeLog>[] = [];
+  const context: NodeHandlerContext = {
+    inputs: {},
+    log: (message, options) => {
+      logs.push({ message, ...options });
+    },
+    reportProgress: () => undefined,
+    requestApproval: () => Promise.reject(new Error("Not used by api nodes")),
+    runLoopBody: () => Promise.reject(new Error("Not used by api nodes")),
+    signal,
+    workflow: { edges: [], inputs: {}, nodeResults: new Map(), nodes: [], options: {}, startTime: Date.now(), workflowId: "test" },
+  };
+  return { context, logs };
+}
+
+describe("executeApiNode", () => {
+  it("sends the method, query params, headers and JSON body", async () => {
+    const { context, logs } = handlerContext();
+    const result = (await executeApiNode(
+      apiNode({ body: { name: "Ada" }, headers: { "x-api-key": "abc" }, method: "POST", queryParams: { page: 2 }, url: `${baseUrl}/users` }),
+      context,
+    )) as ApiNodeResult;
+
+    expect(result.status).toBe(200);
+    expect(result.body).toEqual({ body: '{"name":"Ada"}', method: "POST", url: "/users?page=2" });
+    const request = received.at(-1)!;
+    expect(request.headers["content-type"]).toBe("application/json");
+    expect(request.headers["x-api-key"]).toBe("abc");
+    expect(logs).toEqual([{ fields: { durationMs: result.durationMs, status: 200 }, level: "info", message: `POST ${baseUrl}/users responded 200` }]);
+  });
+
+  it("does not send a body with GET", async () => {
+    await executeApiNode(apiNode({ body: { ignored: true }, url: `${baseUrl}/items` }), handlerContext().context);
+    expect(received.at(-1)).toMatchObject({ body: "", method: "GET" });
+  });
+
+  it("returns non-JSON responses as text", async () => {
+    const result = (await executeApiNode(apiNode({ url: `${baseUrl}/text` }), handlerContext().context)) as ApiNodeResult;
+    expect(result.body).toBe("plain text");
+  });
+
+  it("fails with HTTP_ERROR and the response attached for unexpected statuses", async () => {
+    const { context, logs } = handlerContext();
+    const error = await executeApiNode(apiNode({ url: `${baseUrl}/status/503` }), context).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(NodeExecutionError);
+    expect(error).toMatchObject({ code: "HTTP_ERROR", details: { body: { status: 503 }, status: 503 } });
+    expect(logs[0]?.level).toBe("warning");
+  });
+
+  it("accepts statuses listed in expectedStatus", async () => {
+    const result = (await executeApiNode(
+      apiNode({ expectedStatus: [404], url: `${baseUrl}/status/404` }),
+      handlerContext().context,
+    )) as ApiNodeResult;
+    expect(result.status).toBe(404);
+  });
+
+  it("fails with NETWORK_ERROR when the server cannot be reached", async () => {
+    const closed = createServer();
+    await new Promise<void>((resolve) => closed.listen(0, "127.0.0.1", resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise((resolve) => closed.close(resolve));
+
+    await expect(executeApiNode(apiNode({ url: `http://127.0.0.1:${port}/` }), handlerContext().context)).rejects.toMatchObject({
+      code: "NETWORK_ERROR",
+    });
+  });
+
+  it("aborts the request with its signal", async () => {
+    const controller = new AbortController();
+    const pending = executeApiNode(apiNode({ url: `${baseUrl}/slow` }), handlerContext(controller.signal).context);
+    setTimeout(() => controller.abort(new NodeExecutionError("Workflow cancelled", "CANCELLED")), 50);
+
+    await expect(pending).rejects.toMatchObject({ code: "CANCELLED" });
+  });
+
+  it("rejects invalid configuration", async () => {
+    await expect(executeApiNode(apiNode({ url: "not a url" }), handlerContext().context)).rejects.toMatchObject({ code: "INVALID_NODE_CONFIG" });
+  });
+});
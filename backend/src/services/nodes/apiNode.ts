@@ -0,0 +1,89 @@
+import { z } from "zod";
+
+import { ApiNodeDataSchema } from "../../types/schemas.js";
+import { NodeHandler } from "../../types/workflow.js";
+import { NodeExecutionError } from "./nodeExecutionError.js";
+
+export interface ApiNodeResult {
+  body: unknown;
+  durationMs: number;
+  headers: Record<string, string>;
+  status: number;
+  statusText: string;
+}
+
+/**
+ * API node: performs the HTTP request described by node.data
+ * Responses outside expectedStatus (default: 2xx) fail the node with the response attached
+ */
+export const executeApiNode: NodeHandler = async (node, { log, signal }) => {
+  const parsed = ApiNodeDataSchema.safeParse(node.data ?? {});
+  if (!parsed.success) {
+    throw new NodeExecutionError(`Invalid API node configuration: ${z.prettifyError(parsed.error)}`, "INVALID_NODE_CONFIG");
+  }
+
+  const { body, expectedStatus, headers = {}, method, queryParams = {}, url } = parsed.data;
+
+  const requestUrl = new URL(url);
+  for (const [key, value] of Object.entries(queryParams)) {
+    requestUrl.searchParams.set(key, String(value));
+  }
+
+  const requestHeaders = new Headers(headers);
+  let requestBody: string | undefined;
+  if (body !== undefined && method !== "GET" && method !== "HEAD") {
+    if (typeof body === "string") {
+      requestBody = body;
+    } else {
+      requestBody = JSON.stringify(body);
+      if (!requestHeaders.has("content-type")) requestHeaders.set("content-type", "application/json");
+    }
+  }
+
+  const requestStart = Date.now();
+  let response: Response;
+  try {
+    response = await fetch(requestUrl, { body: requestBody, headers: requestHeaders, method, signal });
+  } catch (error) {
+    if (signal.aborted) throw error;
+    const cause = error instanceof Error && error.cause instanceof Error ? `: ${error.cause.message}` : "";
+    throw new NodeExecutionError(`Request to ${requestUrl.origin} failed${cause}`, "NETWORK_ERROR");
+  }
+
+  const result: ApiNodeResult = {
+    body: await parseResponseBody(response), // Body reads also reject once the signal aborts
+    durationMs: Date.now() - requestStart,
+    headers: Object.fromEntries(response.headers),
+    status: response.status,
+    statusText: response.statusText,
+  };
+
+  const isExpected = expectedStatus ? expectedStatus.includes(response.status) : response.ok;
+  log(`${method} ${requestUrl.origin}${requestUrl.pathname} responded ${response.status}`, {
+    fields: { durationMs: result.durationMs, status: response.status },
+    level: isExpected ? "info" : "warning",
+  });
+  if (!isExpected) {
+    throw new NodeExecutionError(`${method} ${requestUrl.href} returned ${response.status} ${response.statusText}`.trim(), "HTTP_ERROR", result);
+  }
+
+  return result;
+};
+
+/**
+ * Parse JSON responses, fall back to text for everything else
+ */
+async function parseResponseBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) return null;
+
+  if (response.headers.get("content-type")?.includes("json")) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  return text;
+}
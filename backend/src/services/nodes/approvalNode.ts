@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+import { ApprovalNodeDataSchema } from "../../types/schemas.js";
+import { NodeHandler } from "../../types/workflow.js";
+import { NodeExecutionError } from "./nodeExecutionError.js";
+
+/**
+ * Approval node: suspends its branch until a person approves or rejects it
+ * The approver sees the message and the upstream results; a rejection fails the branch
+ */
+export const executeApprovalNode: NodeHandler = async (node, { inputs, requestApproval, signal }) => {
+  const parsed = ApprovalNodeDataSchema.safeParse(node.data ?? {});
+  if (!parsed.success) {
+    throw new NodeExecutionError(`Invalid approval node configuration: ${z.prettifyError(parsed.error)}`, "INVALID_NODE_CONFIG");
+  }
+
+  const { approvalTimeoutMs, message } = parsed.data;
+  const decision = await requestApproval({ context: inputs, message, signal, timeoutMs: approvalTimeoutMs });
+
+  if (decision.decision === "reject") {
+    throw new NodeExecutionError(decision.comment ? `Rejected: ${decision.comment}` : "Rejected", "APPROVAL_REJECTED", decision);
+  }
+  return { approved: true, comment: decision.comment, respondedAt: decision.respondedAt };
+};
@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+import { ConditionNodeDataSchema } from "../../types/schemas.js";
+import { NodeHandler } from "../../types/workflow.js";
+import { buildTemplateScope, evaluateExpression, TemplateScope, wholeTemplateSource } from "../templating/templateEngine.js";
+import { NodeExecutionError } from "./nodeExecutionError.js";
+
+export const MIXED_EXPRESSION_MESSAGE =
+  "A condition expression is either a bare expression or a single {{ }} template, e.g. nodes.2.result.role == 'admin'";
+
+export interface ConditionNodeResult {
+  branch: "false" | "true"; // Source handle whose edges are taken
+  value: unknown;
+}
+
+/**
+ * Condition node: evaluates a boolean expression against upstream results
+ * The executor only follows edges leaving the matching true/false handle
+ */
+export const executeConditionNode: NodeHandler = async (node, { workflow }) => {
+  const parsed = ConditionNodeDataSchema.safeParse(node.data ?? {});
+  if (!parsed.success) {
+    throw new NodeExecutionError(`Invalid condition node configuration: ${z.prettifyError(parsed.error)}`, "INVALID_NODE_CONFIG");
+  }
+
+  const { expression } = parsed.data;
+  const value = typeof expression === "string" ? evaluateCondition(expression, buildTemplateScope(workflow)) : expression;
+
+  const result: ConditionNodeResult = { branch: value ? "true" : "false", value };
+  return result;
+};
+
+/**
+ * The expression a condition evaluates: a bare expression, or the one inside a single {{ }} template
+ * Undefined for text mixing templates with anything else, e.g. "{{ nodes.2.result.role }} == 'admin'", which would
+ * resolve to a non-empty string and so always take the true branch
+ */
+export function conditionSource(expression: string): string | undefined {
+  if (!expression.includes("{{") && !expression.includes("}}")) return expression;
+  return wholeTemplateSource(expression);
+}
+
+/**
+ * Evaluate the expression exactly once (the executor leaves it unresolved)
+ * A {{ }} template yields its value as-is, e.g. {{ nodes.2.result.role }}; anything else is a bare expression
+ */
+function evaluateCondition(expression: string, scope: TemplateScope): unknown {
+  const source = conditionSource(expression);
+  if (source === undefined) throw new NodeExecutionError(MIXED_EXPRESSION_MESSAGE, "INVALID_NODE_CONFIG");
+  return evaluateExpression(source, scope);
+}
@@ -0,0 +1,74 @@
+import { z } from "zod";
+
+import { ForEachNodeDataSchema } from "../../types/schemas.js";
+import { NodeHandler } from "../../types/workflow.js";
+import { NodeExecutionError } from "./nodeExecutionError.js";
+
+export interface ForEachItemError {
+  error: string;
+  errorCode?: string;
+  index: number;
+}
+
+export interface ForEachNodeResult {
+  errors: ForEachItemError[]; // Only populated in collect mode
+  results: unknown[]; // Body output per item, null for failed items
+}
+
+/**
+ * ForEach node: runs the nodes behind its item handle once per element of data.items
+ * Body nodes read the current element as {{ nodes.<forEachId>.result.item }}; the collected
+ * results flow out of the done handle
+ */
+export const executeForEachNode: NodeHandler = async (node, { log, reportProgress, runLoopBody, signal }) => {
+  const parsed = ForEachNodeDataSchema.safeParse(node.data ?? {});
+  if (!parsed.success) {
+    throw new NodeExecutionError(`Invalid forEach node configuration: ${z.prettifyError(parsed.error)}`, "INVALID_NODE_CONFIG");
+  }
+
+  const { concurrency, errorMode, items } = parsed.data;
+  const result: ForEachNodeResult = { errors: [], results: Array.from(items, () => null) };
+
+  // Aborted in stop mode to cut off in-flight items once one has failed
+  const stopController = new AbortController();
+  const itemSignal = AbortSignal.any([signal, stopController.signal]);
+  let failure: unknown;
+  let nextIndex = 0;
+  let settled = 0;
+
+  reportProgress(0);
+
+  const worker = async () => {
+    while (nextIndex < items.length && !itemSignal.aborted) {
+      const index = nextIndex++;
+      try {
+        result.results[index] = await runLoopBody(items[index], index, itemSignal);
+      } catch (error) {
+        if (itemSignal.aborted) return;
+        if (errorMode === "stop") {
+          failure = error;
+          stopController.abort(new NodeExecutionError(`Stopped after item ${index} failed`, "CANCELLED"));
+          return;
+        }
+        const itemError: ForEachItemError = {
+          error: error instanceof Error ? error.message : "Unknown error",
+          errorCode: error instanceof NodeExecutionError ? error.code : undefined,
+          index,
+        };
+        result.errors.push(itemError);
+        log(itemError.error, { fields: { errorCode: itemError.errorCode, index }, level: "warning" });
+      }
+
+      settled++;
+      reportProgress(Math.round((settled / items.length) * 100));
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+
+  if (signal.aborted) throw signal.reason;
+  if (failure !== undefined) throw failure;
+
+  result.errors.sort((a, b) => a.index - b.index);
+  return result;
+};
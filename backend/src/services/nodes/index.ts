@@ -0,0 +1,22 @@
+import { NodeHandler, NodeType } from "../../types/workflow.js";
+import { executeApiNode } from "./apiNode.js";
+import { executeApprovalNode } from "./approvalNode.js";
+import { executeConditionNode } from "./conditionNode.js";
+import { executeForEachNode } from "./forEachNode.js";
+import { executeMergeNode } from "./mergeNode.js";
+import { executeResultNode } from "./resultNode.js";
+import { executeStartNode } from "./startNode.js";
+import { executeTransformNode } from "./transformNode.js";
+import { executeWebhookNode } from "./webhookNode.js";
+
+export const nodeHandlers: Record<NodeType, NodeHandler> = {
+  api: executeApiNode,
+  approval: executeApprovalNode,
+  condition: executeConditionNode,
+  forEach: executeForEachNode,
+  merge: executeMergeNode,
+  result: executeResultNode,
+  start: executeStartNode,
+  transform: executeTransformNode,
+  webhook: executeWebhookNode,
+};
@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+import { MergeNodeData, MergeNodeDataSchema } from "../../types/schemas.js";
+import { NodeConfig, NodeHandler } from "../../types/workflow.js";
+import { NodeExecutionError } from "./nodeExecutionError.js";
+
+/**
+ * Scheduling mode of a merge node, read by the executor before the node runs
+ * Invalid configuration falls back to "all" and is reported when the node executes
+ */
+export function getMergeMode(node: NodeConfig): MergeNodeData["mode"] {
+  const parsed = MergeNodeDataSchema.safeParse(node.data ?? {});
+  return parsed.success ? parsed.data.mode : "all";
+}
+
+/**
+ * Merge node: combines the results of the parents it waited for into one object
+ * Keys are parent node IDs, or labels when keyBy is "label" (falling back to the ID on duplicates)
+ */
+export const executeMergeNode: NodeHandler = async (node, { inputs, workflow }) => {
+  const parsed = MergeNodeDataSchema.safeParse(node.data ?? {});
+  if (!parsed.success) {
+    throw new NodeExecutionError(`Invalid merge node configuration: ${z.prettifyError(parsed.error)}`, "INVALID_NODE_CONFIG");
+  }
+
+  if (parsed.data.keyBy === "id") return inputs;
+
+  const labels = new Map(workflow.nodes.map((parent) => [parent.id, parent.label ?? parent.data?.label]));
+  const merged: Record<string, unknown> = {};
+  for (const [parentId, result] of Object.entries(inputs)) {
+    const label = labels.get(parentId);
+    const key = typeof label === "string" && label && !Object.hasOwn(merged, label) ? label : parentId;
+    merged[key] = result;
+  }
+  return merged;
+};
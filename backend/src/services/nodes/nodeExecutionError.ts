@@ -0,0 +1,17 @@
+/**
+ * Error thrown by node handlers
+ * Carries a machine-readable code and optional details (e.g. the HTTP response) for the client
+ */
+export class NodeExecutionError extends Error {
+  code: string;
+  details?: unknown;
+
+  constructor(message: string, code: string, details?: unknown) {
+    super(message);
+    this.name = "NodeExecutionError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export default NodeExecutionError;
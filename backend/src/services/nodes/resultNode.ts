@@ -0,0 +1,8 @@
+import { NodeHandler } from "../../types/workflow.js";
+
+/**
+ * Result node: collects the results of its parents
+ */
+export const executeResultNode: NodeHandler = async (_node, { inputs }) => {
+  return inputs;
+};
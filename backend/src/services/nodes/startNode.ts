@@ -0,0 +1,8 @@
+import { NodeHandler } from "../../types/workflow.js";
+
+/**
+ * Start node: entry point of the workflow, emits the trigger time
+ */
+export const executeStartNode: NodeHandler = async (_node, { workflow }) => {
+  return { triggeredAt: workflow.startTime };
+};
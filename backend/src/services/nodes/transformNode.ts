@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+import { TransformNodeDataSchema } from "../../types/schemas.js";
+import { NodeHandler } from "../../types/workflow.js";
+import { runSandboxedScript } from "../sandbox/scriptSandbox.js";
+import { NodeExecutionError } from "./nodeExecutionError.js";
+
+/**
+ * Transform node: reshapes upstream results
+ * A declarative mapping is returned as-is (its {{ }} templates are resolved by the executor);
+ * a script runs in the sandbox with `inputs` (parent ID -> result), its console output streaming into the node's logs
+ */
+export const executeTransformNode: NodeHandler = async (node, { inputs, log, signal }) => {
+  const parsed = TransformNodeDataSchema.safeParse(node.data ?? {});
+  if (!parsed.success) {
+    throw new NodeExecutionError(`Invalid transform node configuration: ${z.prettifyError(parsed.error)}`, "INVALID_NODE_CONFIG");
+  }
+
+  const { cpuLimitMs, mapping, memoryLimitMb, script } = parsed.data;
+  if (mapping !== undefined) return mapping;
+
+  return runSandboxedScript({
+    cpuLimitMs,
+    input: inputs,
+    memoryLimitMb,
+    onLog: (message, level) => log(message, { level }),
+    script: script!,
+    signal,
+  });
+};
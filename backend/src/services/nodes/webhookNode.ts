@@ -0,0 +1,13 @@
+import { NodeHandler } from "../../types/workflow.js";
+
+/**
+ * Webhook node: entry point of a workflow started by an HTTP request to /api/v1/hooks/:token
+ * Outputs the request so downstream nodes can use e.g. {{ nodes.1.result.body.id }}
+ */
+export const executeWebhookNode: NodeHandler = async (_node, { log, workflow }) => {
+  if (workflow.trigger?.type !== "webhook") {
+    log("Started without a webhook request; body, headers and query are empty");
+    return { body: {}, headers: {}, method: null, query: {}, receivedAt: workflow.startTime };
+  }
+  return workflow.trigger;
+};
@@ -0,0 +1,59 @@
+/**
+ * Approvals a run is waiting on, keyed by approval ID
+ * Shared between a run's executor and the child executors of its forEach loops
+ */
+
+import { ApprovalDecision } from "../types/workflow.js";
+import { NodeExecutionError } from "./nodes/nodeExecutionError.js";
+
+export class PendingApprovals {
+  private waiters: Map<string, (decision: ApprovalDecision) => void> = new Map();
+
+  /**
+   * Deliver a client's decision; returns false if the approval is not pending
+   */
+  respond(approvalId: string, decision: Omit<ApprovalDecision, "respondedAt">): boolean {
+    const resolve = this.waiters.get(approvalId);
+    if (!resolve) return false;
+
+    resolve({ ...decision, respondedAt: Date.now() });
+    return true;
+  }
+
+  /**
+   * Wait for a decision on an approval
+   * Rejects with APPROVAL_TIMEOUT once timeoutMs passes, or with the abort reason when the signal aborts
+   */
+  wait(approvalId: string, signal: AbortSignal, timeoutMs?: number): Promise<ApprovalDecision> {
+    return new Promise((resolve, reject) => {
+      if (signal.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const settle = () => {
+        this.waiters.delete(approvalId);
+        clearTimeout(timer);
+        signal.removeEventListener("abort", onAbort);
+      };
+      const onAbort = () => {
+        settle();
+        reject(signal.reason);
+      };
+      const timer = timeoutMs
+        ? setTimeout(() => {
+            settle();
+            reject(new NodeExecutionError(`No approval response within ${timeoutMs}ms`, "APPROVAL_TIMEOUT"));
+          }, timeoutMs)
+        : undefined;
+
+      this.waiters.set(approvalId, (decision) => {
+        settle();
+        resolve(decision);
+      });
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
+
+export default PendingApprovals;
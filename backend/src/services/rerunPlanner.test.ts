@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+
+import { NodeConfig, NodeRun, NodeStatus, WorkflowEdge, WorkflowRun } from "../types/workflow.js";
+import { planRerun, RerunError } from "./rerunPlanner.js";
+
+function edge(source: string, target: string, sourceHandle?: string): WorkflowEdge {
+  return { id: `${source}-${target}`, source, sourceHandle, target };
+}
+
+function finishedRun(nodes: NodeConfig[], edges: WorkflowEdge[], statuses: Record<string, NodeStatus>): WorkflowRun {
+  const nodeRuns = Object.fromEntries(
+    Object.entries(statuses).map(([nodeId, status]): [string, NodeRun] => [
+      nodeId,
+      { nodeId, result: status === "completed" ? { from: nodeId } : undefined, status },
+    ]),
+  );
+  return { edges, inputs: {}, nodeRuns, nodes, options: {}, runId: "run-1", startTime: 0, status: "failed" };
+}
+
+// start -> fetch -> (parse, audit) -> save; fetch failed the first time
+const nodes: NodeConfig[] = ["start", "fetch", "parse", "audit", "save"].map((id) => ({ id, type: id === "start" ? "start" : "transform" }));
+const edges = [edge("start", "fetch"), edge("fetch", "parse"), edge("fetch", "audit"), edge("parse", "save"), edge("audit", "save")];
+
+describe("planRerun", () => {
+  it("re-runs the node and its descendants, seeded with the recorded results of their parents", () => {
+    const run = finishedRun(nodes, edges, { audit: "completed", fetch: "completed", parse: "error", save: "idle", start: "completed" });
+    const plan = planRerun(run, "parse");
+
+    expect(plan.nodes.map((node) => node.id)).toEqual(["fetch", "parse", "audit", "save"]);
+    expect(plan.edges.map((e) => e.id)).toEqual(["fetch-parse", "parse-save", "audit-save"]);
+    expect(Object.fromEntries(plan.nodeResults)).toEqual({ audit: { from: "audit" }, fetch: { from: "fetch" }, start: { from: "start" } });
+  });
+
+  it("drops edges from parents that have no recorded result", () => {
+    const run = finishedRun(nodes, edges, { audit: "skipped", fetch: "completed", parse: "error", save: "idle", start: "completed" });
+    const plan = planRerun(run, "parse");
+
+    expect(plan.edges.map((e) => e.id)).toEqual(["fetch-parse", "parse-save"]);
+    expect(plan.nodeResults.has("audit")).toBe(false);
+  });
+
+  it("refuses unknown nodes and nodes inside a loop body", () => {
+    const loopNodes: NodeConfig[] = [
+      { id: "start", type: "start" },
+      { id: "each", type: "forEach" },
+      { id: "body", type: "transform" },
+    ];
+    const run = finishedRun(loopNodes, [edge("start", "each"), edge("each", "body", "item")], { each: "error", start: "completed" });
+
+    expect(() => planRerun(run, "ghost")).toThrow(RerunError);
+    expect(() => planRerun(run, "body")).toThrow(/re-run from each instead/);
+    expect(planRerun(run, "each").nodes.map((node) => node.id)).toEqual(["start", "each", "body"]);
+  });
+});
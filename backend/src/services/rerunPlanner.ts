@@ -0,0 +1,57 @@
+/**
+ * Plans a re-run of a finished workflow from one of its nodes
+ * Only the node and its descendants execute; every other node contributes its recorded result
+ */
+
+import { NodeConfig, WorkflowEdge, WorkflowRun } from "../types/workflow.js";
+import { findDescendants, findLoopBody } from "./workflowGraph.js";
+
+export interface RerunPlan {
+  edges: WorkflowEdge[];
+  nodeResults: Map<string, unknown>; // Recorded results of every node outside the re-run
+  nodes: NodeConfig[];
+}
+
+/**
+ * Thrown when a run cannot be re-run from the requested node
+ */
+export class RerunError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RerunError";
+  }
+}
+
+/**
+ * Build the subgraph to execute: the chosen node, its descendants and the recorded parents feeding them
+ * Edges from parents without a recorded result (skipped or failed) are dropped; the other results stay reachable from templates
+ */
+export function planRerun(run: WorkflowRun, nodeId: string): RerunPlan {
+  const nodesById = new Map(run.nodes.map((node) => [node.id, node]));
+  if (!nodesById.has(nodeId)) {
+    throw new RerunError(`Node ${nodeId} is not part of workflow ${run.runId}`);
+  }
+
+  // Loop body results only live inside their iteration, so there is nothing to reuse
+  const loopBodies = run.nodes.filter((node) => node.type === "forEach").map((node) => ({ body: findLoopBody(node.id, run.edges), node }));
+  const loopNode = loopBodies.find(({ body }) => body.includes(nodeId))?.node;
+  if (loopNode) {
+    throw new RerunError(`Node ${nodeId} is inside the loop body of ${loopNode.id}; re-run from ${loopNode.id} instead`);
+  }
+
+  const rerunIds = new Set([nodeId, ...findDescendants(nodeId, run.edges)]);
+  const bodyNodeIds = new Set(loopBodies.flatMap(({ body }) => body));
+  const nodeResults = new Map(
+    Object.values(run.nodeRuns)
+      .filter((nodeRun) => nodeRun.status === "completed" && !rerunIds.has(nodeRun.nodeId) && !bodyNodeIds.has(nodeRun.nodeId))
+      .map((nodeRun) => [nodeRun.nodeId, nodeRun.result]),
+  );
+  const edges = run.edges.filter((edge) => rerunIds.has(edge.target) && (rerunIds.has(edge.source) || nodeResults.has(edge.source)));
+  const seededParents = new Set(edges.filter((edge) => !rerunIds.has(edge.source)).map((edge) => edge.source));
+
+  return {
+    edges,
+    nodeResults,
+    nodes: run.nodes.filter((node) => rerunIds.has(node.id) || seededParents.has(node.id)),
+  };
+}
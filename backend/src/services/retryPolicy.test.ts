@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+
+import { RetryPolicySchema } from "../types/schemas.js";
+import { NodeExecutionError } from "./nodes/nodeExecutionError.js";
+import { getRetryClass, getRetryDelay, parseRetryPolicy, shouldRetry } from "./retryPolicy.js";
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return new NodeExecutionError(`GET returned ${status}`, "HTTP_ERROR", { headers, status });
+}
+
+describe("getRetryClass", () => {
+  it("classifies transient errors", () => {
+    expect(getRetryClass(httpError(429))).toBe("429");
+    expect(getRetryClass(httpError(502))).toBe("5xx");
+    expect(getRetryClass(new NodeExecutionError("Request failed", "NETWORK_ERROR"))).toBe("network");
+    expect(getRetryClass(new NodeExecutionError("Node timed out", "TIMEOUT"))).toBe("timeout");
+  });
+
+  it("leaves errors retrying cannot fix unclassified", () => {
+    expect(getRetryClass(httpError(404))).toBeUndefined();
+    expect(getRetryClass(new NodeExecutionError("Bad config", "INVALID_NODE_CONFIG"))).toBeUndefined();
+    expect(getRetryClass(new Error("plain"))).toBeUndefined();
+  });
+});
+
+describe("getRetryDelay", () => {
+  const policy = RetryPolicySchema.parse({ initialDelayMs: 100, jitter: 0, maxDelayMs: 1000 });
+
+  it("backs off exponentially up to maxDelayMs", () => {
+    expect([1, 2, 3, 4, 5].map((attempt) => getRetryDelay(policy, attempt, httpError(503)))).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  it("waits at least as long as a 429's Retry-After header", () => {
+    expect(getRetryDelay(policy, 1, httpError(429, { "retry-after": "0.5" }))).toBe(500);
+    expect(getRetryDelay(policy, 1, httpError(429, { "retry-after": "60" }))).toBe(1000);
+  });
+
+  it("keeps jitter within its fraction of the delay", () => {
+    const jittered = RetryPolicySchema.parse({ initialDelayMs: 100, jitter: 0.5 });
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay(jittered, 1, httpError(503));
+      expect(delay).toBeGreaterThanOrEqual(50);
+      expect(delay).toBeLessThanOrEqual(150);
+    }
+  });
+});
+
+describe("shouldRetry", () => {
+  it("retries only the configured classes while attempts remain", () => {
+    const policy = RetryPolicySchema.parse({ maxAttempts: 3, retryOn: ["5xx"] });
+
+    expect(shouldRetry(policy, 1, httpError(503))).toBe(true);
+    expect(shouldRetry(policy, 3, httpError(503))).toBe(false);
+    expect(shouldRetry(policy, 1, httpError(429))).toBe(false);
+  });
+
+  it("makes a single attempt by default", () => {
+    expect(shouldRetry(parseRetryPolicy({ id: "api", type: "api" }), 1, httpError(503))).toBe(false);
+  });
+
+  it("rejects invalid policies", () => {
+    expect(() => parseRetryPolicy({ data: { retry: { maxAttempts: 0 } }, id: "api", type: "api" })).toThrow(NodeExecutionError);
+  });
+});
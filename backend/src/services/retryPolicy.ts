@@ -0,0 +1,85 @@
+/**
+ * Per-node retry policies
+ * Classifies node errors as transient and computes exponential backoff delays
+ */
+
+import { z } from "zod";
+
+import { RetryPolicy, RetryPolicySchema } from "../types/schemas.js";
+import { NodeConfig } from "../types/workflow.js";
+import { NodeExecutionError } from "./nodes/nodeExecutionError.js";
+
+export type RetryClass = RetryPolicy["retryOn"][number];
+
+/**
+ * Map an error to its transient error class, or undefined if retrying cannot help
+ */
+export function getRetryClass(error: unknown): RetryClass | undefined {
+  if (!(error instanceof NodeExecutionError)) return undefined;
+
+  switch (error.code) {
+    case "HTTP_ERROR": {
+      const status = getResponseStatus(error);
+      if (status === 429) return "429";
+      if (status !== undefined && status >= 500) return "5xx";
+      return undefined;
+    }
+    case "NETWORK_ERROR":
+      return "network";
+    case "TIMEOUT":
+      return "timeout";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Delay before the next attempt: exponential backoff with jitter,
+ * stretched to honor a 429 Retry-After header, capped at maxDelayMs
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number, error: unknown): number {
+  const backoff = policy.initialDelayMs * policy.backoffMultiplier ** (attempt - 1);
+  const jittered = backoff * (1 + (Math.random() * 2 - 1) * policy.jitter);
+  const retryAfter = getRetryClass(error) === "429" ? getRetryAfterMs(error as NodeExecutionError) : undefined;
+
+  return Math.round(Math.min(policy.maxDelayMs, Math.max(jittered, retryAfter ?? 0)));
+}
+
+/**
+ * Read the retry policy from node.data.retry (defaults to a single attempt)
+ */
+export function parseRetryPolicy(node: NodeConfig): RetryPolicy {
+  const parsed = RetryPolicySchema.safeParse(node.data?.retry ?? {});
+  if (!parsed.success) {
+    throw new NodeExecutionError(`Invalid retry policy: ${z.prettifyError(parsed.error)}`, "INVALID_NODE_CONFIG");
+  }
+  return parsed.data;
+}
+
+/**
+ * Whether the policy allows another attempt after this error
+ */
+export function shouldRetry(policy: RetryPolicy, attempt: number, error: unknown): boolean {
+  const retryClass = getRetryClass(error);
+  return attempt < policy.maxAttempts && retryClass !== undefined && policy.retryOn.includes(retryClass);
+}
+
+function getResponseStatus(error: NodeExecutionError): number | undefined {
+  const details = error.details as undefined | { status?: unknown };
+  return typeof details?.status === "number" ? details.status : undefined;
+}
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ */
+function getRetryAfterMs(error: NodeExecutionError): number | undefined {
+  const details = error.details as undefined | { headers?: Record<string, string> };
+  const header = details?.headers?.["retry-after"];
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
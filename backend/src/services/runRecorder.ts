@@ -0,0 +1,144 @@
+/**
+ * Run Recorder
+ * Folds a run's node events into per-node outcomes and persists the run, its events and its log lines
+ * Writes are batched per run and flushed periodically and when the run settles; persistence errors are logged, never thrown
+ */
+
+import { RunRepository, StoredNodeEvent } from "../api/v1/repositories/runRepository.js";
+import { WorkflowComplete } from "../types/schemas.js";
+import { NodeEvent, NodeLog, NodeLogEntry, NodeRun, NodeStatus, WorkflowRun } from "../types/workflow.js";
+
+const FLUSH_INTERVAL_MS = 1000;
+const TERMINAL_STATUSES = new Set<NodeStatus>(["cancelled", "completed", "error", "skipped"]);
+
+interface Recording {
+  events: StoredNodeEvent[]; // Not yet written
+  logs: NodeLogEntry[]; // Not yet written
+  nextSeq: number;
+  retriesLogged: Map<string, number>; // Node ID -> retry attempts already logged
+  run: WorkflowRun;
+  timer?: NodeJS.Timeout;
+  writing: Promise<void>; // Tail of the write chain, so writes land in order
+}
+
+export class RunRecorder {
+  private recordings: Map<string, Recording> = new Map();
+  private repository: RunRepository;
+
+  constructor(repository: RunRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Finish a run with its completion summary and write everything that is left
+   */
+  completeRun({ failedNodes, status, timedOutNodes, workflowId }: WorkflowComplete): void {
+    const recording = this.recordings.get(workflowId);
+    if (!recording) return;
+
+    Object.assign(recording.run, { endTime: Date.now(), failedNodes, status, timedOutNodes });
+    this.finish(workflowId, recording);
+  }
+
+  /**
+   * Finish a run that failed outside of any node
+   */
+  failRun(runId: string, error: string): void {
+    const recording = this.recordings.get(runId);
+    if (!recording) return;
+
+    Object.assign(recording.run, { endTime: Date.now(), error, status: "failed" });
+    this.finish(runId, recording);
+  }
+
+  /**
+   * Persist a node event and fold it into the node's outcome
+   * Failed attempts, errors and cancellations are also written to the node's log
+   */
+  recordNodeEvent(runId: string, event: NodeEvent): void {
+    const recording = this.recordings.get(runId);
+    if (!recording) return;
+
+    const { nodeId, payload = {}, timestamp } = event;
+    recording.events.push({ event, runId, seq: recording.nextSeq++ });
+
+    const nodeRun: NodeRun = (recording.run.nodeRuns[nodeId] ??= { nodeId, status: "idle" });
+    if (payload.status) nodeRun.status = payload.status;
+    for (const field of ["attempt", "cached", "error", "errorCode", "errorDetails", "result", "retryHistory"] as const) {
+      if (payload[field] !== undefined) Object.assign(nodeRun, { [field]: payload[field] });
+    }
+    if (nodeRun.status === "running") nodeRun.startTime ??= timestamp;
+    if (TERMINAL_STATUSES.has(nodeRun.status)) nodeRun.endTime = timestamp;
+
+    const retries = payload.retryHistory ?? [];
+    for (const retry of retries.slice(recording.retriesLogged.get(nodeId) ?? 0)) {
+      const message = `Attempt ${retry.attempt} failed: ${retry.error}; retrying in ${retry.retryDelayMs}ms`;
+      recording.logs.push({ level: "warning", message, nodeId, runId, seq: recording.nextSeq++, timestamp });
+    }
+    recording.retriesLogged.set(nodeId, Math.max(retries.length, recording.retriesLogged.get(nodeId) ?? 0));
+
+    if (event.eventType === "error" || (event.eventType === "cancelled" && payload.error)) {
+      const level = event.eventType === "error" ? "error" : "warning";
+      recording.logs.push({ level, message: payload.error ?? "Node failed", nodeId, runId, seq: recording.nextSeq++, timestamp });
+    }
+
+    this.scheduleFlush(recording);
+  }
+
+  /**
+   * Persist a handler's log entry
+   */
+  recordNodeLog(runId: string, nodeId: string, log: NodeLog): void {
+    const recording = this.recordings.get(runId);
+    if (!recording) return;
+
+    recording.logs.push({ ...log, nodeId, runId, seq: recording.nextSeq++ });
+    this.scheduleFlush(recording);
+  }
+
+  /**
+   * Start recording a run
+   */
+  startRun(run: Omit<WorkflowRun, "nodeRuns" | "status">): void {
+    const recording: Recording = {
+      events: [],
+      logs: [],
+      nextSeq: 1,
+      retriesLogged: new Map(),
+      run: { ...run, nodeRuns: {}, status: "running" },
+      writing: Promise.resolve(),
+    };
+    this.recordings.set(run.runId, recording);
+    this.flush(recording);
+  }
+
+  private finish(runId: string, recording: Recording): void {
+    this.recordings.delete(runId);
+    clearTimeout(recording.timer);
+    this.flush(recording);
+  }
+
+  /**
+   * Queue a write of the run document and the buffered events and logs
+   */
+  private flush(recording: Recording): void {
+    recording.timer = undefined;
+    const events = recording.events.splice(0);
+    const logs = recording.logs.splice(0);
+    const run = structuredClone(recording.run);
+
+    recording.writing = recording.writing
+      .then(() => Promise.all([this.repository.save(run), this.repository.appendEvents(events), this.repository.appendLogs(logs)]))
+      .then(
+        () => undefined,
+        (error: unknown) => console.error(`[RunRecorder] Failed to persist run ${run.runId}:`, error),
+      );
+  }
+
+  private scheduleFlush(recording: Recording): void {
+    if (recording.timer) return;
+    recording.timer = setTimeout(() => this.flush(recording), FLUSH_INTERVAL_MS);
+  }
+}
+
+export default RunRecorder;
@@ -0,0 +1,88 @@
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { Server as SocketIOServer } from "socket.io";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { InMemoryCredentialRepository } from "../api/v1/repositories/inMemoryCredentialRepository.js";
+import { InMemoryRunRepository } from "../api/v1/repositories/inMemoryRunRepository.js";
+import { InMemoryWorkflowRepository } from "../api/v1/repositories/inMemoryWorkflowRepository.js";
+import { CreateWorkflowRequest } from "../types/schemas.js";
+import { CredentialVault } from "./credentialVault.js";
+import RunRecorder from "./runRecorder.js";
+import RunService from "./runService.js";
+import WorkflowEventEmitter from "./workflowEventEmitter.js";
+import WorkflowRegistry from "./workflowRegistry.js";
+
+// Stub server recording the Authorization header of every request
+let server: Server;
+let baseUrl: string;
+const received: (string | undefined)[] = [];
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    received.push(request.headers.authorization);
+    response.writeHead(200, { "content-type": "application/json" }).end("{}");
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+  vi.restoreAllMocks();
+});
+
+async function setup() {
+  const runRepository = new InMemoryRunRepository();
+  const workflowRepository = new InMemoryWorkflowRepository();
+  const vault = new CredentialVault(new InMemoryCredentialRepository(), Buffer.alloc(32, 7).toString("base64"));
+  const recorder = new RunRecorder(runRepository);
+  const emitter = new WorkflowEventEmitter(new SocketIOServer(), {}, recorder);
+  const runService = new RunService(emitter, recorder, new WorkflowRegistry(), runRepository, workflowRepository, vault);
+
+  const ownersKey = await vault.create({ name: "Owner's key", secret: "owner-secret" }, { id: "owner" });
+  const nodes: CreateWorkflowRequest["nodes"] = [
+    { id: "start", position: { x: 0, y: 0 }, type: "start" },
+    {
+      data: { headers: { authorization: `Bearer {{ secrets.${ownersKey.id} }}` }, url: baseUrl },
+      id: "call",
+      position: { x: 200, y: 0 },
+      type: "api",
+    },
+  ];
+  const edges = [{ id: "start-call", source: "start", target: "call" }];
+  const workflow = await workflowRepository.create({ edges, name: "Uses a credential", nodes }, "owner");
+
+  // Start a run and wait for it; returns the IDs of the nodes that failed
+  const run = async (definition: Partial<Parameters<RunService["execute"]>[0]>) => {
+    received.length = 0;
+    const runId = runService.execute({ edges, inputs: {}, nodes, options: {}, ...definition });
+    const complete = await runService.waitForCompletion(runId);
+    return complete?.failedNodes ?? [];
+  };
+
+  return { run, workflow };
+}
+
+describe("RunService credentials", () => {
+  it("uses the workflow owner's credentials for the stored version of a workflow", async () => {
+    const { run, workflow } = await setup();
+
+    expect(await run({ definitionId: workflow.id, definitionVersion: workflow.version, startedBy: "someone-else" })).toEqual([]);
+    expect(received).toEqual(["Bearer owner-secret"]);
+  });
+
+  it("uses the credentials of the user who started a run of nodes sent by a client", async () => {
+    const { run, workflow } = await setup();
+
+    // Naming the owner's workflow does not give client nodes the owner's credentials
+    expect(await run({ definitionId: workflow.id, startedBy: "someone-else" })).toEqual(["call"]);
+    expect(await run({ startedBy: "someone-else" })).toEqual(["call"]);
+    expect(received).toEqual([]);
+
+    expect(await run({ definitionId: workflow.id, startedBy: "owner" })).toEqual([]);
+    expect(received).toEqual(["Bearer owner-secret"]);
+  });
+});
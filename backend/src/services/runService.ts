@@ -0,0 +1,247 @@
+/**
+ * Run Service
+ * Starts, re-runs and watches workflow runs independently of the transport that asked for them
+ * Socket.IO handlers pass the requesting socket's ID so it joins the run's room; REST callers pass none
+ * and watch the run through subscribe() or waitForCompletion() instead
+ * Runs of a saved workflow's stored graph use its owner's credentials, other runs those of the user who started them
+ */
+
+import { randomUUID } from "node:crypto";
+
+import { RunRepository } from "../api/v1/repositories/runRepository.js";
+import { WorkflowRepository } from "../api/v1/repositories/workflowRepository.js";
+import { GraphIssue, NodeEvent, WorkflowComplete, WorkflowSnapshot } from "../types/schemas.js";
+import { NodeRun, NodeStatus, WorkflowRun } from "../types/workflow.js";
+import CredentialVault, { CredentialError } from "./credentialVault.js";
+import { validateWorkflowGraph } from "./graphValidator.js";
+import { NodeExecutionError } from "./nodes/nodeExecutionError.js";
+import { planRerun, RerunError, RerunPlan } from "./rerunPlanner.js";
+import RunRecorder from "./runRecorder.js";
+import WorkflowEventEmitter, { RunEventListener } from "./workflowEventEmitter.js";
+import WorkflowExecutor from "./workflowExecutor.js";
+import WorkflowRegistry from "./workflowRegistry.js";
+
+// Event that leaves a node in each status, for snapshots of finished runs
+const EVENT_TYPE_BY_STATUS: Record<NodeStatus, NodeEvent["eventType"]> = {
+  cancelled: "cancelled",
+  completed: "complete",
+  error: "error",
+  idle: "start",
+  running: "running",
+  skipped: "skipped",
+};
+
+// What a run needs to execute, and what is recorded so it can be re-run later
+export type RunDefinition = Pick<
+  WorkflowRun,
+  "definitionId" | "definitionVersion" | "edges" | "inputs" | "nodes" | "options" | "startedBy" | "trigger"
+>;
+
+export class RunService {
+  private emitter: WorkflowEventEmitter;
+  private recorder: RunRecorder;
+  private registry: WorkflowRegistry;
+  private runRepository: RunRepository;
+  private vault: CredentialVault;
+  private workflowRepository: WorkflowRepository;
+
+  constructor(
+    emitter: WorkflowEventEmitter,
+    recorder: RunRecorder,
+    registry: WorkflowRegistry,
+    runRepository: RunRepository,
+    workflowRepository: WorkflowRepository,
+    vault: CredentialVault,
+  ) {
+    this.emitter = emitter;
+    this.recorder = recorder;
+    this.registry = registry;
+    this.runRepository = runRepository;
+    this.workflowRepository = workflowRepository;
+    this.vault = vault;
+  }
+
+  /**
+   * Validate a workflow graph and start executing it
+   * Returns the run ID; throws RunStartError (INVALID_GRAPH) when the graph cannot be executed
+   */
+  execute(definition: RunDefinition, socketId?: string): string {
+    const issues = validateWorkflowGraph(definition.nodes, definition.edges);
+    if (issues.length > 0) {
+      throw new RunStartError("INVALID_GRAPH", `Workflow graph has ${issues.length} issue(s): ${issues[0].message}`, issues);
+    }
+    return this.start(definition, socketId);
+  }
+
+  /**
+   * Current state of a run for a client that starts following it
+   * Active runs report their live node events; finished runs are rebuilt from the run history
+   */
+  async getSnapshot(runId: string): Promise<undefined | WorkflowSnapshot> {
+    // Taken before any await, so no event of the run can be sent in between
+    const live = this.emitter.getSnapshot(runId);
+    if (live) return live;
+
+    const run = await this.runRepository.findById(runId);
+    if (!run) return undefined;
+    return { events: Object.values(run.nodeRuns).map(toNodeEvent), status: run.status, workflowId: runId };
+  }
+
+  isActive(runId: string): boolean {
+    return this.registry.get(runId) !== undefined;
+  }
+
+  /**
+   * Node events of an active run after afterSeq; see WorkflowEventEmitter.replay
+   */
+  replay(runId: string, afterSeq: number): Pick<WorkflowSnapshot, "events" | "state"> | undefined {
+    return this.emitter.replay(runId, afterSeq);
+  }
+
+  /**
+   * Re-run a finished run from one node, on behalf of startedBy
+   * Recorded results of every other node are reused; only the node and its descendants execute
+   */
+  async rerunFrom(runId: string, nodeId: string, startedBy?: string, socketId?: string): Promise<string> {
+    const previous = await this.runRepository.findById(runId);
+    if (!previous || previous.status === "running") {
+      throw new RunStartError("NOT_FOUND", previous ? `Workflow ${runId} is still running` : `No finished workflow ${runId}`);
+    }
+
+    let plan: RerunPlan;
+    try {
+      plan = planRerun(previous, nodeId);
+    } catch (error) {
+      if (error instanceof RerunError) throw new RunStartError("INVALID_REQUEST", error.message);
+      throw error;
+    }
+
+    const { definitionId, definitionVersion, edges, inputs, nodes, options, trigger } = previous;
+    return this.start({ definitionId, definitionVersion, edges, inputs, nodes, options, startedBy, trigger }, socketId, {
+      parentRunId: runId,
+      plan,
+      rerunFromNodeId: nodeId,
+    });
+  }
+
+  /**
+   * Receive a run's events from now on; see WorkflowEventEmitter.subscribe
+   */
+  subscribe(runId: string, listener: RunEventListener): () => void {
+    return this.emitter.subscribe(runId, listener);
+  }
+
+  /**
+   * Resolve with the run's completion once it finishes, or with undefined if it is still running after timeoutMs
+   * Rejects if the run is not active or fails outside of any node
+   */
+  waitForCompletion(runId: string, timeoutMs?: number): Promise<undefined | WorkflowComplete> {
+    if (!this.isActive(runId)) {
+      return Promise.reject(new RunStartError("NOT_FOUND", `No active workflow ${runId}`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = timeoutMs === undefined ? undefined : setTimeout(() => settle(() => resolve(undefined)), timeoutMs);
+      const settle = (done: () => void) => {
+        clearTimeout(timer);
+        unsubscribe();
+        done();
+      };
+      const unsubscribe = this.emitter.subscribe(runId, (eventName, payload) => {
+        if (eventName === "workflow:complete") {
+          settle(() => resolve(payload as WorkflowComplete));
+        } else if (eventName === "workflow:error") {
+          settle(() => reject(new Error((payload as { error?: string }).error ?? "Workflow failed")));
+        }
+      });
+    });
+  }
+
+  /**
+   * Decrypt credentials referenced by a node of a run; failures fail the node with CREDENTIAL_ERROR
+   * Runs of a stored workflow version (saved, webhook and scheduled runs, graphs unchanged since the latest save, and their re-runs)
+   * use the workflow owner's credentials;
+   * nodes sent by a client use the credentials of the user who started the run, even if they name a saved workflow
+   */
+  private async resolveSecrets(definition: RunDefinition, credentialIds: string[]): Promise<Record<string, string>> {
+    try {
+      let ownerId = definition.startedBy;
+      if (definition.definitionId && definition.definitionVersion !== undefined) {
+        const workflow = await this.workflowRepository.findById(definition.definitionId);
+        if (!workflow) throw new CredentialError("NOT_FOUND", `Workflow ${definition.definitionId} no longer exists`);
+        ownerId = workflow.ownerId;
+      }
+      return await this.vault.resolve(credentialIds, ownerId);
+    } catch (error) {
+      if (error instanceof CredentialError) throw new NodeExecutionError(error.message, "CREDENTIAL_ERROR", { reason: error.code });
+      throw error;
+    }
+  }
+
+  /**
+   * Start executing a validated workflow and record it in the run history
+   * A re-run executes only its planned subgraph and reports the reused results as cached completions
+   */
+  private start(
+    definition: RunDefinition,
+    socketId?: string,
+    rerun?: Required<Pick<WorkflowRun, "parentRunId" | "rerunFromNodeId">> & { plan: RerunPlan },
+  ): string {
+    // Random suffix so runs started in the same millisecond (e.g. by concurrent REST calls) do not collide
+    const workflowId = `workflow-${Date.now()}-${randomUUID().slice(0, 8)}`;
+    const { edges, nodeResults, nodes } = rerun?.plan ?? { ...definition, nodeResults: new Map<string, unknown>() };
+    const startTime = Date.now();
+
+    console.log(`[Workflow] Starting ${workflowId} with ${nodes.length} nodes`);
+
+    // The full definition is recorded so a re-run can itself be re-run from any node
+    this.recorder.startRun({ ...definition, parentRunId: rerun?.parentRunId, rerunFromNodeId: rerun?.rerunFromNodeId, runId: workflowId, startTime });
+    if (definition.definitionId) this.emitter.watchRun(workflowId, definition.definitionId);
+    if (socketId) this.emitter.joinRun(socketId, workflowId);
+    this.emitter.emitWorkflowStarted({ parentWorkflowId: rerun?.parentRunId, rerunFromNodeId: rerun?.rerunFromNodeId, workflowId });
+
+    for (const [nodeId, result] of nodeResults) {
+      this.emitter.emitNodeEvent(workflowId, {
+        eventType: "complete",
+        nodeId,
+        payload: { cached: true, result, status: "completed" },
+        timestamp: startTime,
+      });
+    }
+
+    const executor = new WorkflowExecutor({ ...definition, edges, nodeResults, nodes, startTime, workflowId }, this.emitter, (credentialIds) =>
+      this.resolveSecrets(definition, credentialIds),
+    );
+    this.registry.register(workflowId, { definitionId: definition.definitionId, executor, socketId, startedBy: definition.startedBy });
+    void executor.execute().finally(() => this.registry.unregister(workflowId));
+
+    return workflowId;
+  }
+}
+
+/**
+ * Thrown when a run cannot be started
+ * code is INVALID_GRAPH (with issues), INVALID_REQUEST or NOT_FOUND
+ */
+export class RunStartError extends Error {
+  code: string;
+  issues?: GraphIssue[];
+
+  constructor(code: string, message: string, issues?: GraphIssue[]) {
+    super(message);
+    this.name = "RunStartError";
+    this.code = code;
+    this.issues = issues;
+  }
+}
+
+function toNodeEvent({ nodeId, ...outcome }: NodeRun): NodeEvent {
+  return {
+    eventType: EVENT_TYPE_BY_STATUS[outcome.status],
+    nodeId,
+    payload: outcome,
+    timestamp: outcome.endTime ?? outcome.startTime ?? Date.now(),
+  };
+}
+
+export default RunService;
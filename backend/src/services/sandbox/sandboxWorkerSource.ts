@@ -0,0 +1,107 @@
+/**
+ * Source of the worker thread that runs transform scripts
+ * Kept as plain CommonJS text and started with eval: true, so it runs the same under tsx and the compiled build
+ *
+ * The script runs in strict mode in a fresh vm context with no require, process, timers or fetch
+ * No host object ever enters the context (its global is built on a null-prototype object), so nothing
+ * reachable from the script leads back to the host's Function constructor; only strings cross the boundary
+ * Console output is posted to the parent as it happens, through a host function only the setup closure holds:
+ * it takes strings, returns nothing and never throws into the context, so no host object can leak through it
+ */
+export const SANDBOX_WORKER_SOURCE = String.raw`
+"use strict";
+const { parentPort, workerData } = require("node:worker_threads");
+const vm = require("node:vm");
+
+const { cpuLimitMs, inputJson, maxLogLines, maxLogLength, script } = workerData;
+
+const SETUP = ${"`"}
+(function (inputJson, maxLogLines, maxLogLength, postLog) {
+  "use strict";
+  const stringify = JSON.stringify;
+  const toText = String;
+  let logLines = 0;
+  const emit = (level, message) => {
+    if (logLines >= maxLogLines) return;
+    logLines++;
+    try {
+      postLog(level, message.slice(0, maxLogLength));
+    } catch {
+      // Dropped unseen: an error raised at the host boundary (e.g. a stack overflow) must not reach the script
+    }
+  };
+  const format = (value) => {
+    if (typeof value === "string") return value;
+    try {
+      const json = stringify(value);
+      return json === undefined ? toText(value) : json;
+    } catch {
+      return toText(value);
+    }
+  };
+  const logAt = (level) => (...args) => emit(level, args.map(format).join(" "));
+  const log = logAt("info");
+  globalThis.console = Object.freeze({ debug: log, error: logAt("error"), info: log, log, warn: logAt("warning") });
+  const inputs = JSON.parse(inputJson);
+
+  // Both return JSON text, so the host never touches an object the script could have tampered with
+  const run = (transform) => {
+    try {
+      const json = stringify(transform(inputs));
+      return stringify({ json: json === undefined ? "null" : json, ok: true });
+    } catch (error) {
+      let message;
+      try {
+        message = toText(error instanceof Error ? error.message : error);
+      } catch {
+        message = "Script threw an unprintable error";
+      }
+      return stringify({ message, ok: false });
+    }
+  };
+  return run;
+})
+${"`"};
+
+const post = (message) => parentPort.postMessage(message);
+
+// Anything the script returns is parsed here, never used directly
+const runJson = (context, code) => {
+  const json = vm.runInContext(code, context, { timeout: cpuLimitMs });
+  if (typeof json !== "string") throw new Error("Sandbox returned a non-string value");
+  return JSON.parse(json);
+};
+
+// Called from inside the context with strings only; returns nothing and swallows its own failures
+const postLog = (level, message) => {
+  try {
+    if (typeof level === "string" && typeof message === "string") {
+      post({ level: level === "error" || level === "warning" ? level : "info", message, type: "log" });
+    }
+  } catch {
+    // Logs are best effort; the outcome is reported either way
+  }
+};
+
+try {
+  const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false }, microtaskMode: "afterEvaluate" });
+  context.__run = vm.runInContext(SETUP, context)(inputJson, maxLogLines, maxLogLength, postLog);
+  // Compiled as a function body so it cannot run top-level code; strict mode and a plain call keep this undefined
+  context.__transform = vm.compileFunction('"use strict";\n' + script, ["inputs"], { filename: "transform.js", parsingContext: context });
+
+  const outcome = runJson(context, "__run(__transform)");
+  if (outcome.ok === true && typeof outcome.json === "string") {
+    post({ json: outcome.json, type: "result" });
+  } else {
+    post({ code: "SCRIPT_ERROR", message: typeof outcome.message === "string" ? outcome.message : "Script failed", type: "error" });
+  }
+} catch (error) {
+  if (error && error.code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+    post({ code: "SCRIPT_TIMEOUT", message: "Script exceeded the " + cpuLimitMs + "ms CPU time limit", type: "error" });
+  } else {
+    // Compile errors come from the context's realm, so instanceof Error does not apply
+    const message = error && typeof error.message === "string" ? String(error.name) + ": " + error.message : "Script failed";
+    post({ code: "SCRIPT_ERROR", message, type: "error" });
+  }
+}
+`;
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import { LogLevel } from "../../types/workflow.js";
+import { runSandboxedScript } from "./scriptSandbox.js";
+
+async function run(script: string, input: unknown = {}, cpuLimitMs = 1000) {
+  const logs: { level: LogLevel; message: string }[] = [];
+  const result = runSandboxedScript({
+    cpuLimitMs,
+    input,
+    memoryLimitMb: 32,
+    onLog: (message, level) => logs.push({ level, message }),
+    script,
+    signal: new AbortController().signal,
+  });
+  return { logs, result };
+}
+
+describe("runSandboxedScript", () => {
+  it("returns the script's result computed from its inputs", async () => {
+    const { result } = await run("return inputs.items.map((item) => item * 2);", { items: [1, 2, 3] });
+    await expect(result).resolves.toEqual([2, 4, 6]);
+  });
+
+  it("forwards console output with its level", async () => {
+    const { logs, result } = await run('console.log("count", 2); console.warn({ slow: true }); console.error("bad"); return null;');
+    await result;
+
+    expect(logs).toEqual([
+      { level: "info", message: "count 2" },
+      { level: "warning", message: '{"slow":true}' },
+      { level: "error", message: "bad" },
+    ]);
+  });
+
+  it("reports thrown errors as SCRIPT_ERROR", async () => {
+    const { result } = await run('throw new Error("nope");');
+    await expect(result).rejects.toMatchObject({ code: "SCRIPT_ERROR", message: "nope" });
+  });
+
+  it("stops scripts that exceed the CPU limit and still forwards their logs", async () => {
+    const { logs, result } = await run('console.log("looping"); while (true) {}', {}, 50);
+
+    await expect(result).rejects.toMatchObject({ code: "SCRIPT_TIMEOUT" });
+    expect(logs).toEqual([{ level: "info", message: "looping" }]);
+  });
+
+  it("forwards console output while the script is still running", async () => {
+    let loggedAt = 0;
+    const result = runSandboxedScript({
+      cpuLimitMs: 1000,
+      input: {},
+      memoryLimitMb: 32,
+      onLog: () => (loggedAt = Date.now()),
+      script: 'console.log("started"); const end = Date.now() + 400; while (Date.now() < end) {} return null;',
+      signal: new AbortController().signal,
+    });
+    await result;
+
+    expect(loggedAt).toBeGreaterThan(0);
+    expect(Date.now() - loggedAt).toBeGreaterThanOrEqual(300);
+  });
+
+  describe("isolation", () => {
+    it.each([
+      ["this", 'return this.constructor.constructor("return process")().pid;'],
+      ["a sloppy-mode function's this", 'return (function () { return this; })().constructor.constructor("return process")().pid;'],
+      ["the global's prototype chain", 'return Object.getPrototypeOf(globalThis).constructor.constructor("return process")().pid;'],
+      ["the console functions", 'return console.log.constructor("return process")().pid;'],
+      ["the inputs", 'return inputs.constructor.constructor("return process")().pid;'],
+    ])("does not reach the host process through %s", async (_name, script) => {
+      const { result } = await run(script);
+      await expect(result).rejects.toMatchObject({ code: "SCRIPT_ERROR" });
+    });
+
+    it("runs the script in strict mode with no host globals", async () => {
+      const { result } = await run("return [this, typeof process, typeof require, typeof setTimeout, typeof fetch];");
+      await expect(result).resolves.toEqual([null, "undefined", "undefined", "undefined", "undefined"]);
+    });
+
+    it("cannot break out of its function body", async () => {
+      const { result } = await run('}); globalThis.escaped = this.constructor.constructor("return process")(); (function () {');
+      await expect(result).rejects.toMatchObject({ code: "SCRIPT_ERROR", message: expect.stringContaining("SyntaxError") });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Runs user scripts in a worker thread with CPU time and memory limits
+ * The worker has an empty environment and the script itself has no module, network or filesystem access
+ */
+
+import { Worker } from "node:worker_threads";
+
+import { LogLevel } from "../../types/workflow.js";
+import { NodeExecutionError } from "../nodes/nodeExecutionError.js";
+import { SANDBOX_WORKER_SOURCE } from "./sandboxWorkerSource.js";
+
+export interface SandboxOptions {
+  cpuLimitMs: number;
+  input: unknown; // Exposed to the script as `inputs`; must be JSON-serializable
+  memoryLimitMb: number;
+  onLog: (message: string, level: LogLevel) => void; // Called as each console call happens; console.error logs errors, console.warn warnings, the rest info
+  script: string; // Function body; its return value is the result
+  signal: AbortSignal;
+}
+
+type WorkerMessage =
+  | { code: string; message: string; type: "error" }
+  | { json: string; type: "result" }
+  | { level: LogLevel; message: string; type: "log" };
+
+const MAX_LOG_LENGTH = 2000;
+const MAX_LOG_LINES = 1000;
+
+/**
+ * Run a script and resolve with its JSON-serializable return value
+ * Rejects with SCRIPT_ERROR, SCRIPT_TIMEOUT or SCRIPT_MEMORY_LIMIT; aborting the signal terminates the worker
+ */
+export function runSandboxedScript(options: SandboxOptions): Promise<unknown> {
+  const { cpuLimitMs, input, memoryLimitMb, onLog, script, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(SANDBOX_WORKER_SOURCE, {
+      env: {},
+      eval: true,
+      resourceLimits: { maxOldGenerationSizeMb: memoryLimitMb, maxYoungGenerationSizeMb: Math.max(4, Math.floor(memoryLimitMb / 4)) },
+      workerData: { cpuLimitMs, inputJson: JSON.stringify(input ?? {}), maxLogLength: MAX_LOG_LENGTH, maxLogLines: MAX_LOG_LINES, script },
+    });
+
+    // Backstop in case the script escapes the vm timeout (e.g. a blocking native call)
+    const killTimer = setTimeout(() => {
+      settle(() => reject(new NodeExecutionError(`Script exceeded the ${cpuLimitMs}ms CPU time limit`, "SCRIPT_TIMEOUT")));
+    }, cpuLimitMs + 1000);
+
+    let settled = false;
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(killTimer);
+      signal.removeEventListener("abort", onAbort);
+      void worker.terminate();
+      finish();
+    };
+
+    const onAbort = () => settle(() => reject(signal.reason));
+
+    worker.on("message", (message: WorkerMessage) => {
+      if (message.type === "log") {
+        if (!settled) onLog(message.message, message.level);
+      } else if (message.type === "result") {
+        settle(() => resolve(JSON.parse(message.json)));
+      } else {
+        settle(() => reject(new NodeExecutionError(message.message, message.code)));
+      }
+    });
+
+    worker.on("error", (error: NodeJS.ErrnoException) => {
+      const outOfMemory = error.code === "ERR_WORKER_OUT_OF_MEMORY";
+      settle(() =>
+        reject(
+          outOfMemory
+            ? new NodeExecutionError(`Script exceeded the ${memoryLimitMb}MB memory limit`, "SCRIPT_MEMORY_LIMIT")
+            : new NodeExecutionError(`Script worker failed: ${error.message}`, "SCRIPT_ERROR"),
+        ),
+      );
+    });
+
+    worker.on("exit", (exitCode) => {
+      settle(() => reject(new NodeExecutionError(`Script worker exited unexpectedly with code ${exitCode}`, "SCRIPT_ERROR")));
+    });
+
+    if (signal.aborted) onAbort();
+    else signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
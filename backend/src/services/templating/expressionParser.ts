@@ -0,0 +1,164 @@
+/**
+ * Recursive descent parser for template and condition expressions
+ *
+ * Grammar:
+ *   or         := and ("||" and)*
+ *   and        := comparison ("&&" comparison)*
+ *   comparison := unary (("==" | "!=" | "===" | "!==" | "<" | "<=" | ">" | ">=") unary)?
+ *   unary      := "!" unary | primary
+ *   primary    := "(" or ")" | literal | name "(" [or ("," or)*] ")" | root ("." segment | "[" (number | string) "]")*
+ */
+
+import { NodeExecutionError } from "../nodes/nodeExecutionError.js";
+
+export type BinaryOperator = "!=" | "&&" | "<" | "<=" | "==" | ">" | ">=" | "||";
+
+export type Expression =
+  | { args: Expression[]; kind: "call"; name: string }
+  | { kind: "binary"; left: Expression; operator: BinaryOperator; right: Expression }
+  | { kind: "literal"; value: unknown }
+  | { kind: "not"; operand: Expression }
+  | { kind: "path"; root: string; segments: string[]; source: string };
+
+/**
+ * Thrown when an expression cannot be parsed or a reference cannot be resolved
+ */
+export class TemplateError extends NodeExecutionError {
+  constructor(message: string) {
+    super(message, "TEMPLATE_ERROR");
+    this.name = "TemplateError";
+  }
+}
+
+// Longest operators first so "<=" is not read as "<"
+const COMPARISON_OPERATORS = ["===", "!==", "==", "!=", "<=", ">=", "<", ">"];
+
+export function parseExpression(source: string): Expression {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new TemplateError(`${message} at position ${pos} in "${source.trim()}"`);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+  };
+
+  const consume = (token: string) => {
+    skipWhitespace();
+    if (!source.startsWith(token, pos)) return false;
+    pos += token.length;
+    return true;
+  };
+
+  const readWhile = (pattern: RegExp) => {
+    const start = pos;
+    while (pos < source.length && pattern.test(source[pos])) pos++;
+    return source.slice(start, pos);
+  };
+
+  const readString = () => {
+    const quote = source[pos++];
+    let text = "";
+    while (pos < source.length && source[pos] !== quote) {
+      if (source[pos] === "\\" && pos + 1 < source.length) pos++;
+      text += source[pos++];
+    }
+    if (source[pos] !== quote) fail("Unterminated string");
+    pos++;
+    return text;
+  };
+
+  const parseOr = (): Expression => {
+    let left = parseAnd();
+    while (consume("||")) left = { kind: "binary", left, operator: "||", right: parseAnd() };
+    return left;
+  };
+
+  const parseAnd = (): Expression => {
+    let left = parseComparison();
+    while (consume("&&")) left = { kind: "binary", left, operator: "&&", right: parseComparison() };
+    return left;
+  };
+
+  const parseComparison = (): Expression => {
+    const left = parseUnary();
+    const operator = COMPARISON_OPERATORS.find((candidate) => consume(candidate));
+    if (!operator) return left;
+
+    // Equality is always strict; "===" and "!==" are accepted as aliases
+    return { kind: "binary", left, operator: operator.slice(0, 2) as BinaryOperator, right: parseUnary() };
+  };
+
+  const parseUnary = (): Expression => {
+    skipWhitespace();
+    if (source[pos] === "!" && source[pos + 1] !== "=") {
+      pos++;
+      return { kind: "not", operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Expression => {
+    skipWhitespace();
+    const char = source[pos];
+
+    if (char === "(") {
+      pos++;
+      const inner = parseOr();
+      if (!consume(")")) fail('Expected ")"');
+      return inner;
+    }
+    if (char === '"' || char === "'") return { kind: "literal", value: readString() };
+    if (/[-\d]/.test(char ?? "")) {
+      const text = readWhile(/[-\d.]/);
+      const value = Number(text);
+      if (!Number.isFinite(value)) fail(`Invalid number "${text}"`);
+      return { kind: "literal", value };
+    }
+
+    const start = pos;
+    const name = readWhile(/[\w$]/);
+    if (!name) fail(char === undefined ? "Empty expression" : `Unexpected "${char}"`);
+    if (name === "true" || name === "false") return { kind: "literal", value: name === "true" };
+    if (name === "null") return { kind: "literal", value: null };
+
+    if (consume("(")) {
+      const args: Expression[] = [];
+      if (!consume(")")) {
+        do {
+          args.push(parseOr());
+        } while (consume(","));
+        if (!consume(")")) fail('Expected ")"');
+      }
+      return { args, kind: "call", name };
+    }
+
+    const segments: string[] = [];
+    for (;;) {
+      if (source[pos] === ".") {
+        pos++;
+        const segment = readWhile(/[\w$-]/);
+        if (!segment) fail("Expected property name");
+        segments.push(segment);
+      } else if (source[pos] === "[") {
+        pos++;
+        skipWhitespace();
+        const segment = source[pos] === '"' || source[pos] === "'" ? readString() : readWhile(/\d/);
+        skipWhitespace();
+        if (!segment || source[pos] !== "]") fail('Expected "]"');
+        pos++;
+        segments.push(segment);
+      } else {
+        break;
+      }
+    }
+
+    return { kind: "path", root: name, segments, source: source.slice(start, pos) };
+  };
+
+  const expression = parseOr();
+  skipWhitespace();
+  if (pos < source.length) fail(`Unexpected "${source[pos]}"`);
+  return expression;
+}
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import { evaluateExpression, findSecretReferences, getTemplateEnv, resolveTemplates, TemplateError, TemplateScope } from "./templateEngine.js";
+
+const scope: TemplateScope = {
+  env: { REGION: "eu" },
+  inputs: { email: "ada@example.com" },
+  nodes: { "2": { result: { body: { items: [{ id: 7 }], userId: 42 }, status: 200 } } },
+};
+
+describe("resolveTemplates", () => {
+  it("keeps the type of a field that is a single template", () => {
+    const { data, resolved } = resolveTemplates({ items: "{{ nodes.2.result.body.items }}", userId: " {{ nodes.2.result.body.userId }} " }, scope);
+
+    expect(data).toEqual({ items: [{ id: 7 }], userId: 42 });
+    expect(resolved).toEqual({ items: [{ id: 7 }], userId: 42 });
+  });
+
+  it("interpolates mixed text, nested fields and array items", () => {
+    const { data } = resolveTemplates(
+      {
+        headers: { "x-user": "user-{{ nodes.2.result.body.userId }}" },
+        tags: ["{{ upper(env.REGION) }}", "static"],
+        url: "https://api/{{ inputs.email }}",
+      },
+      scope,
+    );
+
+    expect(data).toEqual({ headers: { "x-user": "user-42" }, tags: ["EU", "static"], url: "https://api/ada@example.com" });
+  });
+
+  it("reports unresolved references with the field they are in", () => {
+    expect(() => resolveTemplates({ url: "{{ nodes.9.result }}" }, scope)).toThrow(/Template error in url: .*node 9 has no result/);
+  });
+
+  it("falls back with default() when a reference cannot be resolved", () => {
+    expect(resolveTemplates({ page: "{{ default(inputs.page, 1) }}" }, scope).data).toEqual({ page: 1 });
+  });
+
+  it("refuses prototype access and secrets outside api nodes", () => {
+    expect(() => resolveTemplates({ x: "{{ inputs.constructor }}" }, scope)).toThrow(TemplateError);
+    expect(() => resolveTemplates({ x: "{{ secrets.key }}" }, scope)).toThrow(/secrets can only be used by api nodes/);
+  });
+});
+
+describe("evaluateExpression", () => {
+  it("evaluates comparisons and boolean logic", () => {
+    expect(evaluateExpression("nodes.2.result.status == 200 && inputs.email != ''", scope)).toBe(true);
+    expect(evaluateExpression("!(nodes.2.result.body.userId > 50) || false", scope)).toBe(true);
+  });
+
+  it("does not compare values of different types", () => {
+    expect(() => evaluateExpression("nodes.2.result.status > '100'", scope)).toThrow(/Cannot compare number > string/);
+  });
+});
+
+describe("findSecretReferences", () => {
+  it("finds credential IDs by field path", () => {
+    const references = findSecretReferences({
+      headers: { authorization: "Bearer {{ secrets.abc-1 }}" },
+      url: "https://x/{{ urlEncode(secrets.def) }}",
+    });
+
+    expect(Object.fromEntries(references)).toEqual({ "headers.authorization": ["abc-1"], url: ["def"] });
+  });
+});
+
+describe("getTemplateEnv", () => {
+  afterEach(() => {
+    delete process.env.WORKFLOW_ENV_STAGE;
+  });
+
+  it("only exposes WORKFLOW_ENV_ variables, without the prefix", () => {
+    process.env.WORKFLOW_ENV_STAGE = "test";
+    const env = getTemplateEnv();
+
+    expect(env.STAGE).toBe("test");
+    expect(env).not.toHaveProperty("PATH");
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Template engine for node data
+ * Resolves {{ expression }} placeholders in string fields against the run context, e.g.
+ *   {{ nodes.2.result.body.userId }}, {{ inputs.email }}, {{ upper(env.REGION) }}
+ * Api nodes can also reference stored credentials as {{ secrets.<credentialId> }}
+ */
+
+import { WorkflowExecutionContext } from "../../types/workflow.js";
+import { BinaryOperator, Expression, parseExpression, TemplateError } from "./expressionParser.js";
+import { templateFunctions } from "./templateFunctions.js";
+
+export { TemplateError };
+
+export interface TemplateResolution {
+  data: Record<string, unknown>;
+  resolved: Record<string, unknown>; // Field path -> resolved value, for debugging
+}
+
+export type TemplateScope = Record<"env" | "inputs" | "nodes", Record<string, unknown>> & {
+  secrets?: Record<string, string>; // Credential ID -> decrypted secret, for api nodes only
+};
+
+const ENV_PREFIX = "WORKFLOW_ENV_";
+const FORBIDDEN_SEGMENTS = new Set(["__proto__", "constructor", "prototype"]);
+const SECRET_REFERENCE_PATTERN = /\bsecrets\.([\w$-]+)/g;
+const TEMPLATE_PATTERN = /\{\{(.*?)\}\}/g;
+const WHOLE_TEMPLATE_PATTERN = /^\s*\{\{(.*?)\}\}\s*$/;
+
+/**
+ * Values expressions can reference: completed node results, run inputs and the exposed env
+ */
+export function buildTemplateScope(context: WorkflowExecutionContext): TemplateScope {
+  return {
+    env: getTemplateEnv(),
+    inputs: context.inputs,
+    nodes: Object.fromEntries([...context.nodeResults].map(([nodeId, result]) => [nodeId, { result }])),
+  };
+}
+
+/**
+ * Evaluate a bare expression (no {{ }}), e.g. a condition node's expression
+ */
+export function evaluateExpression(source: string, scope: TemplateScope): unknown {
+  return evaluate(parseExpression(source), scope);
+}
+
+/**
+ * Credential IDs referenced as secrets.<id> by the templates in a node's data, by field path (as in TemplateResolution.resolved)
+ */
+export function findSecretReferences(data: Record<string, unknown>): Map<string, string[]> {
+  const references = new Map<string, string[]>();
+
+  const visit = (value: unknown, path: string): void => {
+    if (typeof value === "string") {
+      const sources = [...value.matchAll(TEMPLATE_PATTERN)].map((match) => match[1]);
+      const ids = sources.flatMap((source) => [...source.matchAll(SECRET_REFERENCE_PATTERN)].map((match) => match[1]));
+      if (ids.length > 0) references.set(path, ids);
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${path}[${index}]`));
+    } else if (value !== null && typeof value === "object") {
+      for (const [key, item] of Object.entries(value)) visit(item, path ? `${path}.${key}` : key);
+    }
+  };
+
+  visit(data, "");
+  return references;
+}
+
+/**
+ * Environment exposed to templates as env.*
+ * Only variables prefixed with WORKFLOW_ENV_ are visible, so server secrets never leak into node data
+ */
+export function getTemplateEnv(): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(process.env)
+      .filter((entry): entry is [string, string] => entry[0].startsWith(ENV_PREFIX) && entry[1] !== undefined)
+      .map(([key, value]) => [key.slice(ENV_PREFIX.length), value]),
+  );
+}
+
+/**
+ * Resolve every template in a node's data
+ * A field that is a single template keeps the value's type; mixed text is interpolated as a string
+ */
+export function resolveTemplates(data: Record<string, unknown>, scope: TemplateScope): TemplateResolution {
+  const resolved: Record<string, unknown> = {};
+
+  const visit = (value: unknown, path: string): unknown => {
+    if (typeof value === "string") {
+      if (!value.includes("{{")) return value;
+
+      const result = resolveString(value, scope, path);
+      resolved[path] = result;
+      return result;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => visit(item, `${path}[${index}]`));
+    }
+    if (value !== null && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, visit(item, path ? `${path}.${key}` : key)]));
+    }
+    return value;
+  };
+
+  return { data: visit(data, "") as Record<string, unknown>, resolved };
+}
+
+/**
+ * The expression inside a string that is a single {{ }} template and nothing else, e.g. "{{ nodes.2.result }}"
+ * Undefined for any other string, including text mixing a template with anything else
+ */
+export function wholeTemplateSource(value: string): string | undefined {
+  const whole = value.match(WHOLE_TEMPLATE_PATTERN);
+  return whole && !whole[1].includes("{{") ? whole[1] : undefined;
+}
+
+function evaluate(expression: Expression, scope: TemplateScope): unknown {
+  switch (expression.kind) {
+    case "call": {
+      // default() tolerates unresolved references in its first argument
+      if (expression.name === "default") {
+        const [value, fallback] = expression.args;
+        try {
+          const result = value ? evaluate(value, scope) : undefined;
+          if (result !== undefined && result !== null) return result;
+        } catch (error) {
+          if (!(error instanceof TemplateError)) throw error;
+        }
+        return fallback ? evaluate(fallback, scope) : undefined;
+      }
+
+      const fn = Object.hasOwn(templateFunctions, expression.name) ? templateFunctions[expression.name] : undefined;
+      if (!fn) throw new TemplateError(`Unknown function "${expression.name}"`);
+
+      const args = expression.args.map((arg) => evaluate(arg, scope));
+      try {
+        return fn(...args);
+      } catch (error) {
+        throw new TemplateError(`${expression.name}() failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    case "binary":
+      return evaluateBinary(expression.operator, expression.left, expression.right, scope);
+    case "literal":
+      return expression.value;
+    case "not":
+      return !evaluate(expression.operand, scope);
+    case "path":
+      return resolvePath(expression, scope);
+  }
+}
+
+function evaluateBinary(operator: BinaryOperator, leftExpression: Expression, rightExpression: Expression, scope: TemplateScope): unknown {
+  const left = evaluate(leftExpression, scope);
+
+  // Short-circuit like JavaScript
+  if (operator === "&&") return left ? evaluate(rightExpression, scope) : left;
+  if (operator === "||") return left ? left : evaluate(rightExpression, scope);
+
+  const right = evaluate(rightExpression, scope);
+  switch (operator) {
+    case "!=":
+      return left !== right;
+    case "==":
+      return left === right;
+    default: {
+      if (!(typeof left === "number" && typeof right === "number") && !(typeof left === "string" && typeof right === "string")) {
+        throw new TemplateError(`Cannot compare ${typeof left} ${operator} ${typeof right}`);
+      }
+      if (operator === "<") return left < right;
+      if (operator === "<=") return left <= right;
+      if (operator === ">") return left > right;
+      return left >= right;
+    }
+  }
+}
+
+function resolvePath(expression: Extract<Expression, { kind: "path" }>, scope: TemplateScope): unknown {
+  if (expression.root === "secrets" && !scope.secrets) {
+    throw new TemplateError(`"${expression.source}" is not available here: secrets can only be used by api nodes`);
+  }
+  if (!Object.hasOwn(scope, expression.root)) {
+    throw new TemplateError(`Unknown reference "${expression.source}": must start with nodes, inputs or env`);
+  }
+
+  let current: unknown = scope[expression.root as keyof TemplateScope];
+  let walked = expression.root;
+
+  for (const segment of expression.segments) {
+    if (FORBIDDEN_SEGMENTS.has(segment)) {
+      throw new TemplateError(`Access to "${segment}" is not allowed in "${expression.source}"`);
+    }
+    if (current === null || typeof current !== "object" || !Object.hasOwn(current, segment)) {
+      if (walked === "nodes") {
+        throw new TemplateError(`Unresolved reference "${expression.source}": node ${segment} has no result (not upstream or not completed)`);
+      }
+      throw new TemplateError(`Unresolved reference "${expression.source}": "${segment}" not found in ${walked}`);
+    }
+
+    current = (current as Record<string, unknown>)[segment];
+    walked += `.${segment}`;
+  }
+
+  return current;
+}
+
+function resolveString(value: string, scope: TemplateScope, path: string): unknown {
+  const evaluateSource = (source: string) => {
+    try {
+      return evaluate(parseExpression(source), scope);
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        throw new TemplateError(`Template error in ${path || "data"}: ${error.message}`);
+      }
+      throw error;
+    }
+  };
+
+  const whole = wholeTemplateSource(value);
+  if (whole !== undefined) return evaluateSource(whole);
+
+  return value.replace(TEMPLATE_PATTERN, (_match, source: string) => {
+    const result = evaluateSource(source);
+    if (result === undefined || result === null) return "";
+    return typeof result === "object" ? JSON.stringify(result) : String(result);
+  });
+}
@@ -0,0 +1,46 @@
+/**
+ * Built-in functions available inside {{ }} templates
+ * Strings: concat, join, length, lower, replace, split, substring, trim, upper, urlEncode
+ * Dates: addDays, formatDate, now, timestamp
+ * JSON: json, parseJson
+ * (default(value, fallback) is handled by the template engine itself)
+ */
+
+export type TemplateFunction = (...args: unknown[]) => unknown;
+
+function toDate(value: unknown): Date {
+  const date = value === undefined ? new Date() : new Date(value as number | string);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${String(value)}`);
+  }
+  return date;
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+export const templateFunctions: Record<string, TemplateFunction> = {
+  addDays: (value, days) => new Date(toDate(value).getTime() + Number(days) * 86_400_000).toISOString(),
+  concat: (...values) => values.map(toText).join(""),
+  formatDate: (value, part = "iso") => {
+    const iso = toDate(value).toISOString();
+    if (part === "date") return iso.slice(0, 10);
+    if (part === "time") return iso.slice(11, 19);
+    return iso;
+  },
+  join: (values, separator = ",") => (Array.isArray(values) ? values.map(toText).join(toText(separator)) : toText(values)),
+  json: (value) => JSON.stringify(value),
+  length: (value) => (Array.isArray(value) || typeof value === "string" ? value.length : Object.keys(value ?? {}).length),
+  lower: (value) => toText(value).toLowerCase(),
+  now: () => new Date().toISOString(),
+  parseJson: (value) => JSON.parse(toText(value)),
+  replace: (value, search, replacement) => toText(value).replaceAll(toText(search), toText(replacement)),
+  split: (value, separator = ",") => toText(value).split(toText(separator)),
+  substring: (value, start, end) => toText(value).substring(Number(start), end === undefined ? undefined : Number(end)),
+  timestamp: (value) => toDate(value).getTime(),
+  trim: (value) => toText(value).trim(),
+  upper: (value) => toText(value).toUpperCase(),
+  urlEncode: (value) => encodeURIComponent(toText(value)),
+};
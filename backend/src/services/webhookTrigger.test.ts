@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+
+import { NodeConfig } from "../types/workflow.js";
+import { assignWebhookTokens, findWebhookNode, webhookTokens } from "./webhookTrigger.js";
+
+const webhook = (id: string, token?: string): NodeConfig => ({ data: token ? { token } : {}, id, type: "webhook" });
+
+describe("assignWebhookTokens", () => {
+  it("gives every webhook node a fresh token and leaves other nodes alone", () => {
+    const api: NodeConfig = { data: { url: "https://example.com" }, id: "api", type: "api" };
+    const [first, second, untouched] = assignWebhookTokens([webhook("a"), webhook("b"), api]);
+
+    expect(first.data!.token).toMatch(/^[\w-]{32}$/);
+    expect(second.data!.token).not.toBe(first.data!.token);
+    expect(untouched).toBe(api);
+  });
+
+  it("keeps the token the stored node with the same ID has", () => {
+    const [kept, added] = assignWebhookTokens([webhook("a"), webhook("b")], [webhook("a", "stored-token")]);
+
+    expect(kept.data!.token).toBe("stored-token");
+    expect(added.data!.token).not.toBe("stored-token");
+  });
+
+  it("ignores tokens sent by the client", () => {
+    const [claimed] = assignWebhookTokens([webhook("a", "another-workflows-token")], [webhook("a", "stored-token")]);
+    const [created] = assignWebhookTokens([webhook("a", "another-workflows-token")]);
+
+    expect(claimed.data!.token).toBe("stored-token");
+    expect(created.data!.token).not.toBe("another-workflows-token");
+  });
+});
+
+describe("findWebhookNode", () => {
+  it("only matches webhook nodes", () => {
+    const nodes: NodeConfig[] = [{ data: { token: "t" }, id: "api", type: "api" }, webhook("hook", "t")];
+    expect(findWebhookNode(nodes, "t")?.id).toBe("hook");
+    expect(findWebhookNode(nodes, "other")).toBeUndefined();
+    expect(webhookTokens(nodes)).toEqual(["t"]);
+  });
+});
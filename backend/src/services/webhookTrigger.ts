@@ -0,0 +1,39 @@
+/**
+ * Webhook trigger tokens
+ * A webhook node's token is the secret path segment of /api/v1/hooks/:token that starts its workflow
+ * Tokens are only ever generated here: a client could otherwise save a graph claiming another workflow's hook URL
+ */
+
+import { randomBytes } from "node:crypto";
+
+import { NodeConfig } from "../types/workflow.js";
+
+/**
+ * Give every webhook node the token its stored node with the same ID already has, or a fresh, unguessable one
+ * Keeping stored tokens means saving a workflow does not change its hook URLs; tokens sent by the client are dropped
+ */
+export function assignWebhookTokens<T extends NodeConfig>(nodes: T[], stored: NodeConfig[] = []): T[] {
+  const storedTokens = new Map(stored.flatMap((node) => (isWebhookWithToken(node) ? [[node.id, node.data.token]] : [])));
+  return nodes.map((node) => {
+    if (node.type !== "webhook") return node;
+    return { ...node, data: { ...node.data, token: storedTokens.get(node.id) ?? randomBytes(24).toString("base64url") } };
+  });
+}
+
+/**
+ * The webhook node that owns a token, if any
+ */
+export function findWebhookNode<T extends NodeConfig>(nodes: T[], token: string): T | undefined {
+  return nodes.find((node) => node.type === "webhook" && node.data?.token === token);
+}
+
+/**
+ * Tokens of the webhook nodes, which no other workflow may use
+ */
+export function webhookTokens(nodes: NodeConfig[]): string[] {
+  return nodes.filter(isWebhookWithToken).map((node) => node.data.token);
+}
+
+function isWebhookWithToken(node: NodeConfig): node is NodeConfig & { data: { token: string } } {
+  return node.type === "webhook" && typeof node.data?.token === "string";
+}
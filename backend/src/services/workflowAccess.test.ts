@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+
+import { InMemoryRunRepository } from "../api/v1/repositories/inMemoryRunRepository.js";
+import { InMemoryWorkflowRepository } from "../api/v1/repositories/inMemoryWorkflowRepository.js";
+import { AuthUser, WorkflowRole, WorkflowRun } from "../types/workflow.js";
+import WorkflowAccess, { hasRole } from "./workflowAccess.js";
+import WorkflowRegistry from "./workflowRegistry.js";
+
+const owner: AuthUser = { id: "owner" };
+const editor: AuthUser = { id: "editor" };
+const viewer: AuthUser = { id: "viewer" };
+const stranger: AuthUser = { id: "stranger" };
+
+async function setup() {
+  const workflowRepository = new InMemoryWorkflowRepository();
+  const runRepository = new InMemoryRunRepository();
+  const access = new WorkflowAccess(workflowRepository, runRepository, new WorkflowRegistry());
+
+  const workflow = await workflowRepository.create({ edges: [], name: "Shared", nodes: [] }, owner.id);
+  await workflowRepository.setMembers(workflow.id, [
+    { role: "editor", userId: editor.id },
+    { role: "viewer", userId: viewer.id },
+  ]);
+
+  const saveRun = async (runId: string, fields: Partial<WorkflowRun>) => {
+    await runRepository.save({ edges: [], inputs: {}, nodeRuns: {}, nodes: [], options: {}, runId, startTime: 1, status: "success", ...fields });
+  };
+  await saveRun("of-workflow", { definitionId: workflow.id, startedBy: editor.id });
+  await saveRun("own-draft", { startedBy: stranger.id });
+  await saveRun("anonymous", {});
+
+  return { access, workflow };
+}
+
+// Whether the check passes, or the AccessError code it fails with
+const outcome = (check: Promise<unknown>) =>
+  check.then(
+    () => "allowed",
+    (error: { code?: string }) => error.code,
+  );
+
+describe("WorkflowAccess", () => {
+  it.each<[AuthUser, WorkflowRole, string]>([
+    [owner, "owner", "allowed"],
+    [editor, "editor", "allowed"],
+    [editor, "owner", "FORBIDDEN"],
+    [viewer, "viewer", "allowed"],
+    [viewer, "editor", "FORBIDDEN"],
+    [stranger, "viewer", "FORBIDDEN"],
+  ])("gives %o the %s role on a workflow: %s", async (user, role, expected) => {
+    const { access, workflow } = await setup();
+    expect(await outcome(access.requireWorkflow(workflow.id, user, role))).toBe(expected);
+  });
+
+  it("allows everything without a user, and reports unknown workflows and runs as NOT_FOUND", async () => {
+    const { access, workflow } = await setup();
+
+    expect(await outcome(access.requireWorkflow(workflow.id, undefined, "owner"))).toBe("allowed");
+    expect(await outcome(access.requireRun("own-draft", undefined, "editor"))).toBe("allowed");
+    expect(await outcome(access.requireWorkflow("missing", owner, "viewer"))).toBe("NOT_FOUND");
+    expect(await outcome(access.requireRun("missing", owner, "viewer"))).toBe("NOT_FOUND");
+  });
+
+  it("lets the user who started a run control it, and others by their role on its workflow", async () => {
+    const { access } = await setup();
+
+    expect(await outcome(access.requireRun("own-draft", stranger, "editor"))).toBe("allowed");
+    expect(await outcome(access.requireRun("own-draft", owner, "viewer"))).toBe("FORBIDDEN");
+    expect(await outcome(access.requireRun("of-workflow", owner, "editor"))).toBe("allowed");
+    expect(await outcome(access.requireRun("of-workflow", viewer, "viewer"))).toBe("allowed");
+    expect(await outcome(access.requireRun("of-workflow", viewer, "editor"))).toBe("FORBIDDEN");
+    expect(await outcome(access.requireRun("anonymous", stranger, "editor"))).toBe("allowed");
+  });
+
+  it("treats workflows saved without an owner as shared with everyone", () => {
+    expect(hasRole({ members: [], ownerId: undefined }, stranger, "owner")).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Workflow Access
+ * Decides what a user may do with saved workflows and runs, from the roles in WorkflowRole
+ * Without a user (authentication is not configured) everything is allowed, as are workflows saved without an owner
+ * A run can always be followed and controlled by the user who started it; others need a role on its workflow
+ */
+
+import { RunRepository } from "../api/v1/repositories/runRepository.js";
+import { WorkflowRepository } from "../api/v1/repositories/workflowRepository.js";
+import { AuthUser, WorkflowDefinition, WorkflowRole } from "../types/workflow.js";
+import WorkflowRegistry from "./workflowRegistry.js";
+
+const ROLE_RANK: Record<WorkflowRole, number> = { editor: 2, owner: 3, viewer: 1 };
+
+/**
+ * Thrown when a user may not act on a workflow or run
+ * code is FORBIDDEN, or NOT_FOUND when it does not exist
+ */
+export class AccessError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = "AccessError";
+    this.code = code;
+  }
+}
+
+export class WorkflowAccess {
+  private registry: WorkflowRegistry;
+  private runRepository: RunRepository;
+  private workflowRepository: WorkflowRepository;
+
+  constructor(workflowRepository: WorkflowRepository, runRepository: RunRepository, registry: WorkflowRegistry) {
+    this.workflowRepository = workflowRepository;
+    this.runRepository = runRepository;
+    this.registry = registry;
+  }
+
+  /**
+   * Check that the user may follow (viewer) or control (editor) a run, active or finished
+   * Throws AccessError
+   */
+  async requireRun(runId: string, user: AuthUser | undefined, role: WorkflowRole): Promise<void> {
+    const run = this.registry.get(runId) ?? (await this.runRepository.findById(runId));
+    if (!run) throw new AccessError("NOT_FOUND", `Run ${runId} not found`);
+    if (!user || run.startedBy === user.id) return;
+
+    const workflow = run.definitionId ? await this.workflowRepository.findById(run.definitionId) : undefined;
+    if (workflow ? hasRole(workflow, user, role) : !run.startedBy && !run.definitionId) return;
+    throw new AccessError("FORBIDDEN", `You do not have ${role} access to run ${runId}`);
+  }
+
+  /**
+   * Load a saved workflow the user holds at least the role on
+   * Throws AccessError
+   */
+  async requireWorkflow(definitionId: string, user: AuthUser | undefined, role: WorkflowRole): Promise<WorkflowDefinition> {
+    const workflow = await this.workflowRepository.findById(definitionId);
+    if (!workflow) throw new AccessError("NOT_FOUND", `Workflow ${definitionId} not found`);
+    if (!hasRole(workflow, user, role)) throw new AccessError("FORBIDDEN", `You do not have ${role} access to workflow ${definitionId}`);
+    return workflow;
+  }
+}
+
+/**
+ * Whether the user holds at least the role on the workflow
+ */
+export function hasRole(workflow: Pick<WorkflowDefinition, "members" | "ownerId">, user: AuthUser | undefined, role: WorkflowRole): boolean {
+  const held = roleOf(workflow, user);
+  return held !== undefined && ROLE_RANK[held] >= ROLE_RANK[role];
+}
+
+/**
+ * The user's role on a workflow, or undefined if it was not shared with them
+ */
+export function roleOf(workflow: Pick<WorkflowDefinition, "members" | "ownerId">, user: AuthUser | undefined): undefined | WorkflowRole {
+  if (!user || !workflow.ownerId || workflow.ownerId === user.id) return "owner";
+  return workflow.members?.find((member) => member.userId === user.id)?.role;
+}
+
+export default WorkflowAccess;
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+
+import { WorkflowDefinitionNode, WorkflowEdge, WorkflowVersion } from "../types/workflow.js";
+import { diffWorkflowVersions, isSameGraph } from "./workflowDiff.js";
+
+const node = (id: string, data: Record<string, unknown> = {}, x = 0): WorkflowDefinitionNode => ({
+  data,
+  id,
+  position: { x, y: 0 },
+  type: "transform",
+});
+const edge = (id: string, source: string, target: string, sourceHandle?: null | string): WorkflowEdge => ({ id, source, sourceHandle, target });
+
+function version(number: number, nodes: WorkflowDefinitionNode[], edges: WorkflowEdge[], name = "Flow"): WorkflowVersion {
+  return { createdAt: number, definitionId: "wf", edges, name, nodes, version: number };
+}
+
+describe("diffWorkflowVersions", () => {
+  it("reports added and removed nodes and edges", () => {
+    const from = version(1, [node("a"), node("b")], [edge("a-b", "a", "b")]);
+    const to = version(2, [node("a"), node("c")], [edge("a-c", "a", "c")]);
+
+    const diff = diffWorkflowVersions(from, to);
+    expect(diff).toMatchObject({ fromVersion: 1, toVersion: 2 });
+    expect(diff.nodes.added.map(({ id }) => id)).toEqual(["c"]);
+    expect(diff.nodes.removed.map(({ id }) => id)).toEqual(["b"]);
+    expect(diff.edges.added.map(({ id }) => id)).toEqual(["a-c"]);
+    expect(diff.edges.removed.map(({ id }) => id)).toEqual(["a-b"]);
+    expect(diff.nodes.changed).toEqual([]);
+  });
+
+  it("reports changed node fields down to leaf values, and moves as one change", () => {
+    const from = version(1, [node("a", { headers: { Authorization: "old" }, url: "https://x" })], []);
+    const to = version(2, [node("a", { headers: { Authorization: "new" }, method: "POST", url: "https://x" }, 100)], [], "Renamed");
+
+    const diff = diffWorkflowVersions(from, to);
+    expect(diff.metadata).toEqual([{ from: "Flow", path: "name", to: "Renamed" }]);
+    expect(diff.nodes.changed).toEqual([
+      {
+        changes: [
+          { from: { x: 0, y: 0 }, path: "position", to: { x: 100, y: 0 } },
+          { from: "old", path: "data.headers.Authorization", to: "new" },
+          { from: undefined, path: "data.method", to: "POST" },
+        ],
+        nodeId: "a",
+      },
+    ]);
+  });
+
+  it("reports edges moved to other endpoints as rewired, ignoring null handles", () => {
+    const from = version(1, [node("a"), node("b"), node("c")], [edge("e1", "a", "b", null), edge("e2", "a", "c")]);
+    const to = version(2, [node("a"), node("b"), node("c")], [edge("e1", "a", "b"), edge("e2", "b", "c")]);
+
+    expect(diffWorkflowVersions(from, to).edges.rewired).toEqual([
+      { edgeId: "e2", from: { source: "a", target: "c" }, to: { source: "b", target: "c" } },
+    ]);
+  });
+});
+
+describe("isSameGraph", () => {
+  const saved = version(1, [node("a", { mapping: { x: 1 } }), node("b")], [edge("a-b", "a", "b")]);
+
+  it("matches a graph that was only moved around or reordered", () => {
+    expect(isSameGraph(saved, { edges: [edge("a-b", "a", "b", null)], nodes: [node("b", {}, 50), node("a", { mapping: { x: 1 } }, 90)] })).toBe(true);
+  });
+
+  it("does not match changed data, nodes or edges", () => {
+    expect(isSameGraph(saved, { edges: saved.edges, nodes: [node("a", { mapping: { x: 2 } }), node("b")] })).toBe(false);
+    expect(isSameGraph(saved, { edges: saved.edges, nodes: [node("a", { mapping: { x: 1 } })] })).toBe(false);
+    expect(isSameGraph(saved, { edges: [edge("a-b", "b", "a")], nodes: saved.nodes })).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Structured diff between two versions of a saved workflow
+ * Nodes and edges are matched by ID; node data is compared field by field down to leaf values
+ */
+
+import { isDeepStrictEqual } from "node:util";
+
+import { NodeConfig, WorkflowDefinitionNode, WorkflowEdge, WorkflowVersion } from "../types/workflow.js";
+
+export interface EdgeEndpoints {
+  source: string;
+  sourceHandle?: null | string;
+  target: string;
+  targetHandle?: null | string;
+}
+
+export interface FieldChange {
+  from: unknown; // undefined when the field was added
+  path: string; // e.g. "data.headers.Authorization"; arrays are compared as a whole
+  to: unknown; // undefined when the field was removed
+}
+
+export interface NodeChange {
+  changes: FieldChange[];
+  nodeId: string;
+}
+
+export interface WorkflowDiff {
+  edges: {
+    added: WorkflowEdge[];
+    removed: WorkflowEdge[];
+    rewired: { edgeId: string; from: EdgeEndpoints; to: EdgeEndpoints }[];
+  };
+  fromVersion: number;
+  metadata: FieldChange[]; // name and description
+  nodes: {
+    added: WorkflowDefinitionNode[];
+    changed: NodeChange[];
+    removed: WorkflowDefinitionNode[];
+  };
+  toVersion: number;
+}
+
+/**
+ * Describe what changed going from one version to another
+ */
+export function diffWorkflowVersions(from: WorkflowVersion, to: WorkflowVersion): WorkflowDiff {
+  const metadata: FieldChange[] = [];
+  diffValue(from.name, to.name, "name", metadata);
+  diffValue(from.description, to.description, "description", metadata);
+
+  const fromNodes = new Map(from.nodes.map((node) => [node.id, node]));
+  const toNodes = new Map(to.nodes.map((node) => [node.id, node]));
+  const changed: NodeChange[] = [];
+  for (const node of to.nodes) {
+    const previous = fromNodes.get(node.id);
+    if (!previous) continue;
+
+    const changes: FieldChange[] = [];
+    for (const field of ["type", "label", "position", "data"] as const) {
+      // position is reported as one change; a moved node is rarely interesting field by field
+      if (field === "position") diffLeaf(previous.position, node.position, field, changes);
+      else diffValue(previous[field], node[field], field, changes);
+    }
+    if (changes.length > 0) changed.push({ changes, nodeId: node.id });
+  }
+
+  const fromEdges = new Map(from.edges.map((edge) => [edge.id, edge]));
+  const toEdges = new Map(to.edges.map((edge) => [edge.id, edge]));
+  const rewired: WorkflowDiff["edges"]["rewired"] = [];
+  for (const edge of to.edges) {
+    const previous = fromEdges.get(edge.id);
+    if (previous && !isDeepStrictEqual(toEndpoints(previous), toEndpoints(edge))) {
+      rewired.push({ edgeId: edge.id, from: toEndpoints(previous), to: toEndpoints(edge) });
+    }
+  }
+
+  return {
+    edges: {
+      added: to.edges.filter((edge) => !fromEdges.has(edge.id)),
+      removed: from.edges.filter((edge) => !toEdges.has(edge.id)),
+      rewired,
+    },
+    fromVersion: from.version,
+    metadata,
+    nodes: {
+      added: to.nodes.filter((node) => !fromNodes.has(node.id)),
+      changed,
+      removed: from.nodes.filter((node) => !toNodes.has(node.id)),
+    },
+    toVersion: to.version,
+  };
+}
+
+/**
+ * Whether two graphs execute the same way: the same nodes and edges by ID, with the same type, label, data and endpoints
+ * Node positions are ignored, so a graph only moved around on the canvas still matches its saved version
+ */
+export function isSameGraph(a: Pick<WorkflowVersion, "edges" | "nodes">, b: { edges: WorkflowEdge[]; nodes: NodeConfig[] }): boolean {
+  const executed = ({ edges, nodes }: { edges: WorkflowEdge[]; nodes: NodeConfig[] }) => ({
+    edges: new Map(edges.map((edge) => [edge.id, toEndpoints(edge)])),
+    nodes: new Map(nodes.map(({ data, id, label, type }) => [id, { data: data ?? {}, label, type }])),
+  });
+  return isDeepStrictEqual(executed(a), executed(b));
+}
+
+function diffLeaf(from: unknown, to: unknown, path: string, changes: FieldChange[]): void {
+  if (!isDeepStrictEqual(from, to)) changes.push({ from, path, to });
+}
+
+/**
+ * Recurse into objects present on both sides; anything else is compared as a leaf
+ */
+function diffValue(from: unknown, to: unknown, path: string, changes: FieldChange[]): void {
+  if (!isPlainObject(from) || !isPlainObject(to)) {
+    diffLeaf(from, to, path, changes);
+    return;
+  }
+
+  const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort();
+  for (const key of keys) {
+    diffValue(from[key], to[key], `${path}.${key}`, changes);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+// Handles are normalized so a null and a missing handle are not reported as a rewire
+function toEndpoints({ source, sourceHandle, target, targetHandle }: WorkflowEdge): EdgeEndpoints {
+  return { source, sourceHandle: sourceHandle ?? undefined, target, targetHandle: targetHandle ?? undefined };
+}
@@ -0,0 +1,96 @@
+import { Server as SocketIOServer } from "socket.io";
+import { describe, expect, it } from "vitest";
+
+import { NodeEvent } from "../types/schemas.js";
+import { WorkflowEventEmitter } from "./workflowEventEmitter.js";
+
+const RUN_ID = "run-1";
+
+function event(nodeId: string, eventType: NodeEvent["eventType"] = "start"): NodeEvent {
+  return { eventType, nodeId, timestamp: Date.now() };
+}
+
+// An emitter with a started run and the events its subscribers received
+function startRun(config: ConstructorParameters<typeof WorkflowEventEmitter>[1] = {}) {
+  const emitter = new WorkflowEventEmitter(new SocketIOServer(), config);
+  emitter.emitWorkflowStarted({ workflowId: RUN_ID });
+  const received: { eventName: string; payload: unknown }[] = [];
+  emitter.subscribe(RUN_ID, (eventName, payload) => received.push({ eventName, payload }));
+  return { emitter, received };
+}
+
+const seqs = (events: undefined | { seq?: number }[]) => events?.map((sequenced) => sequenced.seq);
+
+describe("WorkflowEventEmitter", () => {
+  it("numbers node events per run in emission order, batched or not", () => {
+    const { emitter, received } = startRun({ batchSize: 2 });
+    emitter.emitNodeEvent(RUN_ID, event("a"));
+    emitter.emitNodeEventImmediate(RUN_ID, event("b"));
+    emitter.emitNodeEvent(RUN_ID, event("a", "complete"));
+
+    expect(received).toEqual([
+      { eventName: "workflow:node-event", payload: { count: 1, event: expect.objectContaining({ nodeId: "b", seq: 2 }), workflowId: RUN_ID } },
+      {
+        eventName: "workflow:node-events-batch",
+        payload: { count: 2, events: [expect.objectContaining({ seq: 1 }), expect.objectContaining({ seq: 3 })], workflowId: RUN_ID },
+      },
+    ]);
+  });
+
+  it("flushes pending events before state changes", () => {
+    const { emitter, received } = startRun();
+    emitter.emitNodeEvent(RUN_ID, event("a"));
+    emitter.emitWorkflowState({ state: "paused", workflowId: RUN_ID });
+
+    expect(received.map(({ eventName }) => eventName)).toEqual(["workflow:node-events-batch", "workflow:state"]);
+  });
+
+  it("keeps the latest event of every node as the run's snapshot", () => {
+    const { emitter } = startRun();
+    emitter.emitNodeEventImmediate(RUN_ID, event("a"));
+    emitter.emitNodeEventImmediate(RUN_ID, event("b"));
+    emitter.emitNodeEventImmediate(RUN_ID, event("a", "complete"));
+    emitter.emitWorkflowState({ state: "paused", workflowId: RUN_ID });
+
+    const snapshot = emitter.getSnapshot(RUN_ID);
+    expect(snapshot?.state).toBe("paused");
+    expect(snapshot?.events.map(({ eventType, nodeId, seq }) => ({ eventType, nodeId, seq }))).toEqual([
+      { eventType: "complete", nodeId: "a", seq: 3 },
+      { eventType: "start", nodeId: "b", seq: 2 },
+    ]);
+  });
+
+  describe("replay", () => {
+    it("returns the events after the given seq with the run's state", () => {
+      const { emitter } = startRun();
+      for (const nodeId of ["a", "b", "c"]) emitter.emitNodeEventImmediate(RUN_ID, event(nodeId));
+
+      expect(seqs(emitter.replay(RUN_ID, 0)?.events)).toEqual([1, 2, 3]);
+      expect(emitter.replay(RUN_ID, 1)).toEqual({
+        events: [expect.objectContaining({ nodeId: "b" }), expect.objectContaining({ nodeId: "c" })],
+        state: "running",
+      });
+      expect(emitter.replay(RUN_ID, 3)).toEqual({ events: [], state: "running" });
+    });
+
+    it("gives up once the missed events have left the buffer", () => {
+      const { emitter } = startRun({ replayBufferSize: 2 });
+      for (const nodeId of ["a", "b", "c", "d"]) emitter.emitNodeEventImmediate(RUN_ID, event(nodeId));
+
+      expect(seqs(emitter.replay(RUN_ID, 2)?.events)).toEqual([3, 4]);
+      expect(emitter.replay(RUN_ID, 1)).toBeUndefined();
+    });
+
+    it("forgets the run once it has ended", () => {
+      const { emitter, received } = startRun();
+      emitter.emitNodeEventImmediate(RUN_ID, event("a"));
+      emitter.emitWorkflowComplete({ status: "success", totalTime: 5, workflowId: RUN_ID });
+      emitter.emitNodeEventImmediate(RUN_ID, event("late"));
+
+      expect(emitter.replay(RUN_ID, 0)).toBeUndefined();
+      expect(emitter.getSnapshot(RUN_ID)).toBeUndefined();
+      // Subscribers are dropped with the run's last event
+      expect(received.at(-1)?.eventName).toBe("workflow:complete");
+    });
+  });
+});
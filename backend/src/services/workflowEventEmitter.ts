@@ -1,129 +1,350 @@
 /**
- * Socket.IO Event Emitter Service
- * Handles emitting workflow execution events to connected clients
+ * Workflow Event Emitter Service
+ * Broadcasts workflow execution events to the run's Socket.IO room (see runRoom) and to any other
+ * subscribers of the run (e.g. a Server-Sent Events stream), and hands every node event, log line
+ * and completion to the run recorder for persistence
+ * Runs of a saved workflow are also sent to the sockets watching that workflow (see definitionRoom)
+ * While a run is active the latest event of each node is kept, so sockets joining late get a snapshot
+ * Node events are numbered per run (seq) and the most recent ones are kept, so a client that lost its
+ * connection can get the events it missed (see replay)
+ * Secret values a run uses (see addRedactions) are redacted from everything it sends and records
  */
 
 import { Server as SocketIOServer } from "socket.io";
 
-import { NodeEvent, WorkflowComplete } from "../types/schemas.js";
+import { ApprovalRequired, NodeEvent, WorkflowComplete, WorkflowSnapshot, WorkflowStarted, WorkflowState } from "../types/schemas.js";
+import { NodeLog } from "../types/workflow.js";
+import { redact } from "../utils/redact.js";
+import RunRecorder from "./runRecorder.js";
 
 export interface EventEmitterConfig {
   batchSize?: number;
   batchWindow?: number; // milliseconds
+  replayBufferSize?: number; // Node events kept per active run for replay
 }
 
+/**
+ * Receives a run's events under their socket event names, e.g. "workflow:node-events-batch"
+ */
+export type RunEventListener = (eventName: string, payload: unknown) => void;
+
+type SequencedNodeEvent = NodeEvent & { seq: number };
+
 export class WorkflowEventEmitter {
-  private batchTimers: Map<string, NodeJS.Timeout> = new Map();
+  private batchTimers: Map<string, NodeJS.Timeout> = new Map(); // Workflow ID -> pending flush
   private config: Required<EventEmitterConfig>;
-  private eventQueues: Map<string, NodeEvent[]> = new Map();
+  private eventQueues: Map<string, NodeEvent[]> = new Map(); // Workflow ID -> events not yet sent
   private io: SocketIOServer;
+  private latestNodeEvents: Map<string, Map<string, NodeEvent>> = new Map(); // Workflow ID -> node ID -> latest event
+  private listeners: Map<string, Set<RunEventListener>> = new Map(); // Workflow ID -> subscribers
+  private pausedRuns: Set<string> = new Set();
+  private recorder?: RunRecorder;
+  private redactions: Map<string, Set<string>> = new Map(); // Workflow ID -> secret values used by the run
+  private replayBuffers: Map<string, SequencedNodeEvent[]> = new Map(); // Workflow ID -> most recent events, oldest first
+  private sequences: Map<string, number> = new Map(); // Workflow ID -> seq of the last event
+  private watchedRuns: Map<string, string> = new Map(); // Workflow ID -> definition room
 
-  constructor(io: SocketIOServer, config: EventEmitterConfig = {}) {
+  constructor(io: SocketIOServer, config: EventEmitterConfig = {}, recorder?: RunRecorder) {
     this.io = io;
+    this.recorder = recorder;
     this.config = {
       batchSize: config.batchSize || 10,
       batchWindow: config.batchWindow || 100,
+      replayBufferSize: config.replayBufferSize || 500,
     };
   }
 
   /**
-   * Cleanup when workflow ends
+   * Redact these values from every event, log line and error of the run from now on
    */
-  cleanup(socketId: string, workflowId: string): void {
-    const queueKey = `${socketId}:${workflowId}`;
+  addRedactions(workflowId: string, values: string[]): void {
+    if (!this.redactions.has(workflowId)) {
+      this.redactions.set(workflowId, new Set());
+    }
+    const redactions = this.redactions.get(workflowId)!;
+    for (const value of values) redactions.add(value);
+  }
 
+  /**
+   * Cleanup when workflow ends
+   */
+  cleanup(workflowId: string): void {
     // Flush any remaining events
-    this.flushBatch(socketId, workflowId, queueKey);
+    this.flushBatch(workflowId);
 
     // Clear timer
-    const timer = this.batchTimers.get(queueKey);
+    const timer = this.batchTimers.get(workflowId);
     if (timer) {
       clearTimeout(timer);
-      this.batchTimers.delete(queueKey);
+      this.batchTimers.delete(workflowId);
     }
   }
 
+  /**
+   * Ask the client for an approval decision
+   * Pending node events are flushed first so the node shows as running before the prompt
+   */
+  emitApprovalRequired(approvalRequired: ApprovalRequired): void {
+    this.flushBatch(approvalRequired.workflowId);
+    this.emit(approvalRequired.workflowId, "workflow:approval-required", this.redact(approvalRequired.workflowId, approvalRequired));
+  }
+
   /**
    * Emit a node event to the client
    * Events are batched to reduce WebSocket overhead
    */
-  emitNodeEvent(socketId: string, workflowId: string, event: NodeEvent): void {
-    const queueKey = `${socketId}:${workflowId}`;
+  emitNodeEvent(workflowId: string, event: NodeEvent): void {
+    const sequenced = this.recordNodeEvent(workflowId, event);
 
-    if (!this.eventQueues.has(queueKey)) {
-      this.eventQueues.set(queueKey, []);
+    if (!this.eventQueues.has(workflowId)) {
+      this.eventQueues.set(workflowId, []);
     }
 
-    const queue = this.eventQueues.get(queueKey)!;
-    queue.push(event);
+    const queue = this.eventQueues.get(workflowId)!;
+    queue.push(sequenced);
 
     // Flush if batch size reached
     if (queue.length >= this.config.batchSize) {
-      this.flushBatch(socketId, workflowId, queueKey);
-    } else if (!this.batchTimers.has(queueKey)) {
+      this.flushBatch(workflowId);
+    } else if (!this.batchTimers.has(workflowId)) {
       // Schedule flush after batch window
       const timer = setTimeout(() => {
-        this.flushBatch(socketId, workflowId, queueKey);
+        this.flushBatch(workflowId);
       }, this.config.batchWindow);
 
-      this.batchTimers.set(queueKey, timer);
+      this.batchTimers.set(workflowId, timer);
     }
   }
 
   /**
    * Emit events immediately without batching (for critical events)
    */
-  emitNodeEventImmediate(socketId: string, workflowId: string, event: NodeEvent): void {
-    this.io.to(socketId).emit("workflow:node-event", {
+  emitNodeEventImmediate(workflowId: string, event: NodeEvent): void {
+    this.emit(workflowId, "workflow:node-event", {
       count: 1,
-      event,
+      event: this.recordNodeEvent(workflowId, event),
       workflowId,
     });
   }
 
   /**
    * Emit workflow completion event
+   * This is the last event of a run, so its subscribers are dropped afterwards
    */
-  emitWorkflowComplete(socketId: string, workflowComplete: WorkflowComplete): void {
-    this.io.to(socketId).emit("workflow:complete", workflowComplete);
+  emitWorkflowComplete(workflowComplete: WorkflowComplete): void {
+    this.recorder?.completeRun(workflowComplete);
+    this.emit(workflowComplete.workflowId, "workflow:complete", workflowComplete);
+    this.endRun(workflowComplete.workflowId);
   }
 
   /**
    * Emit workflow error event
+   * Ends the run like a completion does
    */
-  emitWorkflowError(socketId: string, workflowId: string, code: string = "WORKFLOW_ERROR", error?: string): void {
-    this.io.to(socketId).emit("workflow:error", {
+  emitWorkflowError(workflowId: string, code: string = "WORKFLOW_ERROR", message?: string, retryable?: boolean): void {
+    const error = message && this.redact(workflowId, message);
+    this.recorder?.failRun(workflowId, error ?? code);
+    this.emit(workflowId, "workflow:error", {
       code,
       error,
+      retryable,
       workflowId,
     });
+    this.endRun(workflowId);
+  }
+
+  /**
+   * Announce a run that has just been started and start keeping its snapshot
+   */
+  emitWorkflowStarted(workflowStarted: WorkflowStarted): void {
+    this.latestNodeEvents.set(workflowStarted.workflowId, new Map());
+    this.replayBuffers.set(workflowStarted.workflowId, []);
+    this.sequences.set(workflowStarted.workflowId, 0);
+    this.emit(workflowStarted.workflowId, "workflow:started", workflowStarted);
+  }
+
+  /**
+   * Emit a run state change (paused/running)
+   * Pending node events are flushed first so the client sees them before the state change
+   */
+  emitWorkflowState(workflowState: WorkflowState): void {
+    this.flushBatch(workflowState.workflowId);
+    if (workflowState.state === "paused") this.pausedRuns.add(workflowState.workflowId);
+    else this.pausedRuns.delete(workflowState.workflowId);
+    this.emit(workflowState.workflowId, "workflow:state", workflowState);
+  }
+
+  /**
+   * Current state of an active run: whether it is paused and the latest event of every node so far
+   * Undefined once the run has ended
+   */
+  getSnapshot(workflowId: string): undefined | WorkflowSnapshot {
+    const latest = this.latestNodeEvents.get(workflowId);
+    if (!latest) return undefined;
+
+    return {
+      events: [...latest.values()],
+      state: this.pausedRuns.has(workflowId) ? "paused" : "running",
+      status: "running",
+      workflowId,
+    };
+  }
+
+  /**
+   * Add a socket to a run's room, e.g. the socket that started it
+   */
+  joinRun(socketId: string, workflowId: string): void {
+    this.io.in(socketId).socketsJoin(runRoom(workflowId));
+  }
+
+  /**
+   * Record a node's log entry; clients receive log entries with the node's running events instead
+   */
+  recordNodeLog(workflowId: string, nodeId: string, log: NodeLog): void {
+    this.recorder?.recordNodeLog(workflowId, nodeId, this.redact(workflowId, log));
+  }
+
+  /**
+   * Node events of an active run after afterSeq, with the run's current state, for a client that lost its connection
+   * Undefined once the run has ended or when some of those events have already left the replay buffer
+   */
+  replay(workflowId: string, afterSeq: number): Pick<WorkflowSnapshot, "events" | "state"> | undefined {
+    const buffer = this.replayBuffers.get(workflowId);
+    if (!buffer) return undefined;
+
+    const oldest = buffer[0]?.seq ?? (this.sequences.get(workflowId) ?? 0) + 1;
+    if (afterSeq + 1 < oldest) return undefined;
+
+    return {
+      events: buffer.filter((event) => event.seq > afterSeq),
+      state: this.pausedRuns.has(workflowId) ? "paused" : "running",
+    };
+  }
+
+  /**
+   * Receive every event of a run from now on, until it completes or the returned function is called
+   */
+  subscribe(workflowId: string, listener: RunEventListener): () => void {
+    if (!this.listeners.has(workflowId)) {
+      this.listeners.set(workflowId, new Set());
+    }
+    this.listeners.get(workflowId)!.add(listener);
+
+    return () => {
+      const listeners = this.listeners.get(workflowId);
+      listeners?.delete(listener);
+      if (listeners?.size === 0) this.listeners.delete(workflowId);
+    };
+  }
+
+  /**
+   * Also send a run's events to the sockets watching its saved workflow, until it ends
+   */
+  watchRun(workflowId: string, definitionId: string): void {
+    this.watchedRuns.set(workflowId, definitionRoom(definitionId));
+  }
+
+  /**
+   * Send an event to the run's room, to the watchers of its workflow and to the run's subscribers
+   * A socket in both rooms receives the event once
+   */
+  private emit(workflowId: string, eventName: string, payload: unknown): void {
+    const watchers = this.watchedRuns.get(workflowId);
+    this.io.to(watchers ? [runRoom(workflowId), watchers] : runRoom(workflowId)).emit(eventName, payload);
+
+    for (const listener of this.listeners.get(workflowId) ?? []) {
+      try {
+        listener(eventName, payload);
+      } catch (error) {
+        console.error(`[EventEmitter] Subscriber of ${workflowId} failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Forget everything kept for a run once its last event has been sent
+   */
+  private endRun(workflowId: string): void {
+    this.latestNodeEvents.delete(workflowId);
+    this.listeners.delete(workflowId);
+    this.pausedRuns.delete(workflowId);
+    this.redactions.delete(workflowId);
+    this.replayBuffers.delete(workflowId);
+    this.sequences.delete(workflowId);
+    this.watchedRuns.delete(workflowId);
+    // Nothing is sent to the room after the run's last event
+    this.io.in(runRoom(workflowId)).socketsLeave(runRoom(workflowId));
   }
 
   /**
    * Flush batched events
    */
-  private flushBatch(socketId: string, workflowId: string, queueKey: string): void {
-    const queue = this.eventQueues.get(queueKey);
+  private flushBatch(workflowId: string): void {
+    const queue = this.eventQueues.get(workflowId);
 
     if (!queue || queue.length === 0) return;
 
     // Clear timer if exists
-    const timer = this.batchTimers.get(queueKey);
+    const timer = this.batchTimers.get(workflowId);
     if (timer) {
       clearTimeout(timer);
-      this.batchTimers.delete(queueKey);
+      this.batchTimers.delete(workflowId);
     }
 
     // Emit batch
-    this.io.to(socketId).emit("workflow:node-events-batch", {
+    this.emit(workflowId, "workflow:node-events-batch", {
       count: queue.length,
       events: queue,
       workflowId,
     });
 
     // Clear queue
-    this.eventQueues.delete(queueKey);
+    this.eventQueues.delete(workflowId);
   }
+
+  /**
+   * Persist a node event with the run's secrets redacted, number it and keep it for snapshots and replay
+   * Returns the numbered event, which is what clients receive
+   */
+  private recordNodeEvent(workflowId: string, nodeEvent: NodeEvent): SequencedNodeEvent {
+    const event = this.redact(workflowId, nodeEvent);
+    this.recorder?.recordNodeEvent(workflowId, event);
+
+    const seq = (this.sequences.get(workflowId) ?? 0) + 1;
+    // Events reported after the run has ended are not kept
+    if (this.sequences.has(workflowId)) this.sequences.set(workflowId, seq);
+    const sequenced = { ...event, seq };
+
+    this.latestNodeEvents.get(workflowId)?.set(event.nodeId, sequenced);
+    const buffer = this.replayBuffers.get(workflowId);
+    if (buffer) {
+      buffer.push(sequenced);
+      if (buffer.length > this.config.replayBufferSize) buffer.shift();
+    }
+    return sequenced;
+  }
+
+  /**
+   * Copy of a value with the run's secret values redacted
+   */
+  private redact<T>(workflowId: string, value: T): T {
+    const redactions = this.redactions.get(workflowId);
+    return redactions ? redact(value, redactions) : value;
+  }
+}
+
+/**
+ * Socket.IO room of the sockets watching a saved workflow's runs, whoever started them
+ */
+export function definitionRoom(definitionId: string): string {
+  return `definition:${definitionId}`;
+}
+
+/**
+ * Socket.IO room of the sockets following one run: the socket that started it and every workflow:subscribe
+ */
+export function runRoom(workflowId: string): string {
+  return `run:${workflowId}`;
 }
 
 export default WorkflowEventEmitter;
@@ -0,0 +1,510 @@
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { Server as SocketIOServer } from "socket.io";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { ApprovalRequired, WorkflowComplete } from "../types/schemas.js";
+import { NodeConfig, NodeEvent, WorkflowEdge, WorkflowRunOptions } from "../types/workflow.js";
+import WorkflowEventEmitter from "./workflowEventEmitter.js";
+import WorkflowExecutor from "./workflowExecutor.js";
+
+// Stub server: /delay/<ms> answers after ms, /flaky/<key>/<n> answers 503 n times per key and 200 afterwards
+let server: Server;
+let baseUrl: string;
+const flakyCalls = new Map<string, number>();
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const [, route, ...args] = (request.url ?? "").split("/");
+    const reply = (status: number) => response.writeHead(status, { "content-type": "application/json" }).end(JSON.stringify({ status }));
+
+    if (route === "delay") {
+      setTimeout(() => reply(200), Number(args[0]));
+    } else if (route === "flaky") {
+      const calls = (flakyCalls.get(args[0]) ?? 0) + 1;
+      flakyCalls.set(args[0], calls);
+      reply(calls <= Number(args[1]) ? 503 : 200);
+    } else {
+      reply(404);
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const RUN_ID = "run-1";
+
+interface RunOutcome {
+  complete: WorkflowComplete;
+  events: NodeEvent[]; // In emission order
+  last: Map<string, NodeEvent>; // Node ID -> final event
+  results: Map<string, unknown>;
+}
+
+function api(id: string, path: string, data: Record<string, unknown> = {}): NodeConfig {
+  return { data: { url: `${baseUrl}${path}`, ...data }, id, type: "api" };
+}
+
+// A node that fails right away with INVALID_NODE_CONFIG
+function broken(id: string): NodeConfig {
+  return { data: {}, id, type: "transform" };
+}
+
+function edge(source: string, target: string, sourceHandle?: string): WorkflowEdge {
+  return { id: `${source}-${target}`, source, sourceHandle, target };
+}
+
+// A node that completes with its (template-resolved) mapping
+function mapping(id: string, fields: Record<string, unknown>): NodeConfig {
+  return { data: { mapping: fields }, id, type: "transform" };
+}
+
+/**
+ * Execute a graph to completion and collect the events it emitted
+ */
+async function runWorkflow(
+  nodes: NodeConfig[],
+  edges: WorkflowEdge[] = [],
+  options: WorkflowRunOptions = {},
+  control?: (executor: WorkflowExecutor, emitter: WorkflowEventEmitter) => void, // Called once the run has started, e.g. to cancel it
+): Promise<RunOutcome> {
+  const emitter = new WorkflowEventEmitter(new SocketIOServer());
+  const workflowId = RUN_ID;
+  const events: NodeEvent[] = [];
+  const last = new Map<string, NodeEvent>();
+  let complete: undefined | WorkflowComplete;
+
+  emitter.emitWorkflowStarted({ workflowId });
+  emitter.subscribe(workflowId, (eventName, payload) => {
+    const received =
+      eventName === "workflow:node-events-batch"
+        ? (payload as { events: NodeEvent[] }).events
+        : eventName === "workflow:node-event"
+          ? [(payload as { event: NodeEvent }).event]
+          : [];
+    for (const event of received) {
+      events.push(event);
+      last.set(event.nodeId, event);
+    }
+    if (eventName === "workflow:complete") complete = payload as WorkflowComplete;
+  });
+
+  const results = new Map<string, unknown>();
+  const executor = new WorkflowExecutor({ edges, inputs: {}, nodeResults: results, nodes, options, startTime: Date.now(), workflowId }, emitter);
+  const execution = executor.execute();
+  control?.(executor, emitter);
+  await execution;
+
+  expect(complete).toBeDefined();
+  return { complete: complete!, events, last, results };
+}
+
+function statuses({ last }: RunOutcome): Record<string, unknown> {
+  return Object.fromEntries([...last].map(([nodeId, event]) => [nodeId, event.payload?.status]));
+}
+
+describe("WorkflowExecutor", () => {
+  describe("DAG execution", () => {
+    it("runs nodes in dependency order and passes results along edges", async () => {
+      const outcome = await runWorkflow(
+        [
+          { id: "start", type: "start" },
+          mapping("answer", { value: 42 }),
+          mapping("label", { text: "value is {{ nodes.answer.result.value }}" }),
+          { id: "result", type: "result" },
+        ],
+        [edge("start", "answer"), edge("answer", "label"), edge("label", "result")],
+      );
+
+      expect(outcome.complete.status).toBe("success");
+      expect(outcome.events.filter((event) => event.eventType === "start").map((event) => event.nodeId)).toEqual([
+        "start",
+        "answer",
+        "label",
+        "result",
+      ]);
+      expect(outcome.results.get("result")).toEqual({ label: { text: "value is 42" } });
+    });
+
+    it("runs independent branches in parallel and joins them", async () => {
+      const startedAt = Date.now();
+      const outcome = await runWorkflow(
+        [{ id: "start", type: "start" }, api("left", "/delay/200"), api("right", "/delay/200"), { id: "result", type: "result" }],
+        [edge("start", "left"), edge("start", "right"), edge("left", "result"), edge("right", "result")],
+      );
+
+      expect(outcome.complete.status).toBe("success");
+      expect(Date.now() - startedAt).toBeLessThan(380);
+      expect(Object.keys(outcome.results.get("result") as object).sort()).toEqual(["left", "right"]);
+    });
+
+    it("stops a failed branch while independent branches finish", async () => {
+      const outcome = await runWorkflow(
+        [{ id: "start", type: "start" }, broken("bad"), mapping("after-bad", {}), mapping("good", { ok: true })],
+        [edge("start", "bad"), edge("bad", "after-bad"), edge("start", "good")],
+      );
+
+      expect(outcome.complete).toMatchObject({ failedNodes: ["bad"], status: "failed" });
+      expect(statuses(outcome)).toEqual({ bad: "error", good: "completed", start: "completed" });
+      expect(outcome.last.get("bad")?.payload?.errorCode).toBe("INVALID_NODE_CONFIG");
+    });
+  });
+
+  describe("cancellation", () => {
+    it("aborts running nodes and skips the ones that never started", async () => {
+      const startedAt = Date.now();
+      const outcome = await runWorkflow(
+        [{ id: "start", type: "start" }, api("slow", "/delay/2000"), { id: "result", type: "result" }],
+        [edge("start", "slow"), edge("slow", "result")],
+        {},
+        (executor) => setTimeout(() => executor.cancel(), 100),
+      );
+
+      expect(outcome.complete.status).toBe("cancelled");
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+      expect(statuses(outcome)).toEqual({ result: "skipped", slow: "cancelled", start: "completed" });
+    });
+  });
+
+  describe("retries", () => {
+    const retry = { initialDelayMs: 10, jitter: 0, maxAttempts: 3 };
+
+    it("retries transient errors with backoff until an attempt succeeds", async () => {
+      const outcome = await runWorkflow([api("flaky", "/flaky/recovers/2", { retry })]);
+
+      const complete = outcome.last.get("flaky")!;
+      expect(complete.payload).toMatchObject({ attempt: 3, status: "completed" });
+      expect(complete.payload?.retryHistory?.map(({ attempt, errorCode, retryDelayMs }) => ({ attempt, errorCode, retryDelayMs }))).toEqual([
+        { attempt: 1, errorCode: "HTTP_ERROR", retryDelayMs: 10 },
+        { attempt: 2, errorCode: "HTTP_ERROR", retryDelayMs: 20 },
+      ]);
+    });
+
+    it("fails once maxAttempts is reached and marks the error retryable", async () => {
+      const outcome = await runWorkflow([api("flaky", "/flaky/exhausted/5", { retry })]);
+
+      expect(outcome.last.get("flaky")?.payload).toMatchObject({ attempt: 3, errorCode: "HTTP_ERROR", retryable: true, status: "error" });
+      expect(flakyCalls.get("exhausted")).toBe(3);
+    });
+
+    it("does not retry errors retrying cannot fix", async () => {
+      const outcome = await runWorkflow([api("missing", "/missing", { retry })]);
+
+      expect(outcome.last.get("missing")?.payload).toMatchObject({ attempt: 1, retryable: false, status: "error" });
+    });
+  });
+
+  describe("timeouts", () => {
+    it("fails a node that exceeds its timeoutMs", async () => {
+      const outcome = await runWorkflow([{ id: "start", type: "start" }, api("slow", "/delay/2000", { timeoutMs: 100 })], [edge("start", "slow")]);
+
+      expect(outcome.complete).toMatchObject({ failedNodes: ["slow"], status: "failed", timedOutNodes: ["slow"] });
+      expect(outcome.last.get("slow")?.payload).toMatchObject({ errorCode: "TIMEOUT", status: "error" });
+    });
+
+    it("applies nodeTimeoutMs to nodes without their own timeout", async () => {
+      const outcome = await runWorkflow([api("slow", "/delay/2000")], [], { nodeTimeoutMs: 100 });
+
+      expect(outcome.last.get("slow")?.payload?.errorCode).toBe("TIMEOUT");
+    });
+
+    it("cancels everything still running once the workflow deadline passes", async () => {
+      const outcome = await runWorkflow(
+        [{ id: "start", type: "start" }, api("slow", "/delay/2000"), { id: "result", type: "result" }],
+        [edge("start", "slow"), edge("slow", "result")],
+        { deadlineMs: 100 },
+      );
+
+      expect(outcome.complete).toMatchObject({ status: "timeout", timedOutNodes: ["slow"] });
+      expect(statuses(outcome)).toEqual({ result: "skipped", slow: "cancelled", start: "completed" });
+    });
+  });
+
+  describe("condition nodes", () => {
+    async function runBranch(expression: unknown) {
+      return runWorkflow(
+        [
+          { id: "start", type: "start" },
+          mapping("user", { age: 30, role: "admin" }),
+          { data: { expression }, id: "check", type: "condition" },
+          mapping("yes", {}),
+          mapping("no", {}),
+          mapping("after-no", {}),
+        ],
+        [edge("start", "user"), edge("user", "check"), edge("check", "yes", "true"), edge("check", "no", "false"), edge("no", "after-no")],
+      );
+    }
+
+    it("takes the true branch and skips the other one with its descendants", async () => {
+      const outcome = await runBranch("nodes.user.result.age >= 18");
+
+      expect(outcome.complete.status).toBe("success");
+      expect(outcome.results.get("check")).toEqual({ branch: "true", value: true });
+      expect(statuses(outcome)).toMatchObject({ "after-no": "skipped", no: "skipped", yes: "completed" });
+      expect(outcome.last.get("check")?.payload?.skippedEdges).toEqual(["check-no"]);
+    });
+
+    it("takes the false branch of a falsy expression", async () => {
+      const outcome = await runBranch("nodes.user.result.role == 'guest'");
+
+      expect(statuses(outcome)).toMatchObject({ "after-no": "completed", no: "completed", yes: "skipped" });
+    });
+
+    it("uses the value of a string-valued {{ }} template as-is", async () => {
+      const outcome = await runBranch("{{ nodes.user.result.role }}");
+
+      expect(outcome.complete.status).toBe("success");
+      expect(outcome.results.get("check")).toEqual({ branch: "true", value: "admin" });
+    });
+
+    it("evaluates a {{ }} template holding a comparison once", async () => {
+      const outcome = await runBranch("{{ nodes.user.result.role == 'admin' }}");
+
+      expect(outcome.results.get("check")).toEqual({ branch: "true", value: true });
+    });
+
+    it("fails on text mixing a template with an expression instead of always taking the true branch", async () => {
+      const outcome = await runBranch("{{ nodes.user.result.role }} == 'guest'");
+
+      expect(outcome.complete.status).toBe("failed");
+      expect(outcome.last.get("check")?.payload?.errorCode).toBe("INVALID_NODE_CONFIG");
+      expect(outcome.results.has("yes")).toBe(false);
+    });
+
+    it("accepts a boolean expression", async () => {
+      const outcome = await runBranch(false);
+
+      expect(outcome.results.get("check")).toEqual({ branch: "false", value: false });
+    });
+  });
+
+  describe("forEach nodes", () => {
+    function loop(data: Record<string, unknown>, body: NodeConfig) {
+      return runWorkflow(
+        [{ id: "start", type: "start" }, { data, id: "each", type: "forEach" }, body, { id: "result", type: "result" }],
+        [edge("start", "each"), edge("each", body.id, "item"), edge("each", "result", "done")],
+      );
+    }
+
+    it("runs the loop body once per item and collects the results in order", async () => {
+      const outcome = await loop(
+        { items: [1, 2, 3] },
+        mapping("body", { index: "{{ nodes.each.result.index }}", item: "{{ nodes.each.result.item }}" }),
+      );
+
+      expect(outcome.complete.status).toBe("success");
+      expect(outcome.results.get("each")).toEqual({
+        errors: [],
+        results: [
+          { index: 0, item: 1 },
+          { index: 1, item: 2 },
+          { index: 2, item: 3 },
+        ],
+      });
+      expect(outcome.last.get("each")?.payload?.status).toBe("completed");
+    });
+
+    it("bounds how many items run at once", async () => {
+      const startedAt = Date.now();
+      const outcome = await loop({ concurrency: 2, items: [1, 2, 3, 4] }, api("body", "/delay/150"));
+
+      expect(outcome.complete.status).toBe("success");
+      const elapsed = Date.now() - startedAt;
+      expect(elapsed).toBeGreaterThanOrEqual(300);
+      expect(elapsed).toBeLessThan(580);
+    });
+
+    it("fails on the first failed item in stop mode", async () => {
+      const outcome = await loop({ items: [1, 2] }, broken("body"));
+
+      expect(outcome.complete.status).toBe("failed");
+      expect(outcome.last.get("each")?.payload).toMatchObject({ errorCode: "ITERATION_FAILED", status: "error" });
+      expect(outcome.last.has("result")).toBe(false);
+    });
+
+    it("reports failed items in collect mode and carries on", async () => {
+      const outcome = await loop({ errorMode: "collect", items: ["/delay/1", "/missing"] }, api("body", "{{ nodes.each.result.item }}"));
+
+      expect(outcome.complete.status).toBe("success");
+      expect(outcome.results.get("each")).toMatchObject({
+        errors: [{ errorCode: "ITERATION_FAILED", index: 1 }],
+        results: [{ status: 200 }, null],
+      });
+      expect(outcome.last.get("each")?.payload?.logs).toEqual([
+        expect.objectContaining({ fields: { errorCode: "ITERATION_FAILED", index: 1 }, level: "warning" }),
+      ]);
+    });
+  });
+
+  describe("node logs and progress", () => {
+    it("streams log entries and progress as coalesced running events, and ends with every log entry", async () => {
+      const outcome = await runWorkflow(
+        [
+          { id: "start", type: "start" },
+          { data: { concurrency: 1, errorMode: "collect", items: ["/missing", "/delay/150", "/delay/150"] }, id: "each", type: "forEach" },
+          api("body", "{{ nodes.each.result.item }}"),
+        ],
+        [edge("start", "each"), edge("each", "body", "item")],
+      );
+
+      const warning = {
+        fields: { errorCode: "ITERATION_FAILED", index: 0 },
+        level: "warning",
+        message: expect.stringContaining("404"),
+        timestamp: expect.any(Number),
+      };
+      // Running events after the first one, which only announces the attempt
+      const updates = outcome.events
+        .filter((event) => event.nodeId === "each" && event.eventType === "running" && event.payload?.progress !== undefined)
+        .map(({ payload }) => payload);
+      // Five updates (progress 0, the warning, then progress 33, 67 and 100) arrive as fewer running events
+      expect(updates.length).toBeGreaterThan(0);
+      expect(updates.length).toBeLessThan(5);
+      expect(updates[0]).toMatchObject({ logs: [warning], progress: 33, status: "running" });
+      expect(updates.map((payload) => payload?.progress)).toEqual([...updates.map((payload) => payload?.progress)].sort());
+
+      expect(outcome.last.get("each")?.payload).toMatchObject({ logs: [warning], status: "completed" });
+      expect(outcome.last.get("body")?.payload?.logs).toEqual([
+        {
+          fields: { durationMs: expect.any(Number), status: 200 },
+          level: "info",
+          message: expect.stringMatching(/^GET .* responded 200$/),
+          timestamp: expect.any(Number),
+        },
+      ]);
+    });
+  });
+
+  describe("merge nodes", () => {
+    function merge(data: Record<string, unknown>, left: NodeConfig, right: NodeConfig) {
+      return runWorkflow(
+        [{ id: "start", type: "start" }, left, right, { data, id: "merge", type: "merge" }],
+        [edge("start", left.id), edge("start", right.id), edge(left.id, "merge"), edge(right.id, "merge")],
+      );
+    }
+
+    it("waits for every parent in all mode, keyed by ID or label", async () => {
+      const byId = await merge({}, mapping("a", { v: 1 }), api("b", "/delay/50"));
+      expect(byId.results.get("merge")).toEqual({ a: { v: 1 }, b: expect.objectContaining({ status: 200 }) });
+
+      const byLabel = await merge({ keyBy: "label" }, { ...mapping("a", { v: 1 }), label: "left" }, { ...mapping("b", { v: 2 }), label: "right" });
+      expect(byLabel.results.get("merge")).toEqual({ left: { v: 1 }, right: { v: 2 } });
+    });
+
+    it("never runs in all mode once a parent has failed", async () => {
+      const outcome = await merge({ mode: "all" }, broken("a"), mapping("b", {}));
+
+      expect(outcome.last.has("merge")).toBe(false);
+    });
+
+    it("starts on the first parent to finish in any mode, even a failed one", async () => {
+      const outcome = await merge({ mode: "any" }, broken("a"), api("b", "/delay/200"));
+
+      expect(outcome.results.get("merge")).toEqual({});
+      expect(outcome.last.get("merge")?.payload?.status).toBe("completed");
+    });
+
+    it("only receives the first parent to succeed in first mode", async () => {
+      const outcome = await merge({ mode: "first" }, api("slow", "/delay/200"), mapping("fast", { v: 1 }));
+
+      expect(outcome.results.get("merge")).toEqual({ fast: { v: 1 } });
+    });
+
+    it("is skipped in first mode when every parent fails", async () => {
+      const outcome = await merge({ mode: "first" }, broken("a"), broken("b"));
+
+      expect(outcome.last.get("merge")?.payload?.status).toBe("skipped");
+    });
+  });
+
+  describe("pause and resume", () => {
+    it("lets running nodes finish but starts no new node until resumed", async () => {
+      let resumedAt = 0;
+      const outcome = await runWorkflow(
+        [{ id: "start", type: "start" }, api("slow", "/delay/100"), mapping("after", {})],
+        [edge("start", "slow"), edge("slow", "after")],
+        {},
+        (executor) => {
+          setTimeout(() => executor.pause(), 20);
+          setTimeout(() => {
+            resumedAt = Date.now();
+            executor.resume();
+          }, 300);
+        },
+      );
+
+      expect(outcome.complete.status).toBe("success");
+      const slowEnd = outcome.events.find((event) => event.nodeId === "slow" && event.eventType === "complete")!.timestamp;
+      const afterStart = outcome.events.find((event) => event.nodeId === "after" && event.eventType === "start")!.timestamp;
+      expect(slowEnd).toBeLessThan(resumedAt);
+      expect(afterStart).toBeGreaterThanOrEqual(resumedAt);
+    });
+  });
+
+  describe("approval nodes", () => {
+    // Answers the first approval request of the run with the given decision
+    function respondWith(decision: "approve" | "reject", comment?: string) {
+      return (executor: WorkflowExecutor, emitter: WorkflowEventEmitter) => {
+        emitter.subscribe(RUN_ID, (eventName, payload) => {
+          if (eventName !== "workflow:approval-required") return;
+          const { approvalId } = payload as ApprovalRequired;
+          setTimeout(() => executor.respondToApproval(approvalId, { comment, decision }), 10);
+        });
+      };
+    }
+
+    const nodes: NodeConfig[] = [
+      { id: "start", type: "start" },
+      mapping("order", { total: 120 }),
+      { data: { message: "Ship order of {{ nodes.order.result.total }}?" }, id: "approve", type: "approval" },
+      mapping("ship", {}),
+    ];
+    const edges = [edge("start", "order"), edge("order", "approve"), edge("approve", "ship")];
+
+    it("continues the branch once approved", async () => {
+      const outcome = await runWorkflow(nodes, edges, {}, respondWith("approve", "ok"));
+
+      expect(outcome.complete.status).toBe("success");
+      expect(outcome.results.get("approve")).toMatchObject({ approved: true, comment: "ok" });
+      const waiting = outcome.events.find((event) => event.nodeId === "approve" && event.payload?.pendingApproval);
+      expect(waiting?.payload?.pendingApproval?.message).toBe("Ship order of 120?");
+    });
+
+    it("fails the branch when rejected", async () => {
+      const outcome = await runWorkflow(nodes, edges, {}, respondWith("reject", "too expensive"));
+
+      expect(outcome.complete).toMatchObject({ failedNodes: ["approve"], status: "failed" });
+      expect(outcome.last.get("approve")?.payload).toMatchObject({ error: "Rejected: too expensive", errorCode: "APPROVAL_REJECTED" });
+      expect(outcome.last.has("ship")).toBe(false);
+    });
+
+    it("fails with APPROVAL_TIMEOUT when nobody responds in time", async () => {
+      const outcome = await runWorkflow([{ data: { approvalTimeoutMs: 50 }, id: "approve", type: "approval" }]);
+
+      expect(outcome.last.get("approve")?.payload?.errorCode).toBe("APPROVAL_TIMEOUT");
+    });
+
+    it("is not bounded by the node timeouts while the approval is pending", async () => {
+      const approval: NodeConfig = { data: { approvalTimeoutMs: 200, timeoutMs: 20 }, id: "approve", type: "approval" };
+      const approved = await runWorkflow([approval], [], { nodeTimeoutMs: 20 }, (executor, emitter) => {
+        emitter.subscribe(RUN_ID, (eventName, payload) => {
+          if (eventName !== "workflow:approval-required") return;
+          setTimeout(() => executor.respondToApproval((payload as ApprovalRequired).approvalId, { decision: "approve" }), 60);
+        });
+      });
+      expect(approved.complete.status).toBe("success");
+
+      const requests: unknown[] = [];
+      const expired = await runWorkflow([{ ...approval, data: { approvalTimeoutMs: 60 } }], [], { nodeTimeoutMs: 20 }, (_executor, emitter) => {
+        emitter.subscribe(RUN_ID, (eventName) => eventName === "workflow:approval-required" && requests.push(eventName));
+      });
+      expect(expired.last.get("approve")?.payload?.errorCode).toBe("APPROVAL_TIMEOUT");
+      expect(requests).toHaveLength(1);
+    });
+  });
+});
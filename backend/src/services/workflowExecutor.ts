@@ -0,0 +1,604 @@
+/**
+ * Workflow Executor
+ * Runs a workflow as a DAG: a node starts once every incoming edge has resolved,
+ * so independent branches execute in parallel. Edges not taken by a condition node
+ * are dead; a node whose incoming edges are all dead is skipped and its edges die too.
+ * Merge nodes in any/first mode start on the first parent to finish (or succeed) instead of waiting for all.
+ * A forEach node's loop body runs in a child executor once per item
+ * Credentials an api node references are decrypted just before it runs, and redacted from everything the run reports
+ */
+
+import { randomUUID } from "node:crypto";
+
+import {
+  ApprovalDecision,
+  ApprovalRequest,
+  NodeConfig,
+  NodeHandlerContext,
+  NodeLog,
+  PendingApproval,
+  RetryAttempt,
+  SecretResolver,
+  WorkflowEdge,
+  WorkflowExecutionContext,
+} from "../types/workflow.js";
+import { PauseGate } from "../utils/pauseGate.js";
+import { sleep } from "../utils/sleep.js";
+import { ConditionNodeResult } from "./nodes/conditionNode.js";
+import { nodeHandlers } from "./nodes/index.js";
+import { getMergeMode } from "./nodes/mergeNode.js";
+import { NodeExecutionError } from "./nodes/nodeExecutionError.js";
+import { PendingApprovals } from "./pendingApprovals.js";
+import { getRetryClass, getRetryDelay, parseRetryPolicy, shouldRetry } from "./retryPolicy.js";
+import { buildTemplateScope, findSecretReferences, resolveTemplates } from "./templating/templateEngine.js";
+import WorkflowEventEmitter from "./workflowEventEmitter.js";
+import { buildGraph, findLoopBody, topologicalSort, WorkflowGraph } from "./workflowGraph.js";
+
+// Most recent log entries kept per node, matching the client's cap
+const MAX_NODE_LOGS = 100;
+
+// Log entries and progress reported within this window are sent together in one running event
+const RUNNING_EVENT_INTERVAL_MS = 100;
+
+type EdgeState = "dead" | "failed" | "live";
+
+export class WorkflowExecutor {
+  private abortController = new AbortController();
+  private context: WorkflowExecutionContext;
+  private emitter: WorkflowEventEmitter;
+  private failedNodes: string[] = [];
+  private graph: WorkflowGraph = { children: new Map(), outgoing: new Map(), parents: new Map() };
+  private liveEdges: Map<string, number> = new Map(); // Node ID -> incoming edges that will carry a result
+  private loopBodies: Map<string, string[]> = new Map(); // forEach node ID -> body node IDs
+  private mergeTriggers: Map<string, string> = new Map(); // any/first merge node ID -> parent that started it
+  private nodeErrors: Map<string, unknown> = new Map();
+  private nodesById: Map<string, NodeConfig>;
+  private pauseGate = new PauseGate(); // Shared with child executors so pausing also holds back loop bodies
+  private pendingApprovals = new PendingApprovals(); // Shared with child executors so approvals inside loop bodies can be answered
+  private pendingEdges: Map<string, number> = new Map(); // Node ID -> incoming edges not yet resolved
+  private resolveSecrets?: SecretResolver;
+  private seededNodes: Set<string> = new Set(); // Nodes whose result was provided up front
+  private skippedNodes: Set<string> = new Set();
+  private startedNodes: Set<string> = new Set();
+  private timedOutNodes: string[] = [];
+
+  constructor(context: WorkflowExecutionContext, emitter: WorkflowEventEmitter, resolveSecrets?: SecretResolver) {
+    this.context = context;
+    this.emitter = emitter;
+    this.resolveSecrets = resolveSecrets;
+    this.nodesById = new Map(context.nodes.map((node) => [node.id, node]));
+  }
+
+  /**
+   * Cancel the run: aborts in-flight node work and prevents new nodes from starting
+   */
+  cancel(): void {
+    this.abortController.abort(new NodeExecutionError("Workflow cancelled", "CANCELLED"));
+  }
+
+  /**
+   * Execute the workflow and report completion to the client
+   * Never throws: execution errors are emitted as workflow:error
+   */
+  async execute(): Promise<void> {
+    const { options, workflowId } = this.context;
+
+    // Once the deadline passes, abort everything still running or pending
+    const deadlineTimer = options.deadlineMs
+      ? setTimeout(() => {
+          this.abortController.abort(new NodeExecutionError(`Workflow deadline of ${options.deadlineMs}ms exceeded`, "TIMEOUT"));
+        }, options.deadlineMs)
+      : undefined;
+
+    try {
+      const order = await this.run();
+
+      const { aborted, reason } = this.abortController.signal;
+      const deadlineExceeded = aborted && isTimeout(reason);
+      if (aborted) this.skipPendingNodes(order);
+
+      // Flush pending node events before reporting completion
+      this.emitter.cleanup(workflowId);
+      this.emitter.emitWorkflowComplete({
+        failedNodes: this.failedNodes,
+        status: deadlineExceeded ? "timeout" : aborted ? "cancelled" : this.failedNodes.length > 0 ? "failed" : "success",
+        timedOutNodes: this.timedOutNodes,
+        totalTime: Date.now() - this.context.startTime,
+        workflowId,
+      });
+    } catch (error) {
+      console.error(`[Workflow] Execution error:`, error);
+      this.emitter.cleanup(workflowId);
+      this.emitter.emitWorkflowError(workflowId, "EXECUTION_ERROR", error instanceof Error ? error.message : "Unknown error", false);
+    } finally {
+      clearTimeout(deadlineTimer);
+    }
+  }
+
+  /**
+   * Pause the run: nodes already running finish, but no new node starts until resume()
+   */
+  pause(): void {
+    this.pauseGate.pause();
+    this.emitter.emitWorkflowState({ state: "paused", workflowId: this.context.workflowId });
+  }
+
+  /**
+   * Deliver a client's decision to a waiting approval node
+   * Returns false if no approval with that ID is pending
+   */
+  respondToApproval(approvalId: string, decision: Omit<ApprovalDecision, "respondedAt">): boolean {
+    return this.pendingApprovals.respond(approvalId, decision);
+  }
+
+  /**
+   * Resume a paused run with the results gathered so far
+   */
+  resume(): void {
+    this.pauseGate.resume();
+    this.emitter.emitWorkflowState({ state: "running", workflowId: this.context.workflowId });
+  }
+
+  /**
+   * Results a node receives as inputs: every parent that has completed
+   * A first-mode merge only receives the parent that started it
+   */
+  private getInputs(node: NodeConfig): Record<string, unknown> {
+    const { nodeResults } = this.context;
+    const trigger = this.mergeTriggers.get(node.id);
+    const parentIds = trigger !== undefined && getMergeMode(node) === "first" ? [trigger] : this.graph.parents.get(node.id)!;
+    return Object.fromEntries(parentIds.filter((parentId) => nodeResults.has(parentId)).map((parentId) => [parentId, nodeResults.get(parentId)]));
+  }
+
+  /**
+   * Outgoing edges of a completed node that were (or were not) taken
+   * A condition node only takes the edges leaving its true or false handle
+   */
+  private getOutgoingEdges(node: NodeConfig, result: unknown, taken: boolean): WorkflowEdge[] {
+    return this.graph.outgoing.get(node.id)!.filter((edge) => {
+      const isTaken = node.type !== "condition" || edge.sourceHandle === (result as ConditionNodeResult).branch;
+      return isTaken === taken;
+    });
+  }
+
+  /**
+   * Resolve one incoming edge of its target node
+   * Returns the nodes that became ready to run; nodes left with only dead edges are skipped on the way
+   */
+  private resolveEdge(edge: WorkflowEdge, state: EdgeState): string[] {
+    const target = this.nodesById.get(edge.target)!;
+    const pending = this.pendingEdges.get(edge.target)! - 1;
+    this.pendingEdges.set(edge.target, pending);
+    if (state === "live") this.liveEdges.set(edge.target, this.liveEdges.get(edge.target)! + 1);
+
+    const mergeMode = target.type === "merge" ? getMergeMode(target) : "all";
+    if (mergeMode !== "all") {
+      if (this.mergeTriggers.has(edge.target)) return [];
+      if (state === "live" || (state === "failed" && mergeMode === "any")) {
+        this.mergeTriggers.set(edge.target, edge.source);
+        return [edge.target];
+      }
+      return pending > 0 ? [] : this.skipNode(edge.target);
+    }
+
+    if (pending > 0) return [];
+    if (this.liveEdges.get(edge.target)! > 0) return [edge.target];
+    return this.skipNode(edge.target);
+  }
+
+  /**
+   * Schedule every node in the context until all reachable nodes have settled
+   * Nodes that already have a result are treated as completed without running; loop bodies are left to their forEach
+   * Returns the topological order of the scheduled nodes
+   */
+  private async run(): Promise<string[]> {
+    const { edges, nodeResults, nodes } = this.context;
+
+    for (const node of nodes) {
+      if (nodeResults.has(node.id)) this.seededNodes.add(node.id);
+    }
+    for (const node of nodes) {
+      if (node.type === "forEach" && !this.seededNodes.has(node.id)) this.loopBodies.set(node.id, findLoopBody(node.id, edges));
+    }
+
+    const bodyNodeIds = new Set([...this.loopBodies.values()].flat());
+    const scheduledNodes = nodes.filter((node) => !bodyNodeIds.has(node.id));
+    this.graph = buildGraph(
+      scheduledNodes,
+      edges.filter((edge) => !bodyNodeIds.has(edge.source) && !bodyNodeIds.has(edge.target)),
+    );
+    const order = topologicalSort(scheduledNodes, this.graph);
+
+    for (const nodeId of order) {
+      this.pendingEdges.set(nodeId, this.graph.parents.get(nodeId)!.length);
+      this.liveEdges.set(nodeId, 0);
+    }
+
+    const roots = order.filter((nodeId) => this.pendingEdges.get(nodeId) === 0);
+    await Promise.all(roots.map((nodeId) => this.visit(nodeId)));
+    return order;
+  }
+
+  /**
+   * Run one attempt of a node's handler, bounded by its timeout
+   * Approval nodes wait for a person, so only their approvalTimeoutMs bounds them
+   * The handler's signal aborts on cancellation or timeout; a handler that ignores it is abandoned
+   */
+  private async runAttempt(node: NodeConfig, handlerContext: Omit<NodeHandlerContext, "signal" | "workflow">): Promise<unknown> {
+    const timeoutMs = node.type === "approval" ? undefined : (getNodeTimeout(node) ?? this.context.options.nodeTimeoutMs);
+    const timeoutController = new AbortController();
+    const signal = AbortSignal.any([this.abortController.signal, timeoutController.signal]);
+    const timer = timeoutMs
+      ? setTimeout(() => timeoutController.abort(new NodeExecutionError(`Node timed out after ${timeoutMs}ms`, "TIMEOUT")), timeoutMs)
+      : undefined;
+
+    try {
+      return await Promise.race([
+        nodeHandlers[node.type](node, { ...handlerContext, signal, workflow: this.context }),
+        new Promise<never>((_resolve, reject) => {
+          if (signal.aborted) reject(signal.reason);
+          signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Run a forEach node's loop body for one item in a child executor that shares this run's emitter
+   * Resolves with the output of the body's final nodes; rejects with ITERATION_FAILED when a body node fails
+   */
+  private async runLoopBody(loopNode: NodeConfig, item: unknown, index: number, signal: AbortSignal): Promise<unknown> {
+    const bodyNodeIds = this.loopBodies.get(loopNode.id) ?? [];
+    const body = new Set(bodyNodeIds);
+    const nodeResults = new Map(this.context.nodeResults).set(loopNode.id, { index, item });
+
+    const child = new WorkflowExecutor(
+      {
+        ...this.context,
+        edges: this.context.edges.filter((edge) => body.has(edge.target)),
+        nodeResults,
+        nodes: [loopNode, ...bodyNodeIds.map((nodeId) => this.nodesById.get(nodeId)!)],
+      },
+      this.emitter,
+      this.resolveSecrets,
+    );
+    child.pauseGate = this.pauseGate;
+    child.pendingApprovals = this.pendingApprovals;
+
+    const onAbort = () => child.abortController.abort(signal.reason);
+    if (signal.aborted) onAbort();
+    signal.addEventListener("abort", onAbort, { once: true });
+    try {
+      await child.run();
+    } finally {
+      signal.removeEventListener("abort", onAbort);
+    }
+
+    if (signal.aborted) throw signal.reason;
+
+    const [failedNodeId] = child.failedNodes;
+    if (failedNodeId !== undefined) {
+      const error = child.nodeErrors.get(failedNodeId);
+      throw new NodeExecutionError(
+        `Item ${index} failed at node ${failedNodeId}: ${error instanceof Error ? error.message : "Unknown error"}`,
+        "ITERATION_FAILED",
+        { errorCode: error instanceof NodeExecutionError ? error.code : undefined, index, nodeId: failedNodeId },
+      );
+    }
+
+    // The body's output comes from its final nodes; nodes inside a nested loop report through their forEach
+    const sinks = bodyNodeIds.filter((nodeId) => child.graph.outgoing.get(nodeId)?.length === 0);
+    if (sinks.length === 1) return nodeResults.get(sinks[0]) ?? null;
+    return Object.fromEntries(sinks.filter((nodeId) => nodeResults.has(nodeId)).map((nodeId) => [nodeId, nodeResults.get(nodeId)]));
+  }
+
+  /**
+   * Run a single node and emit its start and complete/error/cancelled events
+   * In between, running events carry the attempt, log entries and progress reported by its handler
+   * Resolves with whether the node succeeded
+   */
+  private async runNode(node: NodeConfig): Promise<boolean> {
+    const { nodeResults, workflowId } = this.context;
+    const { signal } = this.abortController;
+    const nodeStartTime = Date.now();
+    const retryHistory: RetryAttempt[] = [];
+    const logs: NodeLog[] = [];
+    let attempt = 1;
+    let pendingApproval: PendingApproval | undefined;
+    let progress: number | undefined;
+    let resolvedTemplates: Record<string, unknown> | undefined;
+    let runningTimer: NodeJS.Timeout | undefined;
+
+    const emitRunning = (timestamp: number) => {
+      clearTimeout(runningTimer);
+      runningTimer = undefined;
+      this.emitter.emitNodeEvent(workflowId, {
+        eventType: "running",
+        nodeId: node.id,
+        payload: {
+          attempt,
+          logs: [...logs],
+          pendingApproval,
+          progress,
+          resolvedTemplates,
+          retryHistory: [...retryHistory],
+          startTime: nodeStartTime,
+          status: "running",
+        },
+        timestamp,
+      });
+    };
+
+    // Coalesces a burst of log entries and progress updates into one running event
+    const scheduleRunning = () => {
+      runningTimer ??= setTimeout(() => emitRunning(Date.now()), RUNNING_EVENT_INTERVAL_MS);
+    };
+
+    // Handler output is ignored once the node has settled (e.g. an abandoned handler still logging)
+    let settled = false;
+    const settle = () => {
+      settled = true;
+      clearTimeout(runningTimer);
+    };
+
+    const log: NodeHandlerContext["log"] = (message, { fields, level = "info" } = {}) => {
+      if (settled) return;
+      const entry: NodeLog = { fields, level, message, timestamp: Date.now() };
+      logs.push(entry);
+      if (logs.length > MAX_NODE_LOGS) logs.shift();
+      this.emitter.recordNodeLog(workflowId, node.id, entry);
+      scheduleRunning();
+    };
+
+    const requestApproval = async ({ context, message, signal, timeoutMs }: ApprovalRequest) => {
+      const approvalId = randomUUID();
+      const expiresAt = timeoutMs ? Date.now() + timeoutMs : undefined;
+
+      pendingApproval = { approvalId, expiresAt, message };
+      emitRunning(Date.now());
+      this.emitter.emitApprovalRequired({ approvalId, context, expiresAt, message, nodeId: node.id, workflowId });
+
+      try {
+        return await this.pendingApprovals.wait(approvalId, signal, timeoutMs);
+      } finally {
+        pendingApproval = undefined;
+      }
+    };
+
+    const reportProgress = (value: number) => {
+      if (settled) return;
+      progress = Math.min(100, Math.max(0, value));
+      scheduleRunning();
+    };
+
+    this.startedNodes.add(node.id);
+    this.emitter.emitNodeEvent(workflowId, {
+      eventType: "start",
+      nodeId: node.id,
+      payload: {
+        startTime: nodeStartTime,
+        status: "running",
+      },
+      timestamp: nodeStartTime,
+    });
+
+    const inputs = this.getInputs(node);
+
+    try {
+      const scope = buildTemplateScope(this.context);
+      const secretFields = node.type === "api" ? findSecretReferences(node.data ?? {}) : new Map<string, string[]>();
+      if (secretFields.size > 0) {
+        if (!this.resolveSecrets) throw new NodeExecutionError("Credentials are not available to this run", "CREDENTIAL_ERROR");
+        scope.secrets = await this.resolveSecrets([...secretFields.values()].flat());
+      }
+
+      const deferredFields = getDeferredFields(node);
+      const templatedData = Object.fromEntries(Object.entries(node.data ?? {}).filter(([key]) => !Object.hasOwn(deferredFields, key)));
+      const resolution = resolveTemplates(templatedData, scope);
+      if (scope.secrets) {
+        // A field built from a secret (e.g. {{ urlEncode(secrets.id) }}) is as sensitive as the secret itself
+        const fieldValues = [...secretFields.keys()].map((path) => resolution.resolved[path]).filter((value) => typeof value === "string");
+        this.emitter.addRedactions(workflowId, [...Object.values(scope.secrets), ...fieldValues]);
+      }
+      const resolvedNode: NodeConfig = { ...node, data: { ...resolution.data, ...deferredFields } };
+      resolvedTemplates = resolution.resolved;
+
+      const policy = parseRetryPolicy(resolvedNode);
+      let result: unknown;
+
+      for (; ; attempt++) {
+        const attemptStartTime = Date.now();
+        emitRunning(attemptStartTime);
+
+        try {
+          result = await this.runAttempt(resolvedNode, {
+            inputs,
+            log,
+            reportProgress,
+            requestApproval,
+            runLoopBody: (item, index, itemSignal) => this.runLoopBody(node, item, index, itemSignal),
+          });
+          break;
+        } catch (error) {
+          if (signal.aborted || !shouldRetry(policy, attempt, error)) throw error;
+
+          const retryDelayMs = getRetryDelay(policy, attempt, error);
+          retryHistory.push({
+            attempt,
+            endTime: Date.now(),
+            error: error instanceof Error ? error.message : "Unknown error",
+            errorCode: error instanceof NodeExecutionError ? error.code : undefined,
+            retryDelayMs,
+            startTime: attemptStartTime,
+          });
+          await sleep(retryDelayMs, signal);
+        }
+      }
+
+      const nodeEndTime = Date.now();
+      settle();
+
+      nodeResults.set(node.id, result);
+      this.emitter.emitNodeEvent(workflowId, {
+        eventType: "complete",
+        nodeId: node.id,
+        payload: {
+          attempt,
+          endTime: nodeEndTime,
+          logs,
+          resolvedTemplates,
+          result,
+          retryHistory,
+          skippedEdges: this.getOutgoingEdges(node, result, false).map((edge) => edge.id),
+          startTime: nodeStartTime,
+          status: "completed",
+        },
+        timestamp: nodeEndTime,
+      });
+      return true;
+    } catch (error) {
+      const nodeEndTime = Date.now();
+      settle();
+
+      if (signal.aborted) {
+        // Nodes cut off by the workflow deadline count as timed out
+        const deadlineExceeded = isTimeout(signal.reason);
+        if (deadlineExceeded) this.timedOutNodes.push(node.id);
+
+        this.emitter.emitNodeEvent(workflowId, {
+          eventType: "cancelled",
+          nodeId: node.id,
+          payload: {
+            endTime: nodeEndTime,
+            error: deadlineExceeded ? signal.reason.message : undefined,
+            errorCode: deadlineExceeded ? signal.reason.code : undefined,
+            logs,
+            startTime: nodeStartTime,
+            status: "cancelled",
+          },
+          timestamp: nodeEndTime,
+        });
+        return false;
+      }
+
+      this.failedNodes.push(node.id);
+      this.nodeErrors.set(node.id, error);
+      if (isTimeout(error)) this.timedOutNodes.push(node.id);
+      this.emitter.emitNodeEvent(workflowId, {
+        eventType: "error",
+        nodeId: node.id,
+        payload: {
+          attempt,
+          endTime: nodeEndTime,
+          error: error instanceof Error ? error.message : "Unknown error",
+          errorCode: error instanceof NodeExecutionError ? error.code : "NODE_ERROR",
+          errorDetails: error instanceof NodeExecutionError ? error.details : undefined,
+          errorStack: error instanceof Error ? error.stack : undefined,
+          logs,
+          resolvedTemplates,
+          retryable: getRetryClass(error) !== undefined,
+          retryHistory,
+          startTime: nodeStartTime,
+          status: "error",
+        },
+        timestamp: nodeEndTime,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Skip a node on an untaken branch and mark all of its outgoing edges dead
+   * Returns descendants that are still ready to run through another live edge
+   */
+  private skipNode(nodeId: string): string[] {
+    const { workflowId } = this.context;
+    const outgoing = this.graph.outgoing.get(nodeId)!;
+
+    this.skippedNodes.add(nodeId);
+    this.emitter.emitNodeEvent(workflowId, {
+      eventType: "skipped",
+      nodeId,
+      payload: { skippedEdges: outgoing.map((edge) => edge.id), status: "skipped" },
+      timestamp: Date.now(),
+    });
+
+    return outgoing.flatMap((edge) => this.resolveEdge(edge, "dead"));
+  }
+
+  /**
+   * Mark every node that never started as skipped after a cancellation
+   */
+  private skipPendingNodes(order: string[]): void {
+    const { workflowId } = this.context;
+    const timestamp = Date.now();
+
+    for (const nodeId of order) {
+      if (this.startedNodes.has(nodeId) || this.skippedNodes.has(nodeId) || this.seededNodes.has(nodeId)) continue;
+
+      this.emitter.emitNodeEvent(workflowId, {
+        eventType: "skipped",
+        nodeId,
+        payload: { status: "skipped" },
+        timestamp,
+      });
+    }
+  }
+
+  /**
+   * Run a node, then every descendant whose incoming edges have now all resolved
+   * Edges leaving a failed node only resolve towards any/first merges; other descendants are never started
+   */
+  private async visit(nodeId: string): Promise<void> {
+    if (this.abortController.signal.aborted) return;
+
+    const node = this.nodesById.get(nodeId)!;
+    if (!this.seededNodes.has(nodeId)) {
+      await this.pauseGate.wait(this.abortController.signal);
+      if (this.abortController.signal.aborted) return;
+    }
+
+    const succeeded = this.seededNodes.has(nodeId) || (await this.runNode(node));
+    if (this.abortController.signal.aborted) return;
+
+    const result = this.context.nodeResults.get(nodeId);
+    const ready = succeeded
+      ? [
+          ...this.getOutgoingEdges(node, result, true).flatMap((edge) => this.resolveEdge(edge, "live")),
+          ...this.getOutgoingEdges(node, result, false).flatMap((edge) => this.resolveEdge(edge, "dead")),
+        ]
+      : this.graph.outgoing
+          .get(nodeId)!
+          .filter((edge) => {
+            const target = this.nodesById.get(edge.target)!;
+            return target.type === "merge" && getMergeMode(target) !== "all";
+          })
+          .flatMap((edge) => this.resolveEdge(edge, "failed"));
+
+    await Promise.all(ready.map((readyId) => this.visit(readyId)));
+  }
+}
+
+/**
+ * Fields of node.data whose templates the handler resolves itself: a condition's expression,
+ * so a template resolving to a string is not evaluated a second time as an expression
+ */
+function getDeferredFields(node: NodeConfig): Record<string, unknown> {
+  return node.type === "condition" && node.data && Object.hasOwn(node.data, "expression") ? { expression: node.data.expression } : {};
+}
+
+/**
+ * Per-node timeout from node.data.timeoutMs
+ */
+function getNodeTimeout(node: NodeConfig): number | undefined {
+  const timeoutMs = node.data?.timeoutMs;
+  return typeof timeoutMs === "number" && timeoutMs > 0 ? timeoutMs : undefined;
+}
+
+function isTimeout(error: unknown): error is NodeExecutionError {
+  return error instanceof NodeExecutionError && error.code === "TIMEOUT";
+}
+
+export default WorkflowExecutor;
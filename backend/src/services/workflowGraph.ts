@@ -0,0 +1,96 @@
+/**
+ * Graph helpers for workflow definitions
+ * Builds adjacency lists from edges, orders nodes topologically and finds forEach loop bodies and descendants
+ */
+
+import { NodeConfig, WorkflowEdge } from "../types/workflow.js";
+
+export interface WorkflowGraph {
+  children: Map<string, string[]>;
+  outgoing: Map<string, WorkflowEdge[]>;
+  parents: Map<string, string[]>;
+}
+
+/**
+ * Build parent/child adjacency lists and outgoing edges keyed by node ID
+ */
+export function buildGraph(nodes: NodeConfig[], edges: WorkflowEdge[]): WorkflowGraph {
+  const children = new Map<string, string[]>(nodes.map((node) => [node.id, []]));
+  const parents = new Map<string, string[]>(nodes.map((node) => [node.id, []]));
+  const outgoing = new Map<string, WorkflowEdge[]>(nodes.map((node) => [node.id, []]));
+
+  for (const edge of edges) {
+    if (!children.has(edge.source) || !parents.has(edge.target)) {
+      throw new Error(`Edge ${edge.id} references an unknown node`);
+    }
+
+    children.get(edge.source)!.push(edge.target);
+    outgoing.get(edge.source)!.push(edge);
+    parents.get(edge.target)!.push(edge.source);
+  }
+
+  return { children, outgoing, parents };
+}
+
+/**
+ * Every node reachable from a node through any edge, not including the node itself
+ */
+export function findDescendants(nodeId: string, edges: WorkflowEdge[]): string[] {
+  const descendants = new Set<string>();
+  const queue = [nodeId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.source !== current || descendants.has(edge.target) || edge.target === nodeId) continue;
+      descendants.add(edge.target);
+      queue.push(edge.target);
+    }
+  }
+
+  return [...descendants];
+}
+
+/**
+ * Nodes inside a forEach node's loop body: everything reachable from its item handle
+ */
+export function findLoopBody(loopNodeId: string, edges: WorkflowEdge[]): string[] {
+  const body = new Set<string>();
+  const queue = edges.filter((edge) => edge.source === loopNodeId && edge.sourceHandle === "item").map((edge) => edge.target);
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (body.has(nodeId) || nodeId === loopNodeId) continue;
+    body.add(nodeId);
+    queue.push(...edges.filter((edge) => edge.source === nodeId).map((edge) => edge.target));
+  }
+
+  return [...body];
+}
+
+/**
+ * Order node IDs so every node comes after all of its parents (Kahn's algorithm)
+ * Throws if the graph contains a cycle
+ */
+export function topologicalSort(nodes: NodeConfig[], graph: WorkflowGraph): string[] {
+  const inDegree = new Map(nodes.map((node) => [node.id, graph.parents.get(node.id)!.length]));
+  const queue = nodes.filter((node) => inDegree.get(node.id) === 0).map((node) => node.id);
+  const order: string[] = [];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    order.push(nodeId);
+
+    for (const child of graph.children.get(nodeId)!) {
+      const degree = inDegree.get(child)! - 1;
+      inDegree.set(child, degree);
+      if (degree === 0) queue.push(child);
+    }
+  }
+
+  if (order.length !== nodes.length) {
+    throw new Error("Workflow contains a cycle");
+  }
+
+  return order;
+}
@@ -0,0 +1,34 @@
+/**
+ * Registry of active workflow runs
+ * Tracks each run's executor, so it can be looked up for cancel/pause/resume, and who may control it
+ */
+
+import WorkflowExecutor from "./workflowExecutor.js";
+
+export interface ActiveRun {
+  definitionId?: string; // Saved workflow whose editors may control the run
+  executor: WorkflowExecutor;
+  socketId?: string; // Socket that started the run, or took it over after reconnecting; without authentication only it may control the run
+  startedBy?: string; // User who started the run
+}
+
+export class WorkflowRegistry {
+  private runs: Map<string, ActiveRun> = new Map();
+
+  get(workflowId: string): ActiveRun | undefined {
+    return this.runs.get(workflowId);
+  }
+
+  /**
+   * Track a run until its execution settles
+   */
+  register(workflowId: string, run: ActiveRun): void {
+    this.runs.set(workflowId, run);
+  }
+
+  unregister(workflowId: string): void {
+    this.runs.delete(workflowId);
+  }
+}
+
+export default WorkflowRegistry;
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { InMemoryScheduleRepository } from "../api/v1/repositories/inMemoryScheduleRepository.js";
+import { InMemoryWorkflowRepository } from "../api/v1/repositories/inMemoryWorkflowRepository.js";
+import { ScheduleTrigger, WorkflowSchedule } from "../types/workflow.js";
+import RunService, { RunDefinition } from "./runService.js";
+import WorkflowScheduler from "./workflowScheduler.js";
+
+const at = (iso: string) => Date.parse(iso);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(at("2026-01-01T00:00:30Z"));
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+async function setup() {
+  // Only execute and isActive are used by the scheduler; started runs are recorded and stay active until finished
+  const started: RunDefinition[] = [];
+  const active = new Set<string>();
+  const runService = {
+    execute: (definition: RunDefinition) => {
+      const runId = `run-${started.push(definition)}`;
+      active.add(runId);
+      return runId;
+    },
+    isActive: (runId: string) => active.has(runId),
+  } as unknown as RunService;
+
+  const scheduleRepository = new InMemoryScheduleRepository();
+  const workflowRepository = new InMemoryWorkflowRepository();
+  const workflow = await workflowRepository.create({ edges: [], name: "Nightly", nodes: [] });
+  const scheduler = new WorkflowScheduler(scheduleRepository, workflowRepository, runService);
+
+  const scheduledFor = () => started.map((run) => new Date((run.trigger as ScheduleTrigger).scheduledFor).toISOString());
+  const finishAll = () => active.clear();
+  // A schedule saved before the scheduler (re)started, e.g. by a previous process
+  const stored = (overrides: Partial<WorkflowSchedule>) =>
+    scheduleRepository.save({
+      createdAt: 0,
+      cron: "* * * * *",
+      definitionId: workflow.id,
+      id: "stored",
+      inputs: {},
+      missedRunPolicy: "skip",
+      nextRunAt: at("2026-01-01T00:01:00Z"),
+      paused: false,
+      timezone: "UTC",
+      updatedAt: 0,
+      ...overrides,
+    });
+
+  return { finishAll, scheduledFor, scheduler, scheduleRepository, started, stored, workflow, workflowRepository };
+}
+
+describe("WorkflowScheduler", () => {
+  it("rejects invalid crons and time zones and crons that never match", async () => {
+    const { scheduler, workflow } = await setup();
+    const create = (cron: string, timezone = "UTC") => scheduler.create(workflow.id, { cron, inputs: {}, missedRunPolicy: "skip", timezone });
+
+    await expect(create("every minute")).rejects.toMatchObject({ code: "INVALID_CRON" });
+    await expect(create("0 0 30 2 *")).rejects.toMatchObject({ code: "INVALID_CRON" });
+    await expect(create("* * * * *", "Nowhere/Special")).rejects.toMatchObject({ code: "INVALID_TIMEZONE" });
+  });
+
+  it("runs the latest version of the workflow at each occurrence with a schedule trigger", async () => {
+    const { finishAll, scheduledFor, scheduler, started, workflow, workflowRepository } = await setup();
+    const schedule = await scheduler.create(workflow.id, { cron: "* * * * *", inputs: { region: "eu" }, missedRunPolicy: "skip", timezone: "UTC" });
+    expect(schedule.nextRunAt).toBe(at("2026-01-01T00:01:00Z"));
+    await workflowRepository.update(workflow.id, { name: "Nightly v2" });
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(31_000);
+    finishAll();
+    await vi.advanceTimersByTimeAsync(60_000);
+    scheduler.stop();
+
+    expect(scheduledFor()).toEqual(["2026-01-01T00:01:00.000Z", "2026-01-01T00:02:00.000Z"]);
+    expect(started[0]).toMatchObject({
+      definitionId: workflow.id,
+      definitionVersion: 2,
+      inputs: { region: "eu" },
+      trigger: { cron: "* * * * *", scheduleId: schedule.id, timezone: "UTC", type: "schedule" },
+    });
+    expect(scheduler.get(schedule.id)).toMatchObject({ lastRunId: "run-2", nextRunAt: at("2026-01-01T00:03:00Z") });
+  });
+
+  it("skips occurrences missed while the server was down", async () => {
+    const { scheduler, scheduleRepository, started, stored } = await setup();
+    vi.setSystemTime(at("2026-01-01T00:10:30Z"));
+    await stored({ missedRunPolicy: "skip" });
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    scheduler.stop();
+
+    expect(started).toEqual([]);
+    expect((await scheduleRepository.list())[0].nextRunAt).toBe(at("2026-01-01T00:11:00Z"));
+  });
+
+  it("catches up on the most recent missed occurrences one run at a time", async () => {
+    const { finishAll, scheduledFor, scheduler, stored } = await setup();
+    vi.setSystemTime(at("2026-01-01T00:15:30Z"));
+    await stored({ missedRunPolicy: "catchUp" });
+
+    await scheduler.start();
+    for (let i = 0; i < 12; i++) {
+      await vi.advanceTimersByTimeAsync(1000);
+      finishAll();
+    }
+    scheduler.stop();
+
+    expect(scheduledFor()).toEqual([6, 7, 8, 9, 10, 11, 12, 13, 14, 15].map((minute) => `2026-01-01T00:${String(minute).padStart(2, "0")}:00.000Z`));
+    expect(scheduler.get("stored")?.nextRunAt).toBe(at("2026-01-01T00:16:00Z"));
+  });
+
+  it("does not overlap a run still active from the previous occurrence", async () => {
+    const { finishAll, scheduledFor, scheduler, workflow } = await setup();
+    await scheduler.create(workflow.id, { cron: "* * * * *", inputs: {}, missedRunPolicy: "skip", timezone: "UTC" });
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(31_000); // 00:01 runs and keeps running
+    await vi.advanceTimersByTimeAsync(60_000); // 00:02 is missed
+    finishAll();
+    await vi.advanceTimersByTimeAsync(60_000); // 00:03 runs
+    scheduler.stop();
+
+    expect(scheduledFor()).toEqual(["2026-01-01T00:01:00.000Z", "2026-01-01T00:03:00.000Z"]);
+  });
+
+  it("does not run paused schedules, and resumes from the first occurrence after now", async () => {
+    const { scheduler, started, workflow } = await setup();
+    const schedule = await scheduler.create(workflow.id, { cron: "* * * * *", inputs: {}, missedRunPolicy: "catchUp", timezone: "UTC" });
+    await scheduler.setPaused(schedule.id, true);
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(5 * 60_000);
+    const resumed = await scheduler.setPaused(schedule.id, false);
+    scheduler.stop();
+
+    expect(started).toEqual([]);
+    expect(resumed?.nextRunAt).toBe(at("2026-01-01T00:06:00Z"));
+  });
+
+  it("deletes schedules whose workflow no longer exists", async () => {
+    const { scheduler, scheduleRepository, started, workflow, workflowRepository } = await setup();
+    const schedule = await scheduler.create(workflow.id, { cron: "* * * * *", inputs: {}, missedRunPolicy: "skip", timezone: "UTC" });
+    await workflowRepository.delete(workflow.id);
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(31_000);
+    scheduler.stop();
+
+    expect(started).toEqual([]);
+    expect(scheduler.get(schedule.id)).toBeUndefined();
+    expect(await scheduleRepository.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Workflow Scheduler
+ * Runs the latest saved version of workflows on cron schedules; runs it starts carry a schedule trigger
+ * Schedules are persisted and reloaded on startup, so occurrences missed while the server was down are
+ * handled by each schedule's missed run policy
+ * A schedule never overlaps itself: an occurrence due while its previous run is still active counts as missed
+ */
+
+import { randomUUID } from "node:crypto";
+
+import { ScheduleRepository } from "../api/v1/repositories/scheduleRepository.js";
+import { WorkflowRepository } from "../api/v1/repositories/workflowRepository.js";
+import { CreateScheduleRequest } from "../types/schemas.js";
+import { WorkflowSchedule } from "../types/workflow.js";
+import { CronError, CronExpression, isValidTimeZone, nextOccurrence, parseCron } from "./cronExpression.js";
+import RunService, { RunStartError } from "./runService.js";
+
+// An occurrence that could not start within this long of its time is missed
+const MISFIRE_GRACE_MS = 60_000;
+// Catching up runs at most this many missed occurrences, the most recent ones
+const MAX_CATCH_UP_RUNS = 10;
+const TICK_INTERVAL_MS = 1000;
+
+/**
+ * Thrown when a schedule cannot be created
+ * code is INVALID_CRON or INVALID_TIMEZONE
+ */
+export class ScheduleError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = "ScheduleError";
+    this.code = code;
+  }
+}
+
+export class WorkflowScheduler {
+  private expressions: Map<string, CronExpression> = new Map(); // Schedule ID -> parsed cron
+  private runService: RunService;
+  private scheduleRepository: ScheduleRepository;
+  private schedules: Map<string, WorkflowSchedule> = new Map();
+  private ticking = false;
+  private timer?: NodeJS.Timeout;
+  private workflowRepository: WorkflowRepository;
+
+  constructor(scheduleRepository: ScheduleRepository, workflowRepository: WorkflowRepository, runService: RunService) {
+    this.scheduleRepository = scheduleRepository;
+    this.workflowRepository = workflowRepository;
+    this.runService = runService;
+  }
+
+  /**
+   * Add a schedule to a saved workflow; its first occurrence is the first one after now
+   * Throws ScheduleError (INVALID_CRON or INVALID_TIMEZONE)
+   */
+  async create(definitionId: string, { cron, inputs, missedRunPolicy, timezone }: CreateScheduleRequest): Promise<WorkflowSchedule> {
+    const expression = parseExpression(cron);
+    if (!isValidTimeZone(timezone)) throw new ScheduleError("INVALID_TIMEZONE", `Unknown time zone ${timezone}`);
+
+    const now = Date.now();
+    const nextRunAt = nextOccurrence(expression, timezone, now);
+    if (nextRunAt === undefined) throw new ScheduleError("INVALID_CRON", `${cron} never matches a date`);
+
+    const schedule: WorkflowSchedule = {
+      createdAt: now,
+      cron,
+      definitionId,
+      id: randomUUID(),
+      inputs,
+      missedRunPolicy,
+      nextRunAt,
+      paused: false,
+      timezone,
+      updatedAt: now,
+    };
+    await this.scheduleRepository.save(schedule);
+    this.schedules.set(schedule.id, schedule);
+    this.expressions.set(schedule.id, expression);
+    return structuredClone(schedule);
+  }
+
+  /**
+   * Returns false if the schedule does not exist
+   */
+  async delete(id: string): Promise<boolean> {
+    if (!this.schedules.has(id)) return false;
+
+    await this.scheduleRepository.delete(id);
+    this.forget(id);
+    return true;
+  }
+
+  /**
+   * Drop every schedule of a workflow, e.g. because it was deleted
+   */
+  async deleteByDefinition(definitionId: string): Promise<void> {
+    await this.scheduleRepository.deleteByDefinition(definitionId);
+    for (const schedule of this.schedules.values()) {
+      if (schedule.definitionId === definitionId) this.forget(schedule.id);
+    }
+  }
+
+  get(id: string): undefined | WorkflowSchedule {
+    const schedule = this.schedules.get(id);
+    return schedule && structuredClone(schedule);
+  }
+
+  /**
+   * All schedules, or those of one workflow, oldest first
+   */
+  list(definitionId?: string): WorkflowSchedule[] {
+    return [...this.schedules.values()]
+      .filter((schedule) => definitionId === undefined || schedule.definitionId === definitionId)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((schedule) => structuredClone(schedule));
+  }
+
+  /**
+   * Pause or resume a schedule; returns undefined if it does not exist
+   * Resuming continues from the first occurrence after now: occurrences passed while paused are never run
+   */
+  async setPaused(id: string, paused: boolean): Promise<undefined | WorkflowSchedule> {
+    const schedule = this.schedules.get(id);
+    if (!schedule) return undefined;
+
+    if (schedule.paused !== paused) {
+      schedule.paused = paused;
+      if (!paused) schedule.nextRunAt = nextOccurrence(this.expressions.get(id)!, schedule.timezone, Date.now());
+      await this.persist(schedule);
+    }
+    return structuredClone(schedule);
+  }
+
+  /**
+   * Load the stored schedules and start checking for due occurrences
+   * Schedules whose cron or time zone no longer parses are logged and left out
+   */
+  async start(): Promise<void> {
+    for (const schedule of await this.scheduleRepository.list()) {
+      try {
+        if (!isValidTimeZone(schedule.timezone)) throw new ScheduleError("INVALID_TIMEZONE", `Unknown time zone ${schedule.timezone}`);
+        this.expressions.set(schedule.id, parseExpression(schedule.cron));
+        this.schedules.set(schedule.id, schedule);
+      } catch (error) {
+        console.error(`[Scheduler] Ignoring schedule ${schedule.id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    console.log(`[Scheduler] Loaded ${this.schedules.size} schedule(s)`);
+
+    this.timer = setInterval(() => void this.tick(), TICK_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Start a run of the schedule's workflow for one occurrence
+   * A workflow that no longer exists takes its schedule with it; a run that cannot start is recorded as lastError
+   */
+  private async fire(schedule: WorkflowSchedule, scheduledFor: number): Promise<void> {
+    const workflow = await this.workflowRepository.findById(schedule.definitionId);
+    if (!workflow) {
+      console.log(`[Scheduler] Workflow ${schedule.definitionId} is gone, deleting schedule ${schedule.id}`);
+      await this.delete(schedule.id);
+      return;
+    }
+
+    const { cron, id: scheduleId, inputs, timezone } = schedule;
+    try {
+      schedule.lastRunId = this.runService.execute({
+        definitionId: workflow.id,
+        definitionVersion: workflow.version,
+        edges: workflow.edges,
+        inputs,
+        nodes: workflow.nodes,
+        options: {},
+        trigger: { cron, scheduledFor, scheduleId, timezone, type: "schedule" },
+      });
+      schedule.lastRunAt = Date.now();
+      schedule.lastError = undefined;
+      console.log(`[Scheduler] Schedule ${scheduleId} started ${schedule.lastRunId}`);
+    } catch (error) {
+      if (!(error instanceof RunStartError)) throw error;
+      schedule.lastError = error.message;
+      console.error(`[Scheduler] Schedule ${scheduleId} could not start a run: ${error.message}`);
+    }
+  }
+
+  private forget(id: string): void {
+    this.schedules.delete(id);
+    this.expressions.delete(id);
+  }
+
+  /**
+   * Occurrence a catching-up schedule runs next: its next one, unless more than MAX_CATCH_UP_RUNS are overdue,
+   * in which case the oldest of the most recent MAX_CATCH_UP_RUNS
+   */
+  private oldestToCatchUp(schedule: WorkflowSchedule, nextRunAt: number, now: number): number {
+    const expression = this.expressions.get(schedule.id)!;
+    const recent: number[] = [];
+    for (let occurrence: number | undefined = nextRunAt; occurrence !== undefined && occurrence <= now; ) {
+      recent.push(occurrence);
+      if (recent.length > MAX_CATCH_UP_RUNS) recent.shift();
+      occurrence = nextOccurrence(expression, schedule.timezone, occurrence);
+    }
+    return recent[0] ?? nextRunAt;
+  }
+
+  private async persist(schedule: WorkflowSchedule): Promise<void> {
+    schedule.updatedAt = Date.now();
+    await this.scheduleRepository.save(schedule);
+  }
+
+  /**
+   * Handle every schedule with a due occurrence
+   * skip drops missed occurrences and moves on to the next one after now;
+   * catchUp waits for the previous run to end and then runs each missed occurrence in turn
+   */
+  private async tick(): Promise<void> {
+    // A slow tick (e.g. a slow database) must not run alongside the next one
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = Date.now();
+      for (const schedule of this.schedules.values()) {
+        if (schedule.paused || schedule.nextRunAt === undefined || schedule.nextRunAt > now) continue;
+
+        try {
+          const expression = this.expressions.get(schedule.id)!;
+          const running = schedule.lastRunId !== undefined && this.runService.isActive(schedule.lastRunId);
+          const missed = running || now - schedule.nextRunAt > MISFIRE_GRACE_MS;
+
+          if (schedule.missedRunPolicy === "catchUp") {
+            if (running) continue;
+            const scheduledFor = missed ? this.oldestToCatchUp(schedule, schedule.nextRunAt, now) : schedule.nextRunAt;
+            await this.fire(schedule, scheduledFor);
+            schedule.nextRunAt = nextOccurrence(expression, schedule.timezone, scheduledFor);
+          } else {
+            if (missed) {
+              console.log(`[Scheduler] Schedule ${schedule.id} skipped the occurrence at ${new Date(schedule.nextRunAt).toISOString()}`);
+            } else {
+              await this.fire(schedule, schedule.nextRunAt);
+            }
+            schedule.nextRunAt = nextOccurrence(expression, schedule.timezone, now);
+          }
+
+          // fire() deletes schedules whose workflow is gone
+          if (this.schedules.has(schedule.id)) await this.persist(schedule);
+        } catch (error) {
+          console.error(`[Scheduler] Schedule ${schedule.id} failed:`, error);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
+
+function parseExpression(cron: string): CronExpression {
+  try {
+    return parseCron(cron);
+  } catch (error) {
+    if (error instanceof CronError) throw new ScheduleError("INVALID_CRON", `Invalid cron expression: ${error.message}`);
+    throw error;
+  }
+}
+
+export default WorkflowScheduler;
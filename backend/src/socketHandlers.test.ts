@@ -0,0 +1,184 @@
+import { randomBytes } from "node:crypto";
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { Server as SocketIOServer } from "socket.io";
+import { io as connect, Socket } from "socket.io-client";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { InMemoryCredentialRepository } from "./api/v1/repositories/inMemoryCredentialRepository.js";
+import { InMemoryRunRepository } from "./api/v1/repositories/inMemoryRunRepository.js";
+import { InMemoryWorkflowRepository } from "./api/v1/repositories/inMemoryWorkflowRepository.js";
+import { signToken } from "./services/authToken.js";
+import CredentialVault from "./services/credentialVault.js";
+import RunRecorder from "./services/runRecorder.js";
+import RunService from "./services/runService.js";
+import WorkflowAccess from "./services/workflowAccess.js";
+import WorkflowEventEmitter from "./services/workflowEventEmitter.js";
+import WorkflowRegistry from "./services/workflowRegistry.js";
+import { registerSocketHandlers } from "./socketHandlers.js";
+import { CreateWorkflowRequest } from "./types/schemas.js";
+import { AuthUser } from "./types/workflow.js";
+
+const SECRET = "test-secret";
+const owner: AuthUser = { id: "owner" };
+const viewer: AuthUser = { id: "viewer" };
+const stranger: AuthUser = { id: "stranger" };
+
+// start -> approve -> done: every run waits at its approval until the test approves it
+const nodes: CreateWorkflowRequest["nodes"] = [
+  { id: "start", position: { x: 0, y: 0 }, type: "start" },
+  { id: "approve", position: { x: 200, y: 0 }, type: "approval" },
+  { data: { mapping: { ok: true } }, id: "done", position: { x: 400, y: 0 }, type: "transform" },
+];
+const edges = [
+  { id: "start-approve", source: "start", target: "approve" },
+  { id: "approve-done", source: "approve", target: "done" },
+];
+
+interface Received {
+  event: string;
+  payload: { code?: string; workflowId?: string };
+}
+
+const clients: Socket[] = [];
+let io: SocketIOServer;
+let runService: RunService;
+let url: string;
+let startRun: () => Promise<string>;
+let approve: (runId: string) => Promise<void>;
+
+beforeAll(async () => {
+  const runRepository = new InMemoryRunRepository();
+  const workflowRepository = new InMemoryWorkflowRepository();
+  const workflowRegistry = new WorkflowRegistry();
+  const recorder = new RunRecorder(runRepository);
+  const vault = new CredentialVault(new InMemoryCredentialRepository(), randomBytes(32).toString("base64"));
+  const httpServer = createServer();
+  io = new SocketIOServer(httpServer);
+  const emitter = new WorkflowEventEmitter(io, { batchWindow: 10 }, recorder);
+  runService = new RunService(emitter, recorder, workflowRegistry, runRepository, workflowRepository, vault);
+  const access = new WorkflowAccess(workflowRepository, runRepository, workflowRegistry);
+  registerSocketHandlers(io, { access, authSecret: SECRET, runService, workflowRegistry });
+
+  await new Promise<void>((resolve) => httpServer.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+  const workflow = await workflowRepository.create({ edges, name: "Approved", nodes }, owner.id);
+  await workflowRepository.setMembers(workflow.id, [{ role: "viewer", userId: viewer.id }]);
+
+  // Starts a run of the workflow and resolves once it waits at its approval
+  startRun = async () => {
+    const runId = runService.execute({ definitionId: workflow.id, edges, inputs: {}, nodes, options: {}, startedBy: owner.id });
+    await vi.waitFor(async () => expect(await pendingApproval(runId)).toBeDefined());
+    return runId;
+  };
+  const pendingApproval = async (runId: string) =>
+    (await runService.getSnapshot(runId))?.events.find(({ nodeId }) => nodeId === "approve")?.payload?.pendingApproval;
+  // Approves the run's pending approval and resolves once the run has finished
+  approve = async (runId: string) => {
+    workflowRegistry.get(runId)?.executor.respondToApproval((await pendingApproval(runId))!.approvalId, { decision: "approve" });
+    await runService.waitForCompletion(runId);
+  };
+});
+
+afterEach(() => {
+  for (const client of clients.splice(0)) client.disconnect();
+});
+
+afterAll(async () => {
+  await io.close();
+  vi.restoreAllMocks();
+});
+
+// A connected client for the user, with every event it receives
+async function client(user: AuthUser) {
+  const socket = connect(url, { auth: { token: signToken(user, SECRET, 60) }, transports: ["websocket"] });
+  clients.push(socket);
+  const received: Received[] = [];
+  socket.onAny((event: string, payload: Received["payload"]) => received.push({ event, payload }));
+  await new Promise<void>((resolve) => socket.once("connect", resolve));
+
+  // Resolves once the event has arrived for the run
+  const receive = (event: string, workflowId: string) =>
+    vi.waitFor(() => expect(received).toContainEqual({ event, payload: expect.objectContaining({ workflowId }) }));
+  return { receive, received, socket };
+}
+
+describe("socket handlers", () => {
+  describe("workflow:execute", () => {
+    it("reports invalid requests and graphs with their codes", async () => {
+      const { received, socket } = await client(owner);
+      const errorCodes = () => received.filter(({ event }) => event === "workflow:error").map(({ payload }) => payload.code);
+
+      socket.emit("workflow:execute", { nodes: "none" });
+      socket.emit("workflow:execute", { edges: [{ id: "loop", source: "a", target: "a" }], nodes: [{ id: "a", type: "start" }] });
+      await vi.waitFor(() => expect(errorCodes()).toHaveLength(2));
+
+      expect(errorCodes()).toEqual(["VALIDATION_ERROR", "INVALID_GRAPH"]);
+    });
+
+    it("reports unexpected failures as INTERNAL_ERROR", async () => {
+      vi.spyOn(runService, "execute").mockImplementationOnce(() => {
+        throw new Error("Database unavailable");
+      });
+      const { received, socket } = await client(owner);
+
+      socket.emit("workflow:execute", { edges: [], nodes: [{ id: "start", type: "start" }] });
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+
+      expect(received[0]).toEqual({
+        event: "workflow:error",
+        payload: expect.objectContaining({ code: "INTERNAL_ERROR", error: "Internal server error" }),
+      });
+    });
+  });
+
+  describe("workflow:subscribe", () => {
+    it("refuses users without access to the run", async () => {
+      const runId = await startRun();
+      const { receive, received, socket } = await client(stranger);
+
+      socket.emit("workflow:subscribe", { workflowId: runId });
+      await receive("workflow:error", runId);
+      await approve(runId);
+
+      expect(received).toEqual([{ event: "workflow:error", payload: expect.objectContaining({ code: "FORBIDDEN", workflowId: runId }) }]);
+    });
+
+    it("sends a snapshot, then only the events of the subscribed run", async () => {
+      const [runId, otherRunId] = [await startRun(), await startRun()];
+      const { receive, received, socket } = await client(viewer);
+
+      socket.emit("workflow:subscribe", { workflowId: runId });
+      await receive("workflow:snapshot", runId);
+      await approve(otherRunId);
+      await approve(runId);
+      await receive("workflow:complete", runId);
+
+      expect(received[0].event).toBe("workflow:snapshot");
+      expect(received.some(({ event }) => event === "workflow:node-events-batch" || event === "workflow:node-event")).toBe(true);
+      expect(received.every(({ payload }) => payload.workflowId === runId)).toBe(true);
+    });
+  });
+
+  describe("workflow:unsubscribe", () => {
+    it("stops the run's events", async () => {
+      const [runId, otherRunId] = [await startRun(), await startRun()];
+      const { receive, received, socket } = await client(viewer);
+
+      socket.emit("workflow:subscribe", { workflowId: runId });
+      await receive("workflow:snapshot", runId);
+      socket.emit("workflow:unsubscribe", { workflowId: runId });
+      // Handled in order, so the unsubscribe has taken effect once this snapshot arrives
+      socket.emit("workflow:subscribe", { workflowId: otherRunId });
+      await receive("workflow:snapshot", otherRunId);
+      await approve(runId);
+      await approve(otherRunId);
+      await receive("workflow:complete", otherRunId);
+
+      expect(received.filter(({ payload }) => payload.workflowId === runId).map(({ event }) => event)).toEqual(["workflow:snapshot"]);
+    });
+  });
+});
@@ -0,0 +1,380 @@
+/**
+ * Socket.IO event handlers: clients execute, follow and control workflow runs over their socket
+ */
+
+import { Server as SocketIOServer } from "socket.io";
+
+import { AuthError, bearerToken, verifyToken } from "./services/authToken.js";
+import RunService, { RunStartError } from "./services/runService.js";
+import WorkflowAccess, { AccessError } from "./services/workflowAccess.js";
+import { isSameGraph } from "./services/workflowDiff.js";
+import { definitionRoom, runRoom } from "./services/workflowEventEmitter.js";
+import WorkflowRegistry, { ActiveRun } from "./services/workflowRegistry.js";
+import {
+  ApprovalResponseSchema,
+  ExecuteWorkflowSchema,
+  RerunWorkflowSchema,
+  ResumeStreamSchema,
+  WatchWorkflowSchema,
+  WorkflowControlSchema,
+} from "./types/schemas.js";
+import { AuthUser } from "./types/workflow.js";
+
+export interface SocketDependencies {
+  access: WorkflowAccess;
+  authSecret?: string; // Sockets need a token signed with it; unset disables authentication
+  runService: RunService;
+  workflowRegistry: WorkflowRegistry;
+}
+
+export function registerSocketHandlers(io: SocketIOServer, { access, authSecret, runService, workflowRegistry }: SocketDependencies): void {
+  /**
+   * Verify the token sent with the handshake (auth.token, or an Authorization header) before a socket connects
+   * Refused connections get a connect_error whose data is { code: "UNAUTHORIZED" }
+   */
+  io.use((socket, next) => {
+    if (!authSecret) {
+      next();
+      return;
+    }
+
+    const token: unknown = socket.handshake.auth.token ?? bearerToken(socket.handshake.headers.authorization);
+    try {
+      if (typeof token !== "string" || token === "") throw new AuthError("Missing authentication token");
+      socket.data.user = verifyToken(token, authSecret);
+      next();
+    } catch (error) {
+      const message = error instanceof AuthError ? error.message : "Authentication failed";
+      next(Object.assign(new Error(message), { data: { code: "UNAUTHORIZED" } }));
+    }
+  });
+
+  io.on("connection", (socket) => {
+    const user = socket.data.user as AuthUser | undefined;
+    console.log(`[WebSocket] Client connected: ${socket.id}${user ? ` as ${user.id}` : ""}`);
+
+    /**
+     * Run an access check (see WorkflowAccess); emits its FORBIDDEN or NOT_FOUND error and returns false when it fails
+     */
+    const authorize = async (check: Promise<unknown>, workflowId?: string): Promise<boolean> => {
+      try {
+        await check;
+        return true;
+      } catch (error) {
+        if (!(error instanceof AccessError)) throw error;
+        socket.emit("workflow:error", {
+          code: error.code,
+          error: error.message,
+          workflowId,
+        });
+        return false;
+      }
+    };
+
+    /**
+     * Listen to a socket event; unexpected failures of the handler (e.g. of the database) are logged and reported
+     * as INTERNAL_ERROR rather than left as unhandled rejections
+     */
+    const handle = (event: string, handler: (data: unknown) => Promise<void>): void => {
+      socket.on(event, async (data: unknown) => {
+        try {
+          await handler(data);
+        } catch (error) {
+          console.error(`[WebSocket] ${event} failed:`, error);
+          socket.emit("workflow:error", {
+            code: "INTERNAL_ERROR",
+            error: "Internal server error",
+            workflowId: WorkflowControlSchema.safeParse(data).data?.workflowId,
+          });
+        }
+      });
+    };
+
+    /**
+     * Execute a workflow
+     * Client sends workflow definition (nodes + edges)
+     * Server executes the nodes in dependency order and emits progress events
+     */
+    handle("workflow:execute", async (data) => {
+      const parsed = ExecuteWorkflowSchema.safeParse(data);
+      if (!parsed.success) {
+        const message = `Validation error: ${parsed.error.issues[0]?.message ?? "Unknown"}`;
+        console.error(`[Workflow] Error:`, message);
+        socket.emit("workflow:error", {
+          code: "VALIDATION_ERROR",
+          error: message,
+        });
+        return;
+      }
+
+      const validated = parsed.data;
+      // Running a graph as a saved workflow files the run under it, which takes the editor role
+      const saved = validated.definitionId ? access.requireWorkflow(validated.definitionId, user, "editor") : undefined;
+      if (saved && !(await authorize(saved))) return;
+      // A graph unchanged since the latest save runs as that version
+      const workflow = saved && (await saved);
+      const stored = workflow && isSameGraph(workflow, validated) ? workflow : undefined;
+
+      try {
+        runService.execute(
+          {
+            definitionId: validated.definitionId,
+            definitionVersion: stored?.version,
+            edges: (stored ?? validated).edges,
+            inputs: validated.inputs ?? {},
+            nodes: (stored ?? validated).nodes,
+            options: validated.options ?? {},
+            startedBy: user?.id,
+          },
+          socket.id,
+        );
+      } catch (error) {
+        // Anything else is unexpected and reported by handle() as INTERNAL_ERROR
+        if (!(error instanceof RunStartError)) throw error;
+        console.error(`[Workflow] Invalid graph: ${error.issues?.length ?? 0} issue(s)`);
+        socket.emit("workflow:error", {
+          code: error.code,
+          error: error.message,
+          issues: error.issues,
+          retryable: false,
+        });
+      }
+    });
+
+    /**
+     * Resolve the target of a run control event (cancel/pause/resume/approval)
+     * Emits NOT_FOUND or FORBIDDEN and returns undefined when this user cannot control the run:
+     * only the user who started it and editors of its workflow can
+     * Without authentication there are no users, so only the socket that started the run can (see workflow:resume-stream)
+     */
+    const getControlledRun = async (data: unknown, action: string): Promise<undefined | { run: ActiveRun; workflowId: string }> => {
+      const parsed = WorkflowControlSchema.safeParse(data);
+      if (!parsed.success) {
+        socket.emit("workflow:error", {
+          code: "INVALID_REQUEST",
+          error: `Invalid ${action} request`,
+        });
+        return undefined;
+      }
+
+      const { workflowId } = parsed.data;
+      console.log(`[Workflow] ${action} requested for ${workflowId}`);
+
+      const run = workflowRegistry.get(workflowId);
+      if (!run) {
+        socket.emit("workflow:error", {
+          code: "NOT_FOUND",
+          error: `No active workflow ${workflowId}`,
+          workflowId,
+        });
+        return undefined;
+      }
+
+      if (!user && run.socketId !== socket.id) {
+        socket.emit("workflow:error", {
+          code: "FORBIDDEN",
+          error: "Workflow belongs to another client",
+          workflowId,
+        });
+        return undefined;
+      }
+
+      if (!(await authorize(access.requireRun(workflowId, user, "editor"), workflowId))) return undefined;
+      return { run, workflowId };
+    };
+
+    /**
+     * Re-run a finished workflow from one node
+     * Recorded results of every other node are reused; only the node and its descendants execute
+     */
+    handle("workflow:rerun-from", async (data) => {
+      const parsed = RerunWorkflowSchema.safeParse(data);
+      if (!parsed.success) {
+        socket.emit("workflow:error", {
+          code: "INVALID_REQUEST",
+          error: "Invalid rerun request",
+        });
+        return;
+      }
+
+      const { nodeId, workflowId } = parsed.data;
+      console.log(`[Workflow] Rerun of ${workflowId} from node ${nodeId} requested`);
+
+      if (!(await authorize(access.requireRun(workflowId, user, "editor"), workflowId))) return;
+
+      try {
+        await runService.rerunFrom(workflowId, nodeId, user?.id, socket.id);
+      } catch (error) {
+        socket.emit("workflow:error", {
+          code: error instanceof RunStartError ? error.code : "EXECUTION_ERROR",
+          error: error instanceof Error ? error.message : "Unknown error",
+          workflowId,
+        });
+      }
+    });
+
+    /**
+     * Receive the events of every run of a saved workflow, including runs started by others (e.g. webhooks)
+     */
+    handle("workflow:watch", async (data) => {
+      const parsed = WatchWorkflowSchema.safeParse(data);
+      if (!parsed.success) {
+        socket.emit("workflow:error", {
+          code: "INVALID_REQUEST",
+          error: "Invalid watch request",
+        });
+        return;
+      }
+
+      if (!(await authorize(access.requireWorkflow(parsed.data.definitionId, user, "viewer")))) return;
+      void socket.join(definitionRoom(parsed.data.definitionId));
+    });
+
+    /**
+     * Stop receiving the runs of a saved workflow
+     */
+    socket.on("workflow:unwatch", (data: unknown) => {
+      const parsed = WatchWorkflowSchema.safeParse(data);
+      if (parsed.success) void socket.leave(definitionRoom(parsed.data.definitionId));
+    });
+
+    /**
+     * Follow a run started by any client: reply with a snapshot of its node states, then stream its events
+     * A finished run only gets the snapshot
+     */
+    handle("workflow:subscribe", async (data) => {
+      const parsed = WorkflowControlSchema.safeParse(data);
+      if (!parsed.success) {
+        socket.emit("workflow:error", {
+          code: "INVALID_REQUEST",
+          error: "Invalid subscribe request",
+        });
+        return;
+      }
+
+      const { workflowId } = parsed.data;
+      if (!(await authorize(access.requireRun(workflowId, user, "viewer"), workflowId))) return;
+
+      // Joined before the snapshot is taken, so no event falls between the two
+      if (runService.isActive(workflowId)) void socket.join(runRoom(workflowId));
+
+      const snapshot = await runService.getSnapshot(workflowId);
+      if (!snapshot) {
+        socket.emit("workflow:error", {
+          code: "NOT_FOUND",
+          error: `No workflow ${workflowId}`,
+          workflowId,
+        });
+        return;
+      }
+      socket.emit("workflow:snapshot", snapshot);
+    });
+
+    /**
+     * Stop following a run
+     */
+    socket.on("workflow:unsubscribe", (data: unknown) => {
+      const parsed = WorkflowControlSchema.safeParse(data);
+      if (parsed.success) void socket.leave(runRoom(parsed.data.workflowId));
+    });
+
+    /**
+     * Catch up on a run after a reconnect: send the node events after lastSeq and the run's state, then stream the rest
+     * When those events are no longer buffered, or the run has ended, a snapshot is sent instead
+     */
+    handle("workflow:resume-stream", async (data) => {
+      const parsed = ResumeStreamSchema.safeParse(data);
+      if (!parsed.success) {
+        socket.emit("workflow:error", {
+          code: "INVALID_REQUEST",
+          error: "Invalid resume request",
+        });
+        return;
+      }
+
+      const { lastSeq, workflowId } = parsed.data;
+      if (!(await authorize(access.requireRun(workflowId, user, "viewer"), workflowId))) return;
+      const run = workflowRegistry.get(workflowId);
+      if (run) {
+        void socket.join(runRoom(workflowId));
+        // A reconnecting client comes back under a new socket ID; it keeps control of its run once the old socket is gone
+        if (run.socketId && !io.sockets.sockets.has(run.socketId)) run.socketId = socket.id;
+      }
+
+      const missed = runService.replay(workflowId, lastSeq);
+      if (missed) {
+        console.log(`[Workflow] Replaying ${missed.events.length} event(s) of ${workflowId} after ${lastSeq}`);
+        socket.emit("workflow:node-events-batch", { count: missed.events.length, events: missed.events, workflowId });
+        socket.emit("workflow:state", { state: missed.state, workflowId });
+        return;
+      }
+
+      const snapshot = await runService.getSnapshot(workflowId);
+      if (!snapshot) {
+        socket.emit("workflow:error", {
+          code: "NOT_FOUND",
+          error: `No workflow ${workflowId}`,
+          workflowId,
+        });
+        return;
+      }
+      socket.emit("workflow:snapshot", snapshot);
+    });
+
+    /**
+     * Cancel an ongoing workflow
+     */
+    handle("workflow:cancel", async (data) => {
+      const target = await getControlledRun(data, "Cancel");
+      if (!target) return;
+
+      target.run.executor.cancel();
+      socket.emit("workflow:cancelled", { workflowId: target.workflowId });
+    });
+
+    /**
+     * Pause a workflow: running nodes finish, new nodes are held back
+     */
+    handle("workflow:pause", async (data) => {
+      (await getControlledRun(data, "Pause"))?.run.executor.pause();
+    });
+
+    /**
+     * Resume a paused workflow
+     */
+    handle("workflow:resume", async (data) => {
+      (await getControlledRun(data, "Resume"))?.run.executor.resume();
+    });
+
+    /**
+     * Approve or reject a waiting approval node
+     */
+    handle("approval:respond", async (data) => {
+      const target = await getControlledRun(data, "Approval");
+      if (!target) return;
+
+      const parsed = ApprovalResponseSchema.safeParse(data);
+      if (!parsed.success) {
+        socket.emit("workflow:error", {
+          code: "INVALID_REQUEST",
+          error: "Invalid approval response",
+          workflowId: target.workflowId,
+        });
+        return;
+      }
+
+      const { approvalId, comment, decision } = parsed.data;
+      if (!target.run.executor.respondToApproval(approvalId, { comment, decision })) {
+        socket.emit("workflow:error", {
+          code: "NOT_FOUND",
+          error: `No pending approval ${approvalId}`,
+          workflowId: target.workflowId,
+        });
+      }
+    });
+
+    socket.on("disconnect", () => {
+      console.log(`[WebSocket] Client disconnected: ${socket.id}`);
+    });
+  });
+}
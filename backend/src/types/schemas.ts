@@ -1,72 +1,389 @@
 /**
- * Socket.IO event validators using Zod
- * Ensures type safety and runtime validation of all WebSocket payloads
+ * Socket.IO and REST payload validators using Zod
+ * Ensures type safety and runtime validation of all WebSocket and HTTP payloads
  */
 
 import { z } from "zod";
 
 // ============ Request/Client → Server ============
 
+const WorkflowEdgeSchema = z.object({
+  id: z.string(),
+  source: z.string(),
+  sourceHandle: z.string().nullish(), // "true"/"false" from a condition node, "item"/"done" from a forEach node
+  target: z.string(),
+  targetHandle: z.string().nullish(), // Canvas only, e.g. a merge node's in-N handle
+});
+
+const WorkflowNodeSchema = z.object({
+  data: z.record(z.string(), z.any()).optional(),
+  id: z.string(),
+  label: z.string().optional(),
+  type: z.enum(["api", "approval", "condition", "forEach", "merge", "result", "start", "transform", "webhook"]),
+});
+
 export const ExecuteWorkflowSchema = z.object({
-  edges: z.array(
-    z.object({
-      id: z.string(),
-      source: z.string(),
-      target: z.string(),
-    }),
-  ),
+  definitionId: z.string().optional(), // Saved workflow whose run history lists this run; its latest version is recorded when the graph matches it
+  edges: z.array(WorkflowEdgeSchema),
+  inputs: z.record(z.string(), z.unknown()).optional(), // Exposed to templates as inputs.*
+  nodes: z.array(WorkflowNodeSchema),
+  options: z
+    .object({
+      deadlineMs: z.number().int().positive().optional(), // Deadline for the whole run
+      nodeTimeoutMs: z.number().int().positive().optional(), // Default per-node timeout, overridden by node.data.timeoutMs; approval nodes use approvalTimeoutMs instead
+    })
+    .optional(),
+});
+
+export type ExecuteWorkflowRequest = z.infer<typeof ExecuteWorkflowSchema>;
+
+// POST /api/v1/workflows/:id/execute runs the saved definition with these
+export const TriggerWorkflowSchema = ExecuteWorkflowSchema.pick({ inputs: true, options: true });
+
+export type TriggerWorkflowRequest = z.infer<typeof TriggerWorkflowSchema>;
+
+export const ExecuteQuerySchema = z.object({
+  timeout: z.coerce.number().int().positive().max(3600).default(300), // Seconds ?wait=true waits before responding as without it
+  wait: z.stringbool().default(false), // Respond with the WorkflowComplete once the run finishes instead of right away
+});
+
+export type ExecuteQuery = z.infer<typeof ExecuteQuerySchema>;
+
+// workflow:cancel, workflow:pause, workflow:resume, workflow:subscribe and workflow:unsubscribe
+export const WorkflowControlSchema = z.object({
+  workflowId: z.string(),
+});
+
+export type WorkflowControlRequest = z.infer<typeof WorkflowControlSchema>;
+
+// workflow:rerun-from
+export const RerunWorkflowSchema = z.object({
+  nodeId: z.string(),
+  workflowId: z.string(), // The finished run whose results are reused
+});
+
+export type RerunWorkflowRequest = z.infer<typeof RerunWorkflowSchema>;
+
+// workflow:watch and workflow:unwatch: receive every run of a saved workflow, however it was started
+export const WatchWorkflowSchema = z.object({
+  definitionId: z.string(),
+});
+
+export type WatchWorkflowRequest = z.infer<typeof WatchWorkflowSchema>;
+
+// workflow:resume-stream: after a reconnect, the node events of a run sent since the last one received
+export const ResumeStreamSchema = z.object({
+  lastSeq: z.number().int().min(0), // 0 if no event of the run was received
+  workflowId: z.string(),
+});
+
+export type ResumeStreamRequest = z.infer<typeof ResumeStreamSchema>;
+
+export const ApprovalResponseSchema = z.object({
+  approvalId: z.string(),
+  comment: z.string().max(2000).optional(),
+  decision: z.enum(["approve", "reject"]),
+  workflowId: z.string(),
+});
+
+export type ApprovalResponse = z.infer<typeof ApprovalResponseSchema>;
+
+// ============ Workflow Definitions (REST) ============
+
+export const CreateWorkflowSchema = z.object({
+  description: z.string().max(2000).optional(),
+  edges: z.array(WorkflowEdgeSchema),
+  name: z.string().trim().min(1).max(200),
   nodes: z.array(
-    z.object({
-      data: z.record(z.string(), z.any()).optional(),
-      id: z.string(),
-      label: z.string().optional(),
-      type: z.enum(["api", "result", "start"]),
+    WorkflowNodeSchema.extend({
+      position: z.object({ x: z.number(), y: z.number() }), // Canvas position
     }),
   ),
 });
 
-export type ExecuteWorkflowRequest = z.infer<typeof ExecuteWorkflowSchema>;
+export type CreateWorkflowRequest = z.infer<typeof CreateWorkflowSchema>;
 
-export const CancelWorkflowSchema = z.object({
-  workflowId: z.string(),
+// PUT replaces only the fields that are sent
+export const UpdateWorkflowSchema = CreateWorkflowSchema.partial();
+
+export type UpdateWorkflowRequest = z.infer<typeof UpdateWorkflowSchema>;
+
+// PUT /workflows/:id/members replaces everyone the workflow is shared with; the owner is implicit
+export const WorkflowMembersSchema = z.object({
+  members: z
+    .array(
+      z.object({
+        role: z.enum(["editor", "viewer"]),
+        userId: z.string().trim().min(1).max(200),
+      }),
+    )
+    .max(100),
 });
 
-export type CancelWorkflowRequest = z.infer<typeof CancelWorkflowSchema>;
+export type WorkflowMembersRequest = z.infer<typeof WorkflowMembersSchema>;
+
+export const RunListQuerySchema = z.object({
+  cursor: z
+    .string()
+    .regex(/^\d+_\S+$/, "Invalid cursor")
+    .optional(), // nextCursor of the previous page
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type RunListQuery = z.infer<typeof RunListQuerySchema>;
+
+export const NodeLogsQuerySchema = z.object({
+  cursor: z.coerce.number().int().nonnegative().optional(), // nextCursor of the previous page
+  level: z.enum(["error", "info", "warning"]).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+export type NodeLogsQuery = z.infer<typeof NodeLogsQuerySchema>;
+
+export const VersionParamSchema = z.coerce.number().int().positive();
+
+export const VersionDiffQuerySchema = z.object({
+  from: VersionParamSchema,
+  to: VersionParamSchema,
+});
+
+export type VersionDiffQuery = z.infer<typeof VersionDiffQuerySchema>;
+
+// ============ Schedules (REST) ============
+
+// The expression and zone are checked by the scheduler, which reports INVALID_CRON / INVALID_TIMEZONE
+export const CreateScheduleSchema = z.object({
+  cron: z.string().trim().min(1).max(200),
+  inputs: z.record(z.string(), z.unknown()).default({}),
+  missedRunPolicy: z.enum(["catchUp", "skip"]).default("skip"),
+  timezone: z.string().trim().min(1).default("UTC"),
+});
+
+export type CreateScheduleRequest = z.infer<typeof CreateScheduleSchema>;
+
+export const ScheduleListQuerySchema = z.object({
+  definitionId: z.string().optional(),
+});
+
+export type ScheduleListQuery = z.infer<typeof ScheduleListQuerySchema>;
+
+// ============ Credentials (REST) ============
+
+export const CreateCredentialSchema = z.object({
+  description: z.string().max(500).optional(),
+  name: z.string().trim().min(1).max(100),
+  secret: z.string().min(1).max(10_000),
+});
+
+export type CreateCredentialRequest = z.infer<typeof CreateCredentialSchema>;
+
+// Omitted fields are left unchanged; a new secret replaces the stored one
+export const UpdateCredentialSchema = CreateCredentialSchema.partial();
+
+export type UpdateCredentialRequest = z.infer<typeof UpdateCredentialSchema>;
+
+// ============ Node Configuration ============
+
+export const ApiNodeDataSchema = z.object({
+  body: z.unknown().optional(),
+  expectedStatus: z.array(z.number().int().min(100).max(599)).optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  method: z.enum(["DELETE", "GET", "HEAD", "OPTIONS", "PATCH", "POST", "PUT"]).default("GET"),
+  queryParams: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional(),
+  url: z.url(),
+});
+
+export type ApiNodeData = z.infer<typeof ApiNodeDataSchema>;
+
+export const ApprovalNodeDataSchema = z.object({
+  approvalTimeoutMs: z.number().int().positive().optional(), // Reject the branch if nobody responds in time
+  message: z.string().optional(), // Shown to the approver; supports {{ }} templates
+});
+
+export type ApprovalNodeData = z.infer<typeof ApprovalNodeDataSchema>;
+
+export const ConditionNodeDataSchema = z.object({
+  expression: z.union([z.string().min(1), z.boolean()]), // e.g. nodes.2.result.status == 200
+});
+
+export type ConditionNodeData = z.infer<typeof ConditionNodeDataSchema>;
+
+export const ForEachNodeDataSchema = z.object({
+  concurrency: z.number().int().min(1).max(50).default(5),
+  errorMode: z.enum(["collect", "stop"]).default("stop"), // stop: fail on the first item error; collect: report errors in the result
+  items: z.array(z.unknown(), { error: "items must resolve to an array, e.g. {{ nodes.2.result.body }}" }),
+});
+
+export type ForEachNodeData = z.infer<typeof ForEachNodeDataSchema>;
+
+export const MergeNodeDataSchema = z.object({
+  keyBy: z.enum(["id", "label"]).default("id"),
+  // all: every parent has completed (failed parents block the merge); any: the first parent to finish, even if it
+  // failed; first: the first parent to succeed. A merge whose parents were all skipped (or failed) is skipped
+  mode: z.enum(["all", "any", "first"]).default("all"),
+});
+
+export type MergeNodeData = z.infer<typeof MergeNodeDataSchema>;
+
+export const TransformNodeDataSchema = z
+  .object({
+    cpuLimitMs: z.number().int().min(10).max(10_000).default(1000),
+    mapping: z.record(z.string(), z.unknown()).optional(), // Output field -> value, usually a {{ }} template
+    memoryLimitMb: z.number().int().min(16).max(256).default(64),
+    script: z.string().min(1).optional(), // Function body receiving `inputs`; its return value is the result
+  })
+  .refine((data) => (data.mapping === undefined) !== (data.script === undefined), { message: "Provide exactly one of script or mapping" });
+
+export type TransformNodeData = z.infer<typeof TransformNodeDataSchema>;
+
+export const WebhookNodeDataSchema = z.object({
+  secretCredentialId: z.string().min(1).optional(), // Credential holding the signing key; when set, requests must carry an HMAC-SHA256 signature of the raw body made with it
+  signatureHeader: z.string().min(1).default("x-signature-256"), // Holds the hex signature, optionally prefixed with "sha256="
+  token: z.string().min(1).optional(), // Path segment of /api/v1/hooks/:token; assigned when the workflow is saved
+});
+
+export type WebhookNodeData = z.infer<typeof WebhookNodeDataSchema>;
+
+export const RetryPolicySchema = z.object({
+  backoffMultiplier: z.number().min(1).default(2),
+  initialDelayMs: z.number().int().min(0).default(500),
+  jitter: z.number().min(0).max(1).default(0.2), // Fraction of the delay to randomize
+  maxAttempts: z.number().int().min(1).max(10).default(1),
+  maxDelayMs: z.number().int().min(0).default(30000),
+  retryOn: z.array(z.enum(["429", "5xx", "network", "timeout"])).default(["429", "5xx", "network", "timeout"]),
+});
+
+export type RetryPolicy = z.infer<typeof RetryPolicySchema>;
 
 // ============ Response/Server → Client ============
 
 export const NodeEventSchema = z.object({
-  eventType: z.enum(["complete", "error", "running", "start"]),
+  eventType: z.enum(["cancelled", "complete", "error", "running", "skipped", "start"]),
   nodeId: z.string(),
   payload: z
     .object({
+      attempt: z.number().int().positive().optional(),
+      cached: z.boolean().optional(), // Result reused from the run a re-run was started from
       endTime: z.number().optional(),
       error: z.string().optional(),
+      errorCode: z.string().optional(),
+      errorDetails: z.any().optional(),
       errorStack: z.string().optional(),
-      logs: z.array(z.string()).optional(),
+      logs: z
+        .array(
+          z.object({
+            fields: z.record(z.string(), z.unknown()).optional(),
+            level: z.enum(["error", "info", "warning"]),
+            message: z.string(),
+            timestamp: z.number(),
+          }),
+        )
+        .optional(), // The node's most recent log entries, oldest first
+      pendingApproval: z
+        .object({
+          approvalId: z.string(),
+          expiresAt: z.number().optional(),
+          message: z.string().optional(),
+        })
+        .optional(), // Set while an approval node waits for a response
       progress: z.number().min(0).max(100).optional(),
+      resolvedTemplates: z.record(z.string(), z.any()).optional(),
       result: z.any().optional(),
+      retryable: z.boolean().optional(),
+      retryHistory: z
+        .array(
+          z.object({
+            attempt: z.number().int().positive(),
+            endTime: z.number(),
+            error: z.string(),
+            errorCode: z.string().optional(),
+            retryDelayMs: z.number(),
+            startTime: z.number(),
+          }),
+        )
+        .optional(),
+      skippedEdges: z.array(z.string()).optional(), // Outgoing edges not taken
       startTime: z.number().optional(),
-      status: z.enum(["completed", "error", "idle", "running"]).optional(),
+      status: z.enum(["cancelled", "completed", "error", "idle", "running", "skipped"]).optional(),
     })
     .optional(),
+  seq: z.number().int().positive().optional(), // Position in the run's event stream, assigned when the event is emitted
   timestamp: z.number().int().positive(),
 });
 
 export type NodeEvent = z.infer<typeof NodeEventSchema>;
 
+export const WorkflowStartedSchema = z.object({
+  parentWorkflowId: z.string().optional(), // Set on re-runs
+  rerunFromNodeId: z.string().optional(),
+  workflowId: z.string(),
+});
+
+export type WorkflowStarted = z.infer<typeof WorkflowStartedSchema>;
+
 export const WorkflowCompleteSchema = z.object({
   failedNodes: z.array(z.string()).optional(),
-  status: z.enum(["failed", "success"]),
+  status: z.enum(["cancelled", "failed", "success", "timeout"]),
+  timedOutNodes: z.array(z.string()).optional(),
   totalTime: z.number().positive(),
   workflowId: z.string(),
 });
 
 export type WorkflowComplete = z.infer<typeof WorkflowCompleteSchema>;
 
+export const ApprovalRequiredSchema = z.object({
+  approvalId: z.string(),
+  context: z.record(z.string(), z.any()), // Upstream results the approver is deciding on
+  expiresAt: z.number().optional(),
+  message: z.string().optional(),
+  nodeId: z.string(),
+  workflowId: z.string(),
+});
+
+export type ApprovalRequired = z.infer<typeof ApprovalRequiredSchema>;
+
+export const WorkflowStateSchema = z.object({
+  state: z.enum(["paused", "running"]),
+  workflowId: z.string(),
+});
+
+export type WorkflowState = z.infer<typeof WorkflowStateSchema>;
+
+// Sent in reply to workflow:subscribe; later events of the run follow through its room
+export const WorkflowSnapshotSchema = z.object({
+  events: z.array(NodeEventSchema), // Latest event of every node that has reported so far
+  state: z.enum(["paused", "running"]).optional(), // Set while the run is active
+  status: z.enum(["cancelled", "failed", "running", "success", "timeout"]),
+  workflowId: z.string(),
+});
+
+export type WorkflowSnapshot = z.infer<typeof WorkflowSnapshotSchema>;
+
+export const GraphIssueSchema = z.object({
+  code: z.enum([
+    "CYCLE",
+    "DUPLICATE_EDGE_ID",
+    "DUPLICATE_NODE_ID",
+    "INVALID_BRANCH_HANDLE",
+    "INVALID_LOOP_BODY",
+    "INVALID_NODE_CONFIG",
+    "MISSING_START",
+    "MULTIPLE_START",
+    "RESULT_HAS_OUTGOING_EDGES",
+    "UNKNOWN_NODE",
+    "UNREACHABLE_NODE",
+  ]),
+  edgeId: z.string().optional(),
+  message: z.string(),
+  nodeId: z.string().optional(),
+});
+
+export type GraphIssue = z.infer<typeof GraphIssueSchema>;
+
 export const WorkflowErrorSchema = z.object({
   code: z.string(),
   error: z.string(),
+  issues: z.array(GraphIssueSchema).optional(), // Present when code is INVALID_GRAPH
   retryable: z.boolean().optional(),
 });
 
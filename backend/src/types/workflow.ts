@@ -2,6 +2,58 @@
  * Workflow and Node type definitions for type-safe backend operations
  */
 
+export interface ApprovalDecision {
+  comment?: string;
+  decision: "approve" | "reject";
+  respondedAt: number;
+}
+
+export interface ApprovalRequest {
+  context: Record<string, unknown>; // Shown to the approver
+  message?: string;
+  signal: AbortSignal; // The handler's signal; aborting stops waiting
+  timeoutMs?: number; // Rejects with APPROVAL_TIMEOUT when nobody responds in time
+}
+
+/**
+ * User identity verified from an authentication token, attached to sockets and REST requests
+ */
+export interface AuthUser {
+  id: string; // Token subject
+  name?: string;
+}
+
+/**
+ * A stored secret such as an API key, as the API returns it: the secret value is never included
+ * Api nodes reference it by ID in templates as {{ secrets.<id> }}
+ */
+export interface Credential {
+  createdAt: number;
+  description?: string;
+  id: string;
+  name: string;
+  ownerId?: string; // User who created it; unset when authentication is not configured
+  updatedAt: number;
+}
+
+/**
+ * A credential as stored by the credential repository, with its secret encrypted under the vault's master key
+ */
+export interface EncryptedCredential extends Credential {
+  secret: EncryptedSecret;
+}
+
+/**
+ * AES-256-GCM ciphertext, all fields base64
+ */
+export interface EncryptedSecret {
+  ciphertext: string;
+  iv: string;
+  tag: string;
+}
+
+export type LogLevel = "error" | "info" | "warning";
+
 export interface NodeConfig {
   data?: Record<string, unknown>;
   id: string;
@@ -10,33 +62,261 @@ export interface NodeConfig {
 }
 
 export interface NodeEvent {
-  eventType: "complete" | "error" | "running" | "start";
+  eventType: "cancelled" | "complete" | "error" | "running" | "skipped" | "start";
   nodeId: string;
   payload?: {
+    attempt?: number;
+    cached?: boolean;
     error?: string;
+    errorCode?: string;
+    errorDetails?: unknown;
     errorStack?: string;
-    logs?: string[];
+    logs?: NodeLog[];
+    pendingApproval?: PendingApproval;
     progress?: number;
+    resolvedTemplates?: Record<string, unknown>;
     result?: unknown;
+    retryable?: boolean;
+    retryHistory?: RetryAttempt[];
+    skippedEdges?: string[];
     status?: NodeStatus;
   };
   timestamp: number;
 }
 
-export type NodeStatus = "completed" | "error" | "idle" | "running";
+/**
+ * Executes a single node and resolves with its result
+ * Throwing marks the node as failed
+ */
+export type NodeHandler = (node: NodeConfig, context: NodeHandlerContext) => Promise<unknown>;
 
-export type NodeType = "api" | "result" | "start";
+export interface NodeHandlerContext {
+  inputs: Record<string, unknown>; // Parent nodeId -> parent result
+  log: (message: string, options?: Partial<Pick<NodeLog, "fields" | "level">>) => void; // Appends an entry (info by default) to the node's logs
+  reportProgress: (progress: number) => void; // Streams a 0-100 progress value to the client
+  requestApproval: (request: ApprovalRequest) => Promise<ApprovalDecision>; // Suspends until a client responds
+  runLoopBody: (item: unknown, index: number, signal: AbortSignal) => Promise<unknown>; // forEach only: run the body for one item
+  signal: AbortSignal; // Aborted when the workflow is cancelled or the node times out
+  workflow: WorkflowExecutionContext;
+}
 
+/**
+ * A log entry of a node, streamed to clients with its running events
+ */
+export interface NodeLog {
+  fields?: Record<string, unknown>; // Structured context, e.g. { durationMs: 120, status: 200 }
+  level: LogLevel;
+  message: string;
+  timestamp: number;
+}
+
+/**
+ * One persisted log entry of a node in a run
+ * seq orders a run's log entries and serves as the pagination cursor
+ */
+export interface NodeLogEntry extends NodeLog {
+  nodeId: string;
+  runId: string;
+  seq: number;
+}
+
+/**
+ * Recorded outcome of one node in a run, folded from its node events
+ */
+export interface NodeRun {
+  attempt?: number;
+  cached?: boolean;
+  endTime?: number;
+  error?: string;
+  errorCode?: string;
+  errorDetails?: unknown;
+  nodeId: string;
+  result?: unknown;
+  retryHistory?: RetryAttempt[];
+  startTime?: number;
+  status: NodeStatus;
+}
+
+export type NodeStatus = "cancelled" | "completed" | "error" | "idle" | "running" | "skipped";
+
+export type NodeType = "api" | "approval" | "condition" | "forEach" | "merge" | "result" | "start" | "transform" | "webhook";
+
+export interface PendingApproval {
+  approvalId: string;
+  expiresAt?: number;
+  message?: string;
+}
+
+/**
+ * A failed attempt of a node that was retried
+ */
+export interface RetryAttempt {
+  attempt: number;
+  endTime: number;
+  error: string;
+  errorCode?: string;
+  retryDelayMs: number;
+  startTime: number;
+}
+
+export type RunStatus = "cancelled" | "failed" | "running" | "success" | "timeout";
+
+/**
+ * What started a run that no client asked for; recorded on the run
+ */
+export type RunTrigger = ScheduleTrigger | WebhookTrigger;
+
+/**
+ * What a schedule does with occurrences that could not run on time (server down, or the previous run still active)
+ * skip drops them; catchUp runs them one after another once possible, oldest first
+ */
+export type ScheduleMissedRunPolicy = "catchUp" | "skip";
+
+/**
+ * The schedule occurrence that started a run
+ */
+export interface ScheduleTrigger {
+  cron: string;
+  scheduledFor: number; // Occurrence time; earlier than the run's startTime when catching up
+  scheduleId: string;
+  timezone: string;
+  type: "schedule";
+}
+
+/**
+ * Decrypts the credentials a node references, by credential ID
+ * Rejects with a NodeExecutionError when one is missing or may not be used by the run
+ */
+export type SecretResolver = (credentialIds: string[]) => Promise<Record<string, string>>;
+
+/**
+ * The HTTP request that started a run through its webhook node; the node's result
+ */
+export interface WebhookTrigger {
+  body: unknown; // Parsed JSON or form fields
+  headers: Record<string, string>; // Lower-cased; credentials and the signature are left out
+  method: string;
+  query: Record<string, unknown>;
+  receivedAt: number;
+  type: "webhook";
+}
+
+/**
+ * A saved workflow: the canvas graph plus its metadata
+ * Every save bumps version and keeps the saved contents as an immutable WorkflowVersion
+ */
 export interface WorkflowDefinition {
-  edges: Array<{ id: string; source: string; target: string }>;
-  nodes: NodeConfig[];
-  workflowId: string;
+  createdAt: number;
+  description?: string;
+  edges: WorkflowEdge[];
+  id: string;
+  members?: WorkflowMember[]; // Users the owner shared the workflow with
+  name: string;
+  nodes: WorkflowDefinitionNode[];
+  ownerId?: string; // User who created it; unset when it was saved without authentication
+  updatedAt: number;
+  version: number; // Latest version
+}
+
+export interface WorkflowDefinitionNode extends NodeConfig {
+  position: { x: number; y: number };
+}
+
+export interface WorkflowEdge {
+  id: string;
+  source: string;
+  sourceHandle?: null | string;
+  target: string;
+  targetHandle?: null | string;
 }
 
 export interface WorkflowExecutionContext {
+  edges: WorkflowEdge[];
+  inputs: Record<string, unknown>;
   nodeResults: Map<string, unknown>;
   nodes: NodeConfig[];
-  socketId: string;
+  options: WorkflowRunOptions;
   startTime: number;
+  trigger?: RunTrigger;
   workflowId: string;
 }
+
+/**
+ * A user other than the owner with access to a saved workflow
+ */
+export interface WorkflowMember {
+  role: Exclude<WorkflowRole, "owner">;
+  userId: string;
+}
+
+/**
+ * Access to a saved workflow, each role including the ones before it
+ * viewer: open it, its versions, runs and schedules, and follow its runs
+ * editor: save it, run it, control its runs and manage its schedules
+ * owner: delete it and choose its members
+ */
+export type WorkflowRole = "editor" | "owner" | "viewer";
+
+/**
+ * A recorded execution: the graph it ran, its inputs, every node's outcome and the final status
+ * runId is the workflowId the run was reported under over the socket
+ */
+export interface WorkflowRun {
+  definitionId?: string; // Saved workflow the run was started from
+  definitionVersion?: number; // Version of that workflow the run executed; unset when a client ran a graph that differs from the latest save
+  edges: WorkflowEdge[];
+  endTime?: number;
+  error?: string; // Set when the run failed outside of any node
+  failedNodes?: string[];
+  inputs: Record<string, unknown>;
+  nodeRuns: Record<string, NodeRun>;
+  nodes: NodeConfig[];
+  options: WorkflowRunOptions;
+  parentRunId?: string; // Set on re-runs: the run whose results were reused
+  rerunFromNodeId?: string; // Set on re-runs: the node execution restarted from
+  runId: string;
+  startedBy?: string; // ID of the user who started the run; unset for schedules, webhooks and unauthenticated servers
+  startTime: number;
+  status: RunStatus;
+  timedOutNodes?: string[];
+  trigger?: RunTrigger; // Set on runs started by a schedule or a webhook node
+}
+
+export interface WorkflowRunOptions {
+  deadlineMs?: number;
+  nodeTimeoutMs?: number;
+}
+
+/**
+ * A cron schedule running the latest saved version of a workflow
+ * Occurrences are computed in timezone; runs started by it carry a ScheduleTrigger
+ */
+export interface WorkflowSchedule {
+  createdAt: number;
+  cron: string; // Five fields (minute hour day-of-month month day-of-week) or a macro such as @daily
+  definitionId: string;
+  id: string;
+  inputs: Record<string, unknown>; // Run inputs, exposed to templates as inputs.*
+  lastError?: string; // Why the last occurrence did not start a run
+  lastRunAt?: number;
+  lastRunId?: string;
+  missedRunPolicy: ScheduleMissedRunPolicy;
+  nextRunAt?: number; // Next occurrence still to run; unset once the expression matches no future time
+  paused: boolean; // Occurrences passing while paused are never run
+  timezone: string; // IANA name, e.g. "Europe/Berlin"
+  updatedAt: number;
+}
+
+/**
+ * Snapshot of a workflow definition as it was saved; never modified afterwards
+ */
+export interface WorkflowVersion {
+  createdAt: number; // When this version was saved
+  definitionId: string;
+  description?: string;
+  edges: WorkflowEdge[];
+  name: string;
+  nodes: WorkflowDefinitionNode[];
+  restoredFrom?: number; // Set when the version was created by rolling back to an older one
+  version: number;
+}
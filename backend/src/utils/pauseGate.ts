@@ -0,0 +1,40 @@
+/**
+ * Gate that holds callers back while paused
+ * Shared between a run's executor and the child executors of its forEach loops
+ */
+export class PauseGate {
+  get isPaused(): boolean {
+    return this.paused;
+  }
+  private paused = false;
+
+  private waiters: (() => void)[] = [];
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    for (const release of this.waiters.splice(0)) release();
+  }
+
+  /**
+   * Resolve once the gate is open, or as soon as the signal aborts
+   */
+  wait(signal: AbortSignal): Promise<void> {
+    if (!this.paused || signal.aborted) return Promise.resolve();
+
+    return new Promise((resolve) => {
+      const release = () => {
+        signal.removeEventListener("abort", release);
+        this.waiters = this.waiters.filter((waiter) => waiter !== release);
+        resolve();
+      };
+      this.waiters.push(release);
+      signal.addEventListener("abort", release, { once: true });
+    });
+  }
+}
+
+export default PauseGate;
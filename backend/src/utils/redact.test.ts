@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+
+import { redact, REDACTED } from "./redact.js";
+
+describe("redact", () => {
+  it("replaces secrets in strings at any depth of arrays and plain objects", () => {
+    const value = { headers: { authorization: "Bearer abc123" }, list: ["abc123", 42, null], message: "no secret here" };
+
+    expect(redact(value, ["abc123"])).toEqual({
+      headers: { authorization: `Bearer ${REDACTED}` },
+      list: [REDACTED, 42, null],
+      message: "no secret here",
+    });
+    // The original is left untouched
+    expect(value.headers.authorization).toBe("Bearer abc123");
+  });
+
+  it("hides a secret containing another one whole", () => {
+    expect(redact("key=abc-extended", ["abc", "abc-extended"])).toBe(`key=${REDACTED}`);
+  });
+
+  it("ignores empty secrets and leaves other objects alone", () => {
+    const date = new Date(0);
+
+    expect(redact("text", [""])).toBe("text");
+    expect(redact({ at: date }, ["1970"]).at).toBe(date);
+  });
+});
@@ -0,0 +1,25 @@
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Copy of a value with every occurrence of the secrets in its strings, at any depth, replaced by [REDACTED]
+ * Only arrays and plain objects are walked; longer secrets are replaced first so a secret containing another is hidden whole
+ */
+export function redact<T>(value: T, secrets: Iterable<string>): T {
+  const ordered = [...secrets].filter((secret) => secret !== "").sort((a, b) => b.length - a.length);
+  if (ordered.length === 0) return value;
+
+  const visit = (item: unknown): unknown => {
+    if (typeof item === "string") return ordered.reduce((text, secret) => text.replaceAll(secret, REDACTED), item);
+    if (Array.isArray(item)) return item.map(visit);
+    if (isPlainObject(item)) return Object.fromEntries(Object.entries(item).map(([key, entry]) => [key, visit(entry)]));
+    return item;
+  };
+
+  return visit(value) as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object") return false;
+  const prototype = Object.getPrototypeOf(value) as unknown;
+  return prototype === Object.prototype || prototype === null;
+}
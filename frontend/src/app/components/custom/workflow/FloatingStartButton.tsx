@@ -1,17 +1,53 @@
 "use client";
 
+import { Pause, Play, Square } from "lucide-react";
+
+import useStore from "@/app/store/workflowStore";
+
 interface FloatingStartButtonProps {
   onClick: () => void;
+  onCancel: () => void;
+  onPause: () => void;
+  onResume: () => void;
 }
 
-export function FloatingStartButton({ onClick }: FloatingStartButtonProps) {
+/**
+ * Run controls: Start when idle; Pause/Resume and Cancel while a run is executing
+ */
+export function FloatingStartButton({ onClick, onCancel, onPause, onResume }: FloatingStartButtonProps) {
+  const isExecuting = useStore(state => state.isExecuting);
+  const isPaused = useStore(state => state.isPaused);
+
+  const buttonClass = "cursor-pointer rounded-lg text-white p-4 shadow-lg hover:shadow-xl transition-all duration-200 flex items-center justify-center gap-2";
+
+  if (!isExecuting) {
+    return (
+      <div className="fixed top-8 left-8 z-40">
+        <button onClick={onClick} className={`${buttonClass} bg-blue-500 hover:bg-blue-600`} title="Start Workflow">
+          <Play size={16} />
+          Start Workflow
+        </button>
+      </div>
+    );
+  }
+
   return (
-    <button
-      onClick={onClick}
-      className="cursor-pointer rounded-lg fixed top-8 left-8 bg-blue-500 hover:bg-blue-600 text-white p-4 shadow-lg hover:shadow-xl transition-all duration-200 z-40 flex items-center justify-center group"
-      title="Start Workflow"
-    >
-      Start Workflow
-    </button>
+    <div className="fixed top-8 left-8 z-40 flex items-center gap-2">
+      <button
+        onClick={isPaused ? onResume : onPause}
+        className={`${buttonClass} ${isPaused ? "bg-green-500 hover:bg-green-600" : "bg-amber-500 hover:bg-amber-600"}`}
+        title={isPaused ? "Resume Workflow" : "Pause Workflow"}
+      >
+        {isPaused ? <Play size={16} /> : <Pause size={16} />}
+        {isPaused ? "Resume" : "Pause"}
+      </button>
+      <button onClick={onCancel} className={`${buttonClass} bg-red-500 hover:bg-red-600`} title="Cancel Workflow">
+        <Square size={16} />
+        Cancel
+      </button>
+      <span className={`text-xs font-semibold px-2 py-1 rounded ${isPaused ? "bg-amber-100 text-amber-800" : "bg-blue-100 text-blue-800"}`}>
+        {isPaused ? "Paused" : "Running"}
+      </span>
+    </div>
   );
 }
@@ -0,0 +1,36 @@
+"use client";
+
+import { AlertTriangle, X } from "lucide-react";
+
+import useStore from "@/app/store/workflowStore";
+
+/**
+ * Lists graph validation issues returned by the backend
+ */
+export function GraphIssuesPanel() {
+  const graphIssues = useStore(state => state.graphIssues);
+  const setGraphIssues = useStore(state => state.setGraphIssues);
+
+  if (graphIssues.length === 0) return null;
+
+  return (
+    <div className="fixed top-28 left-8 z-40 w-80 bg-white border border-red-200 rounded-lg shadow-lg">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-red-100 bg-red-50 rounded-t-lg">
+        <div className="flex items-center gap-2 text-sm font-semibold text-red-900">
+          <AlertTriangle size={16} className="text-red-600" />
+          Invalid workflow ({graphIssues.length})
+        </div>
+        <button className="cursor-pointer text-red-600 hover:text-red-800" title="Dismiss" onClick={() => setGraphIssues([])}>
+          <X size={16} />
+        </button>
+      </div>
+      <ul className="max-h-48 overflow-y-auto p-3 space-y-1 text-xs text-red-700">
+        {graphIssues.map((issue, idx) => (
+          <li key={idx}>
+            <span className="font-mono text-red-500">{issue.code}</span> {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
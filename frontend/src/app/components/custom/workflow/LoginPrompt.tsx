@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { LogIn, Lock, X } from "lucide-react";
+
+import useStore from "@/app/store/workflowStore";
+import { setAuthToken } from "@/services/authToken";
+import { getSocketService } from "@/services/socketService";
+
+/**
+ * Asks for an access token when the server refuses the current one (UNAUTHORIZED)
+ * or the signed-in user lacks access to a workflow or run (FORBIDDEN)
+ */
+export function LoginPrompt() {
+  const authPrompt = useStore(state => state.authPrompt);
+  const setAuthPrompt = useStore(state => state.setAuthPrompt);
+  const queryClient = useQueryClient();
+  const [token, setToken] = useState("");
+
+  if (!authPrompt) return null;
+
+  const handleSignIn = () => {
+    setAuthToken(token.trim());
+    setToken("");
+    setAuthPrompt(null);
+    // Everything loaded so far was loaded as someone else, or not at all
+    getSocketService().reconnect();
+    void queryClient.invalidateQueries();
+  };
+
+  const forbidden = authPrompt.code === "FORBIDDEN";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30">
+      <div className="w-96 bg-white border border-gray-200 rounded-lg shadow-lg">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+          <div className="flex items-center gap-2 text-sm font-semibold text-gray-800">
+            <Lock size={16} className={forbidden ? "text-amber-600" : "text-blue-600"} />
+            {forbidden ? "Access denied" : "Sign in"}
+          </div>
+          <button className="cursor-pointer text-gray-500 hover:text-gray-700" title="Dismiss" onClick={() => setAuthPrompt(null)}>
+            <X size={16} />
+          </button>
+        </div>
+        <div className="p-4 space-y-3">
+          <p className="text-xs text-gray-600">{authPrompt.message}</p>
+          <p className="text-xs text-gray-500">
+            {forbidden ? "Sign in as a user with access, or ask the workflow's owner to share it with you." : "Paste your access token to continue."}
+          </p>
+          <textarea
+            className="w-full h-20 text-xs font-mono text-gray-800 bg-gray-50 border border-gray-200 rounded px-2 py-1 resize-none"
+            placeholder="Access token"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+          />
+          <button
+            className="cursor-pointer w-full flex items-center justify-center gap-1 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded px-3 py-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={!token.trim()}
+            onClick={handleSignIn}
+          >
+            <LogIn size={14} />
+            Sign in
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
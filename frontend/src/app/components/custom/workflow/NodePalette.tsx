@@ -0,0 +1,39 @@
+"use client";
+
+import { CheckCircle, GitBranch, Merge, Repeat, Server, Shuffle, UserCheck, Webhook } from "lucide-react";
+
+import { useWorkflowStore } from "@/app/hooks/useWorkflowStore";
+
+const PALETTE_ITEMS = [
+  { type: "webhook", label: "Webhook", icon: Webhook },
+  { type: "api", label: "API", icon: Server },
+  { type: "condition", label: "Condition", icon: GitBranch },
+  { type: "forEach", label: "ForEach", icon: Repeat },
+  { type: "merge", label: "Merge", icon: Merge },
+  { type: "transform", label: "Transform", icon: Shuffle },
+  { type: "approval", label: "Approval", icon: UserCheck },
+  { type: "result", label: "Result", icon: CheckCircle },
+];
+
+/**
+ * Buttons for adding new nodes to the canvas
+ */
+export function NodePalette() {
+  const { addNode } = useWorkflowStore();
+
+  return (
+    <div className="fixed bottom-8 left-8 z-40 flex gap-2 bg-white border border-gray-200 rounded-lg shadow-lg p-2">
+      {PALETTE_ITEMS.map(({ type, label, icon: Icon }) => (
+        <button
+          key={type}
+          className="cursor-pointer flex items-center gap-1 text-xs font-medium text-gray-700 px-2 py-1 rounded hover:bg-gray-100"
+          title={`Add ${label} node`}
+          onClick={() => addNode(type)}
+        >
+          <Icon size={14} />
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
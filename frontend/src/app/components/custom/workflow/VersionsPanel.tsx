@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { RotateCcw, X } from "lucide-react";
+
+import useStore from "@/app/store/workflowStore";
+import { useRollbackWorkflow, useVersionDiff, useWorkflowVersions } from "@/app/hooks/useWorkflows";
+import { FieldChange, fromWorkflowDefinition, WorkflowDiff } from "@/services/workflowApi";
+
+interface VersionsPanelProps {
+  definitionId: string;
+  onClose: () => void;
+  onRestored: (message: string) => void;
+}
+
+function formatValue(value: unknown) {
+  return value === undefined ? "—" : JSON.stringify(value);
+}
+
+function ChangeLine({ change }: { change: FieldChange }) {
+  return (
+    <div className="truncate" title={`${change.path}: ${formatValue(change.from)} → ${formatValue(change.to)}`}>
+      <span className="text-gray-500">{change.path}</span> <span className="text-red-600">{formatValue(change.from)}</span> →{" "}
+      <span className="text-green-700">{formatValue(change.to)}</span>
+    </div>
+  );
+}
+
+function DiffSummary({ diff }: { diff: WorkflowDiff }) {
+  const { metadata, nodes, edges } = diff;
+  const empty =
+    metadata.length + nodes.added.length + nodes.removed.length + nodes.changed.length + edges.added.length + edges.removed.length + edges.rewired.length === 0;
+  if (empty) return <p className="text-xs text-gray-500 italic">Identical to the current version</p>;
+
+  return (
+    <div className="space-y-1 text-xs font-mono">
+      {metadata.map((change) => (
+        <ChangeLine key={change.path} change={change} />
+      ))}
+      {nodes.added.map((node) => (
+        <div key={`+${node.id}`} className="text-green-700">+ node {node.id} ({node.type})</div>
+      ))}
+      {nodes.removed.map((node) => (
+        <div key={`-${node.id}`} className="text-red-600">- node {node.id} ({node.type})</div>
+      ))}
+      {nodes.changed.map(({ nodeId, changes }) => (
+        <div key={`~${nodeId}`}>
+          <div className="text-amber-700">~ node {nodeId}</div>
+          <div className="pl-3">
+            {changes.map((change) => (
+              <ChangeLine key={change.path} change={change} />
+            ))}
+          </div>
+        </div>
+      ))}
+      {edges.added.map((edge) => (
+        <div key={`+${edge.id}`} className="text-green-700">+ edge {edge.source} → {edge.target}</div>
+      ))}
+      {edges.removed.map((edge) => (
+        <div key={`-${edge.id}`} className="text-red-600">- edge {edge.source} → {edge.target}</div>
+      ))}
+      {edges.rewired.map(({ edgeId, from, to }) => (
+        <div key={`~${edgeId}`} className="text-amber-700">
+          ~ edge {from.source} → {from.target} is now {to.source} → {to.target}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Saved versions of the open workflow: compare one with the latest and roll back to it
+ */
+export function VersionsPanel({ definitionId, onClose, onRestored }: VersionsPanelProps) {
+  const loadDefinition = useStore(state => state.loadDefinition);
+  const isExecuting = useStore(state => state.isExecuting);
+  const { data: versions, isError } = useWorkflowVersions(definitionId);
+  const rollback = useRollbackWorkflow();
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const latest = versions?.[0]?.version;
+  // Changes a rollback would make: from the latest version to the selected one
+  const { data: diff, isFetching } = useVersionDiff(definitionId, latest, selected ?? undefined);
+
+  const handleRestore = (version: number) => {
+    if (!confirm(`Restore version ${version}? It will be saved as a new version.`)) return;
+    rollback.mutate(
+      { id: definitionId, version },
+      {
+        onSuccess: (saved) => {
+          loadDefinition(fromWorkflowDefinition(saved));
+          setSelected(null);
+          onRestored(`Restored version ${version} as version ${saved.version}`);
+        },
+        onError: (error) => onRestored(error.message),
+      }
+    );
+  };
+
+  return (
+    <div className="absolute top-full mt-2 left-1/2 -translate-x-1/2 w-96 max-h-[28rem] overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-700">Versions</h3>
+        <button className="cursor-pointer text-gray-500 hover:text-gray-700" title="Close" onClick={onClose}>
+          <X size={14} />
+        </button>
+      </div>
+      {isError ? <p className="text-xs text-red-600">Could not load versions</p> : null}
+      {versions?.map((version) => (
+        <div key={version.version} className={`rounded border p-2 ${selected === version.version ? "border-blue-300 bg-blue-50" : "border-gray-200"}`}>
+          <div className="flex items-center justify-between gap-2">
+            <button
+              className="cursor-pointer text-left text-xs text-gray-700 truncate"
+              title="Show changes compared to the latest version"
+              onClick={() => setSelected(selected === version.version ? null : version.version)}
+            >
+              <span className="font-semibold">v{version.version}</span> · {version.name} · {new Date(version.createdAt).toLocaleString()}
+              {version.restoredFrom ? <span className="text-gray-500"> (restored v{version.restoredFrom})</span> : null}
+            </button>
+            {version.version === latest ? (
+              <span className="text-xs text-gray-500">current</span>
+            ) : (
+              <button
+                className="cursor-pointer flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Save this version as the newest one"
+                disabled={isExecuting || rollback.isPending}
+                onClick={() => handleRestore(version.version)}
+              >
+                <RotateCcw size={12} />
+                Restore
+              </button>
+            )}
+          </div>
+          {selected === version.version && version.version !== latest ? (
+            <div className="mt-2 border-t border-gray-200 pt-2">
+              {diff && !isFetching ? <DiffSummary diff={diff} /> : <p className="text-xs text-gray-500">Loading changes...</p>}
+            </div>
+          ) : null}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { FilePlus, FolderOpen, GitCommitVertical, History, Save, Trash2 } from "lucide-react";
+
+import useStore from "@/app/store/workflowStore";
+import { useDeleteWorkflow, useSaveWorkflow, useWorkflowList, useWorkflowRuns } from "@/app/hooks/useWorkflows";
+import { getSocketService } from "@/services/socketService";
+import { fromWorkflowDefinition, getRun, getWorkflow, toWorkflowInput } from "@/services/workflowApi";
+import { VersionsPanel } from "./VersionsPanel";
+
+const START_NODE = { id: "1", type: "start", data: { label: "Start Node" }, position: { x: 0, y: 250 } };
+
+// Keep the open workflow in the URL so a reload reopens it
+function setUrlWorkflowId(id?: string) {
+  const url = new URL(window.location.href);
+  if (id) url.searchParams.set("workflow", id);
+  else url.searchParams.delete("workflow");
+  window.history.replaceState(null, "", url);
+}
+
+/**
+ * Save, open, create and delete workflow definitions stored by the backend, and browse their past runs
+ */
+export function WorkflowMenu() {
+  const definitionId = useStore(state => state.definitionId);
+  const definitionVersion = useStore(state => state.definitionVersion);
+  const workflowName = useStore(state => state.workflowName);
+  const isExecuting = useStore(state => state.isExecuting);
+  const setDefinitionMeta = useStore(state => state.setDefinitionMeta);
+  const loadDefinition = useStore(state => state.loadDefinition);
+  const loadRunStates = useStore(state => state.loadRunStates);
+  const updateNodeData = useStore(state => state.updateNodeData);
+
+  const { data: workflows, isError: listFailed } = useWorkflowList();
+  const saveWorkflow = useSaveWorkflow();
+  const removeWorkflow = useDeleteWorkflow();
+  const { data: runPage, refetch: refetchRuns } = useWorkflowRuns(definitionId);
+  const [message, setMessage] = useState<string | null>(null);
+  const [showVersions, setShowVersions] = useState(false);
+
+  // State is only set once the request settles, so the mount effect below can call this
+  const openWorkflow = useCallback(
+    (id: string) =>
+      getWorkflow(id).then(
+        (definition) => {
+          loadDefinition(fromWorkflowDefinition(definition));
+          setUrlWorkflowId(id);
+          setMessage(null);
+        },
+        (error: unknown) => setMessage(error instanceof Error ? error.message : "Failed to open workflow")
+      ),
+    [loadDefinition]
+  );
+
+  const openRun = async (runId: string) => {
+    try {
+      const run = await getRun(runId);
+      // A run still executing keeps updating the canvas until it ends
+      if (run.status === "running") getSocketService().subscribeToRun(run.runId);
+      else loadRunStates(run.runId, Object.values(run.nodeRuns));
+      setMessage(`Run from ${new Date(run.startTime).toLocaleString()}`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Failed to open run");
+    }
+  };
+
+  // A finished execution adds a run to the history
+  useEffect(() => {
+    if (definitionId && !isExecuting) void refetchRuns();
+  }, [definitionId, isExecuting, refetchRuns]);
+
+  // Open the workflow named in the URL, if any (openWorkflow is stable, so this runs once)
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("workflow");
+    if (id) void openWorkflow(id);
+  }, [openWorkflow]);
+
+  const handleSave = () => {
+    const { nodes, edges, workflowDescription } = useStore.getState();
+    saveWorkflow.mutate(
+      { id: definitionId, input: toWorkflowInput(workflowName.trim() || "Untitled workflow", workflowDescription, nodes, edges) },
+      {
+        onSuccess: (saved) => {
+          // Webhook nodes get their token on first save
+          for (const node of saved.nodes) {
+            if (node.type === "webhook" && node.data?.token) {
+              updateNodeData(node.id, { token: node.data.token });
+            }
+          }
+          setDefinitionMeta({
+            definitionId: saved.id,
+            definitionVersion: saved.version,
+            workflowName: saved.name,
+            workflowDescription: saved.description,
+          });
+          setUrlWorkflowId(saved.id);
+          setMessage("Saved");
+        },
+        onError: (error) => setMessage(error.message),
+      }
+    );
+  };
+
+  const handleNew = () => {
+    loadDefinition({ workflowName: "Untitled workflow", nodes: [START_NODE], edges: [] });
+    setUrlWorkflowId();
+    setMessage(null);
+    setShowVersions(false);
+  };
+
+  const handleDelete = () => {
+    if (!definitionId || !confirm(`Delete "${workflowName}"?`)) return;
+    removeWorkflow.mutate(definitionId, {
+      onSuccess: handleNew,
+      onError: (error) => setMessage(error.message),
+    });
+  };
+
+  const buttonClass = "cursor-pointer flex items-center gap-1 text-xs font-medium text-gray-700 px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="fixed top-8 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 bg-white border border-gray-200 rounded-lg shadow-lg p-2">
+      <input
+        className="w-48 text-sm text-gray-800 bg-gray-50 border border-gray-200 rounded px-2 py-1"
+        value={workflowName}
+        placeholder="Workflow name"
+        onChange={(e) => setDefinitionMeta({ definitionId, workflowName: e.target.value, workflowDescription: useStore.getState().workflowDescription })}
+      />
+      <button className={buttonClass} title="Save workflow" disabled={saveWorkflow.isPending} onClick={handleSave}>
+        <Save size={14} />
+        {saveWorkflow.isPending ? "Saving..." : "Save"}
+      </button>
+      <div className="flex items-center gap-1 text-gray-700">
+        <FolderOpen size={14} />
+        <select
+          className="cursor-pointer text-xs bg-transparent max-w-40 disabled:cursor-not-allowed"
+          value=""
+          disabled={isExecuting || !workflows?.length}
+          title={listFailed ? "Could not load saved workflows" : "Open a saved workflow"}
+          onChange={(e) => e.target.value && void openWorkflow(e.target.value)}
+        >
+          <option value="">{listFailed ? "Unavailable" : "Open..."}</option>
+          {workflows?.map((workflow) => (
+            <option key={workflow.id} value={workflow.id}>
+              {workflow.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <button className={buttonClass} title="New workflow" disabled={isExecuting} onClick={handleNew}>
+        <FilePlus size={14} />
+        New
+      </button>
+      {definitionId ? (
+        <button className={buttonClass} title="Versions" onClick={() => setShowVersions(!showVersions)}>
+          <GitCommitVertical size={14} />v{definitionVersion}
+        </button>
+      ) : null}
+      {definitionId ? (
+        <div className="flex items-center gap-1 text-gray-700">
+          <History size={14} />
+          <select
+            className="cursor-pointer text-xs bg-transparent max-w-40 disabled:cursor-not-allowed"
+            value=""
+            disabled={isExecuting || !runPage?.runs.length}
+            title="Inspect a past run"
+            onChange={(e) => e.target.value && void openRun(e.target.value)}
+          >
+            <option value="">History...</option>
+            {runPage?.runs.map((run) => (
+              <option key={run.runId} value={run.runId}>
+                {new Date(run.startTime).toLocaleString()} · {run.definitionVersion ? `v${run.definitionVersion} · ` : ""}
+                {run.status}
+                {run.trigger ? ` · ${run.trigger.type}` : ""}
+                {run.rerunFromNodeId ? ` (re-run from ${run.rerunFromNodeId})` : ""}
+              </option>
+            ))}
+          </select>
+        </div>
+      ) : null}
+      {definitionId ? (
+        <button className={`${buttonClass} text-red-600`} title="Delete workflow" disabled={isExecuting || removeWorkflow.isPending} onClick={handleDelete}>
+          <Trash2 size={14} />
+        </button>
+      ) : null}
+      {message ? <span className="text-xs text-gray-500 max-w-48 truncate" title={message}>{message}</span> : null}
+      {definitionId && showVersions ? (
+        <VersionsPanel key={definitionId} definitionId={definitionId} onClose={() => setShowVersions(false)} onRestored={setMessage} />
+      ) : null}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import React, { useMemo } from "react";
 import { Handle, NodeProps, Position } from "@xyflow/react";
-import { AlertCircle, CheckCircle, Loader, Server } from "lucide-react";
+import { AlertCircle, Ban, CheckCircle, Loader, Server, SkipForward } from "lucide-react";
 
 import { AppNode } from "@/app/types/store";
 import useStore from "@/app/store/workflowStore";
@@ -38,6 +38,18 @@ const ApiNode = React.memo(
             statusIcon: <AlertCircle size={16} />,
             statusLabel: "Error",
           };
+        case "cancelled":
+          return {
+            statusColor: "border-gray-500 bg-gray-400",
+            statusIcon: <Ban size={16} />,
+            statusLabel: "Cancelled",
+          };
+        case "skipped":
+          return {
+            statusColor: "border-2 border-dashed border-gray-400 bg-gray-300 opacity-60",
+            statusIcon: <SkipForward size={16} />,
+            statusLabel: "Skipped",
+          };
         default:
           return {
             statusColor: "border-purple-500 bg-purple-500",
@@ -0,0 +1,109 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { Handle, NodeProps, Position } from "@xyflow/react";
+import { AlertCircle, Ban, CheckCircle, GitBranch, Loader, SkipForward } from "lucide-react";
+
+import { AppNode } from "@/app/types/store";
+import useStore from "@/app/store/workflowStore";
+
+/**
+ * Condition node component with true/false branch handles
+ * Memoized to prevent unnecessary re-renders
+ */
+const ConditionNode = React.memo(
+  (props: NodeProps<AppNode>) => {
+    const { id, selected, data } = props;
+
+    // Subscribe only to this node's state
+    const nodeState = useStore(state => state.nodeStates.get(id));
+    const branch = (nodeState?.result as { branch?: string } | undefined)?.branch;
+
+    const { statusColor, statusIcon, statusLabel } = useMemo(() => {
+      switch (nodeState?.status) {
+        case "running":
+          return {
+            statusColor: "border-blue-500 bg-blue-400",
+            statusIcon: <Loader size={16} className="animate-spin" />,
+            statusLabel: "Evaluating",
+          };
+        case "completed":
+          return {
+            statusColor: "border-green-500 bg-green-400",
+            statusIcon: <CheckCircle size={16} />,
+            statusLabel: `Took ${branch ?? "?"} branch`,
+          };
+        case "error":
+          return {
+            statusColor: "border-red-500 bg-red-400",
+            statusIcon: <AlertCircle size={16} />,
+            statusLabel: "Error",
+          };
+        case "cancelled":
+          return {
+            statusColor: "border-gray-500 bg-gray-400",
+            statusIcon: <Ban size={16} />,
+            statusLabel: "Cancelled",
+          };
+        case "skipped":
+          return {
+            statusColor: "border-2 border-dashed border-gray-400 bg-gray-300 opacity-60",
+            statusIcon: <SkipForward size={16} />,
+            statusLabel: "Skipped",
+          };
+        default:
+          return {
+            statusColor: "border-amber-500 bg-amber-500",
+            statusIcon: null,
+            statusLabel: "Condition",
+          };
+      }
+    }, [nodeState?.status, branch]);
+
+    return (
+      <div className="relative">
+        <div
+          className={`flex items-center justify-center gap-2 px-6 py-4 rounded-lg ${statusColor} text-white font-bold transition-all duration-300 ${selected ? "border-2 border-gray-600 shadow-lg shadow-amber-400" : ""
+            }`}
+          title={`${statusLabel} - ${data?.label || "Condition Node"}`}
+        >
+          {statusIcon || <GitBranch size={24} />}
+          <span>{typeof data?.label === 'string' ? data.label : "Condition"}</span>
+          <Handle type="target" position={Position.Left} />
+          <Handle id="true" type="source" position={Position.Right} style={{ top: "30%", background: "#16a34a" }} />
+          <Handle id="false" type="source" position={Position.Right} style={{ top: "70%", background: "#dc2626" }} />
+        </div>
+
+        {/* Branch labels */}
+        <div className="absolute -right-10 top-[30%] -translate-y-1/2 text-[10px] font-semibold text-green-700">true</div>
+        <div className="absolute -right-10 top-[70%] -translate-y-1/2 text-[10px] font-semibold text-red-700">false</div>
+
+        {/* Status badge */}
+        {nodeState && nodeState.status !== "idle" && (
+          <div className="absolute -top-6 left-1/2 transform -translate-x-1/2 text-xs px-2 py-1 rounded bg-gray-800 text-white whitespace-nowrap">
+            {statusLabel}
+          </div>
+        )}
+
+        {/* Error indicator */}
+        {nodeState?.status === "error" && typeof nodeState.error === 'string' && (
+          <div className="absolute left-1/2 transform -translate-x-1/2 -top-16 text-xs px-2 py-1 rounded bg-red-700 text-white max-w-xs truncate">
+            {nodeState.error}
+          </div>
+        )}
+      </div>
+    );
+  },
+  (prevProps, nextProps) => {
+    // Custom comparison: only re-render if id, selected, or data.label changed
+    return (
+      prevProps.id === nextProps.id &&
+      prevProps.selected === nextProps.selected &&
+      prevProps.data?.label === nextProps.data?.label
+    );
+  }
+);
+
+ConditionNode.displayName = "ConditionNode";
+
+export { ConditionNode };
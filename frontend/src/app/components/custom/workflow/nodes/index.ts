@@ -1,9 +1,21 @@
 import { ApiNode } from "./apiNode";
+import { ApprovalNode } from "./approvalNode";
+import { ConditionNode } from "./conditionNode";
+import { ForEachNode } from "./forEachNode";
+import { MergeNode } from "./mergeNode";
 import { StartNode } from "./startNode";
 import { ResultNode } from "./resultNode";
+import { TransformNode } from "./transformNode";
+import { WebhookNode } from "./webhookNode";
 
 export const nodeTypes = {
     start: StartNode,
+    webhook: WebhookNode,
     api: ApiNode,
+    condition: ConditionNode,
+    forEach: ForEachNode,
+    merge: MergeNode,
+    approval: ApprovalNode,
+    transform: TransformNode,
     result: ResultNode,
 };
@@ -0,0 +1,129 @@
+"use client";
+
+import React, { useEffect, useMemo } from "react";
+import { Handle, NodeProps, Position, useUpdateNodeInternals } from "@xyflow/react";
+import { AlertCircle, Ban, CheckCircle, Loader, Merge, SkipForward } from "lucide-react";
+
+import { AppNode } from "@/app/types/store";
+import useStore from "@/app/store/workflowStore";
+
+/**
+ * Merge node component with one target handle per incoming branch
+ * Always renders a free handle so another branch can be connected
+ * Memoized to prevent unnecessary re-renders
+ */
+const MergeNode = React.memo(
+  (props: NodeProps<AppNode>) => {
+    const { id, selected, data } = props;
+
+    // Subscribe only to this node's state
+    const nodeState = useStore(state => state.nodeStates.get(id));
+
+    // Handles are named in-0, in-1, ...; keep one more than the highest connected index
+    const handleCount = useStore(state =>
+      Math.max(
+        2,
+        ...state.edges
+          .filter(edge => edge.target === id)
+          .map(edge => Number(edge.targetHandle?.replace("in-", "") ?? 0) + 2)
+          .filter(Number.isFinite)
+      )
+    );
+    const updateNodeInternals = useUpdateNodeInternals();
+
+    // React Flow must re-measure handles added or removed after the first render
+    useEffect(() => {
+      updateNodeInternals(id);
+    }, [id, handleCount, updateNodeInternals]);
+
+    const { statusColor, statusIcon, statusLabel } = useMemo(() => {
+      switch (nodeState?.status) {
+        case "running":
+          return {
+            statusColor: "border-blue-500 bg-blue-400",
+            statusIcon: <Loader size={16} className="animate-spin" />,
+            statusLabel: "Running",
+          };
+        case "completed":
+          return {
+            statusColor: "border-green-500 bg-green-400",
+            statusIcon: <CheckCircle size={16} />,
+            statusLabel: "Completed",
+          };
+        case "error":
+          return {
+            statusColor: "border-red-500 bg-red-400",
+            statusIcon: <AlertCircle size={16} />,
+            statusLabel: "Error",
+          };
+        case "cancelled":
+          return {
+            statusColor: "border-gray-500 bg-gray-400",
+            statusIcon: <Ban size={16} />,
+            statusLabel: "Cancelled",
+          };
+        case "skipped":
+          return {
+            statusColor: "border-2 border-dashed border-gray-400 bg-gray-300 opacity-60",
+            statusIcon: <SkipForward size={16} />,
+            statusLabel: "Skipped",
+          };
+        default:
+          return {
+            statusColor: "border-cyan-600 bg-cyan-600",
+            statusIcon: null,
+            statusLabel: "Merge",
+          };
+      }
+    }, [nodeState?.status]);
+
+    return (
+      <div className="relative">
+        <div
+          className={`flex items-center justify-center gap-2 px-6 py-4 min-h-16 rounded-lg ${statusColor} text-white font-bold transition-all duration-300 ${selected ? "border-2 border-gray-600 shadow-lg shadow-cyan-400" : ""
+            }`}
+          title={`${statusLabel} - ${data?.label || "Merge"}`}
+        >
+          {statusIcon || <Merge size={24} />}
+          <span>{typeof data?.label === 'string' ? data.label : "Merge"}</span>
+          {Array.from({ length: handleCount }, (_, index) => (
+            <Handle
+              key={index}
+              id={`in-${index}`}
+              type="target"
+              position={Position.Left}
+              style={{ top: `${((index + 1) / (handleCount + 1)) * 100}%` }}
+            />
+          ))}
+          <Handle type="source" position={Position.Right} />
+        </div>
+
+        {/* Status badge */}
+        {nodeState && nodeState.status !== "idle" && (
+          <div className="absolute -top-6 left-1/2 transform -translate-x-1/2 text-xs px-2 py-1 rounded bg-gray-800 text-white whitespace-nowrap">
+            {statusLabel}
+          </div>
+        )}
+
+        {/* Error indicator */}
+        {nodeState?.status === "error" && typeof nodeState.error === 'string' && (
+          <div className="absolute left-1/2 transform -translate-x-1/2 -top-16 text-xs px-2 py-1 rounded bg-red-700 text-white max-w-xs truncate">
+            {nodeState.error}
+          </div>
+        )}
+      </div>
+    );
+  },
+  (prevProps, nextProps) => {
+    // Custom comparison: only re-render if id, selected, or data.label changed
+    return (
+      prevProps.id === nextProps.id &&
+      prevProps.selected === nextProps.selected &&
+      prevProps.data?.label === nextProps.data?.label
+    );
+  }
+);
+
+MergeNode.displayName = "MergeNode";
+
+export { MergeNode };
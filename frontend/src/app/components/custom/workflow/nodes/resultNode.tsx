@@ -2,7 +2,7 @@
 
 import React, { useMemo } from "react";
 import { Handle, NodeProps, Position } from "@xyflow/react";
-import { AlertCircle, CheckCircle, Loader, CheckCircle as CheckCircleIcon } from "lucide-react";
+import { AlertCircle, Ban, CheckCircle, Loader, SkipForward, CheckCircle as CheckCircleIcon } from "lucide-react";
 
 import { AppNode } from "@/app/types/store";
 import useStore from "@/app/store/workflowStore";
@@ -38,6 +38,18 @@ const ResultNode = React.memo(
             statusIcon: <AlertCircle size={16} />,
             statusLabel: "Error",
           };
+        case "cancelled":
+          return {
+            statusColor: "border-gray-500 bg-gray-400",
+            statusIcon: <Ban size={16} />,
+            statusLabel: "Cancelled",
+          };
+        case "skipped":
+          return {
+            statusColor: "border-2 border-dashed border-gray-400 bg-gray-300 opacity-60",
+            statusIcon: <SkipForward size={16} />,
+            statusLabel: "Skipped",
+          };
         default:
           return {
             statusColor: "border-green-500 bg-green-500",
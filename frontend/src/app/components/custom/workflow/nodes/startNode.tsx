@@ -2,7 +2,7 @@
 
 import React, { useMemo } from "react";
 import { Handle, NodeProps, Position } from "@xyflow/react";
-import { AlertCircle, CheckCircle, Loader } from "lucide-react";
+import { AlertCircle, Ban, CheckCircle, Loader, SkipForward } from "lucide-react";
 
 import { AppNode } from "@/app/types/store";
 import useStore from "@/app/store/workflowStore";
@@ -38,6 +38,18 @@ const StartNode = React.memo(
             statusIcon: <AlertCircle size={14} />,
             statusLabel: "Error",
           };
+        case "cancelled":
+          return {
+            statusColor: "border-gray-500 bg-gray-400",
+            statusIcon: <Ban size={14} />,
+            statusLabel: "Cancelled",
+          };
+        case "skipped":
+          return {
+            statusColor: "border-2 border-dashed border-gray-400 bg-gray-300 opacity-60",
+            statusIcon: <SkipForward size={14} />,
+            statusLabel: "Skipped",
+          };
         default:
           return {
             statusColor: "border-blue-500 bg-blue-500",
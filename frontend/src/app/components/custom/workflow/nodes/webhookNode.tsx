@@ -0,0 +1,91 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { Handle, NodeProps, Position } from "@xyflow/react";
+import { AlertCircle, Ban, CheckCircle, Loader, SkipForward, Webhook } from "lucide-react";
+
+import { AppNode } from "@/app/types/store";
+import useStore from "@/app/store/workflowStore";
+
+/**
+ * Webhook node component: a start node triggered by an HTTP request to its hook URL
+ * Memoized to prevent unnecessary re-renders
+ */
+const WebhookNode = React.memo(
+  (props: NodeProps<AppNode>) => {
+    const { id, selected } = props;
+
+    // Subscribe only to this node's state
+    const nodeState = useStore(state => state.nodeStates.get(id));
+
+    const { statusColor, statusIcon, statusLabel } = useMemo(() => {
+      switch (nodeState?.status) {
+        case "running":
+          return {
+            statusColor: "border-blue-500 bg-blue-400",
+            statusIcon: <Loader size={14} className="animate-spin" />,
+            statusLabel: "Running",
+          };
+        case "completed":
+          return {
+            statusColor: "border-green-500 bg-green-400",
+            statusIcon: <CheckCircle size={14} />,
+            statusLabel: "Done",
+          };
+        case "error":
+          return {
+            statusColor: "border-red-500 bg-red-400",
+            statusIcon: <AlertCircle size={14} />,
+            statusLabel: "Error",
+          };
+        case "cancelled":
+          return {
+            statusColor: "border-gray-500 bg-gray-400",
+            statusIcon: <Ban size={14} />,
+            statusLabel: "Cancelled",
+          };
+        case "skipped":
+          return {
+            statusColor: "border-2 border-dashed border-gray-400 bg-gray-300 opacity-60",
+            statusIcon: <SkipForward size={14} />,
+            statusLabel: "Skipped",
+          };
+        default:
+          return {
+            statusColor: "border-violet-500 bg-violet-500",
+            statusIcon: null,
+            statusLabel: "Webhook",
+          };
+      }
+    }, [nodeState?.status]);
+
+    return (
+      <div className={`relative`}>
+        <div
+          className={`flex items-center justify-center w-16 h-16 rounded-full ${statusColor} text-white font-bold text-lg transition-all duration-300 ${selected ? "border-2 border-gray-600 shadow-lg shadow-violet-400" : ""
+            }`}
+          title={`${statusLabel} - ${nodeState?.timestamp ? new Date(nodeState.timestamp).toLocaleTimeString() : "Not started"}`}
+        >
+          {statusIcon || <Webhook size={24} />}
+          <Handle type="source" position={Position.Right} />
+        </div>
+
+        {/* Status badge */}
+        {nodeState && nodeState.status !== "idle" && (
+          <div className="absolute -top-6 left-1/2 transform -translate-x-1/2 text-xs px-2 py-1 rounded bg-gray-800 text-white whitespace-nowrap">
+            {statusLabel}
+          </div>
+        )}
+      </div>
+    );
+  },
+  (prevProps, nextProps) => {
+    // Custom comparison: only re-render if id or selected changed
+    // nodeState is fetched fresh via hook
+    return prevProps.id === nextProps.id && prevProps.selected === nextProps.selected;
+  }
+);
+
+WebhookNode.displayName = "WebhookNode";
+
+export { WebhookNode };
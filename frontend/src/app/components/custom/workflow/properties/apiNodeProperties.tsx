@@ -1,10 +1,159 @@
-export default function ApiNodeProperties() {
-  return (
-    <div className="mt-4">
+"use client";
+
+import { useState } from "react";
+
+import { AppNode } from "@/app/types/store";
+import { useWorkflowStore } from "@/app/hooks/useWorkflowStore";
+import CredentialPicker from "./credentialPicker";
+
+const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"];
+
+interface ApiNodePropertiesProps {
+  node: AppNode;
+}
+
+function formatJson(value: unknown) {
+  return value === undefined ? "" : JSON.stringify(value, null, 2);
+}
+
+export default function ApiNodeProperties({ node }: ApiNodePropertiesProps) {
+  const { updateNodeData } = useWorkflowStore();
+  const [jsonErrors, setJsonErrors] = useState<Record<string, string>>({});
+  const data = node.data ?? {};
+
+  // Parse a JSON field on blur; empty input clears the field
+  const commitJson = (field: string, text: string) => {
+    try {
+      updateNodeData(node.id, { [field]: text.trim() ? JSON.parse(text) : undefined });
+      setJsonErrors((errors) => Object.fromEntries(Object.entries(errors).filter(([key]) => key !== field)));
+    } catch {
+      setJsonErrors((errors) => ({ ...errors, [field]: "Invalid JSON" }));
+    }
+  };
+
+  const commitExpectedStatus = (text: string) => {
+    const codes = text
+      .split(",")
+      .map((code) => Number(code.trim()))
+      .filter((code) => Number.isInteger(code) && code > 0);
+    updateNodeData(node.id, { expectedStatus: codes.length > 0 ? codes : undefined });
+  };
+
+  // Merge a single retry policy field into node.data.retry
+  const commitRetry = (field: string, text: string) => {
+    const value = Number(text);
+    const retry = { ...(data.retry as Record<string, unknown> | undefined) };
+    if (text.trim() && Number.isFinite(value)) {
+      retry[field] = value;
+    } else {
+      delete retry[field];
+    }
+    updateNodeData(node.id, { retry: Object.keys(retry).length > 0 ? retry : undefined });
+  };
 
+  const setBearerHeader = (reference: string) => {
+    const headers = { ...(data.headers as Record<string, unknown> | undefined), Authorization: `Bearer ${reference}` };
+    updateNodeData(node.id, { headers });
+  };
+
+  const retry = (data.retry ?? {}) as Record<string, unknown>;
+  const inputClass = "mt-1 w-full text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded px-2 py-1";
+
+  return (
+    <div className="mt-4 space-y-3">
       <h2 className="text-sm font-semibold mb-2">API Node Properties</h2>
-      <p className="text-xs text-gray-600">Configure your API node settings here.</p>
 
+      <div>
+        <label className="block text-xs font-medium text-gray-600">Method</label>
+        <select
+          className={inputClass}
+          defaultValue={typeof data.method === "string" ? data.method : "GET"}
+          onChange={(e) => updateNodeData(node.id, { method: e.target.value })}
+        >
+          {HTTP_METHODS.map((method) => (
+            <option key={method} value={method}>{method}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-600">URL</label>
+        <input
+          className={`${inputClass} font-mono`}
+          defaultValue={typeof data.url === "string" ? data.url : ""}
+          placeholder="https://api.example.com/resource"
+          onBlur={(e) => updateNodeData(node.id, { url: e.target.value.trim() })}
+        />
+      </div>
+
+      {(["queryParams", "headers", "body"] as const).map((field) => (
+        <div key={field}>
+          <label className="block text-xs font-medium text-gray-600">
+            {field === "queryParams" ? "Query params" : field === "headers" ? "Headers" : "Body"} (JSON)
+          </label>
+          <textarea
+            key={formatJson(data[field])}
+            className={`${inputClass} font-mono text-xs h-20`}
+            defaultValue={formatJson(data[field])}
+            placeholder={field === "body" ? '{ "key": "value" }' : '{ "name": "value" }'}
+            onBlur={(e) => commitJson(field, e.target.value)}
+          />
+          {jsonErrors[field] ? <p className="text-xs text-red-600 mt-1">{jsonErrors[field]}</p> : null}
+        </div>
+      ))}
+
+      <CredentialPicker onUseAsBearer={setBearerHeader} />
+
+      <div>
+        <label className="block text-xs font-medium text-gray-600">Expected status codes</label>
+        <input
+          className={`${inputClass} font-mono`}
+          defaultValue={Array.isArray(data.expectedStatus) ? data.expectedStatus.join(", ") : ""}
+          placeholder="Any 2xx"
+          onBlur={(e) => commitExpectedStatus(e.target.value)}
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-600">Timeout (ms)</label>
+        <input
+          type="number"
+          min={1}
+          className={inputClass}
+          defaultValue={typeof data.timeoutMs === "number" ? data.timeoutMs : ""}
+          placeholder="No timeout"
+          onBlur={(e) => {
+            const timeoutMs = Number(e.target.value);
+            updateNodeData(node.id, { timeoutMs: e.target.value.trim() && timeoutMs > 0 ? timeoutMs : undefined });
+          }}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs font-medium text-gray-600">Max attempts</label>
+          <input
+            type="number"
+            min={1}
+            max={10}
+            className={inputClass}
+            defaultValue={typeof retry.maxAttempts === "number" ? retry.maxAttempts : ""}
+            placeholder="1"
+            onBlur={(e) => commitRetry("maxAttempts", e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600">Initial backoff (ms)</label>
+          <input
+            type="number"
+            min={0}
+            className={inputClass}
+            defaultValue={typeof retry.initialDelayMs === "number" ? retry.initialDelayMs : ""}
+            placeholder="500"
+            onBlur={(e) => commitRetry("initialDelayMs", e.target.value)}
+          />
+        </div>
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { AppNode } from "@/app/types/store";
+import { useWorkflowStore } from "@/app/hooks/useWorkflowStore";
+
+interface ApprovalNodePropertiesProps {
+  node: AppNode;
+}
+
+export default function ApprovalNodeProperties({ node }: ApprovalNodePropertiesProps) {
+  const { updateNodeData } = useWorkflowStore();
+  const data = node.data ?? {};
+
+  const commitTimeout = (text: string) => {
+    const seconds = Number(text);
+    updateNodeData(node.id, { approvalTimeoutMs: text.trim() && seconds > 0 ? Math.round(seconds * 1000) : undefined });
+  };
+
+  const inputClass = "mt-1 w-full text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded px-2 py-1";
+
+  return (
+    <div className="mt-4 space-y-3">
+      <h2 className="text-sm font-semibold mb-2">Approval Node Properties</h2>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-600">Message</label>
+        <textarea
+          className={inputClass}
+          rows={3}
+          defaultValue={typeof data.message === "string" ? data.message : ""}
+          placeholder="Deploy {{ nodes.2.result.body.version }} to production?"
+          onBlur={(e) => updateNodeData(node.id, { message: e.target.value })}
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Shown to the approver together with the upstream results. The branch continues on approve and fails on reject.
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-600">Approval timeout (s)</label>
+        <input
+          type="number"
+          min={1}
+          className={inputClass}
+          defaultValue={typeof data.approvalTimeoutMs === "number" ? data.approvalTimeoutMs / 1000 : ""}
+          placeholder="Wait indefinitely"
+          onBlur={(e) => commitTimeout(e.target.value)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { useState } from "react";
+import { Check, X } from "lucide-react";
+
+import { PendingApproval } from "@/app/types/store";
+import { getSocketService } from "@/services/socketService";
+
+interface ApprovalPromptProps {
+  workflowId: string;
+  pendingApproval: PendingApproval;
+}
+
+/**
+ * Approve/reject controls for an approval node that is waiting on a decision
+ */
+export default function ApprovalPrompt({ workflowId, pendingApproval }: ApprovalPromptProps) {
+  const [comment, setComment] = useState("");
+  const [sent, setSent] = useState(false);
+
+  const respond = (decision: "approve" | "reject") => {
+    getSocketService().respondToApproval(workflowId, pendingApproval.approvalId, decision, comment.trim() || undefined);
+    setSent(true);
+  };
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-2">
+      <h3 className="text-sm font-semibold text-amber-900">Approval Required</h3>
+      {pendingApproval.message ? <p className="text-sm text-amber-800 whitespace-pre-wrap">{pendingApproval.message}</p> : null}
+      {pendingApproval.expiresAt ? (
+        <p className="text-xs text-amber-700">Expires at {new Date(pendingApproval.expiresAt).toLocaleTimeString()}</p>
+      ) : null}
+      <textarea
+        className="w-full text-sm text-gray-700 bg-white border border-amber-200 rounded px-2 py-1"
+        rows={2}
+        maxLength={2000}
+        value={comment}
+        placeholder="Comment (optional)"
+        onChange={(e) => setComment(e.target.value)}
+      />
+      <div className="flex gap-2">
+        <button
+          className="cursor-pointer flex items-center gap-1 text-xs font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 px-3 py-1 rounded"
+          disabled={sent}
+          onClick={() => respond("approve")}
+        >
+          <Check size={14} />
+          Approve
+        </button>
+        <button
+          className="cursor-pointer flex items-center gap-1 text-xs font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 px-3 py-1 rounded"
+          disabled={sent}
+          onClick={() => respond("reject")}
+        >
+          <X size={14} />
+          Reject
+        </button>
+      </div>
+    </div>
+  );
+}
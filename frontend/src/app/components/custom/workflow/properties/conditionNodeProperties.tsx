@@ -0,0 +1,35 @@
+"use client";
+
+import { AppNode } from "@/app/types/store";
+import { useWorkflowStore } from "@/app/hooks/useWorkflowStore";
+
+interface ConditionNodePropertiesProps {
+  node: AppNode;
+}
+
+export default function ConditionNodeProperties({ node }: ConditionNodePropertiesProps) {
+  const { updateNodeData } = useWorkflowStore();
+  const expression = node.data?.expression;
+
+  return (
+    <div className="mt-4 space-y-3">
+      <h2 className="text-sm font-semibold mb-2">Condition Node Properties</h2>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-600">Expression</label>
+        <textarea
+          className="mt-1 w-full text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded px-2 py-1 font-mono"
+          rows={3}
+          defaultValue={typeof expression === "string" ? expression : String(expression ?? "")}
+          placeholder="nodes.2.result.status == 200 && inputs.enabled"
+          onBlur={(e) => updateNodeData(node.id, { expression: e.target.value.trim() })}
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Edges from the true handle run when the expression is truthy; the other branch is skipped.
+          Supports ==, !=, &lt;, &lt;=, &gt;, &gt;=, &amp;&amp;, || and !. Write a bare expression or a single{" "}
+          {"{{ }}"} template, not both.
+        </p>
+      </div>
+    </div>
+  );
+}
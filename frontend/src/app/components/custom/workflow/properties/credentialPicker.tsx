@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from "react";
+import { KeyRound, Plus, Trash2 } from "lucide-react";
+
+import { useCreateCredential, useCredentialList, useDeleteCredential } from "@/app/hooks/useCredentials";
+
+interface CredentialPickerProps {
+  onUseAsBearer: (reference: string) => void;
+}
+
+/**
+ * Pick or store a credential for an API node
+ * The node only holds the {{ secrets.<id> }} reference; the secret itself stays on the server
+ */
+export default function CredentialPicker({ onUseAsBearer }: CredentialPickerProps) {
+  const { data: credentials, error: listError } = useCredentialList();
+  const createCredential = useCreateCredential();
+  const deleteCredential = useDeleteCredential();
+  const [selectedId, setSelectedId] = useState("");
+  const [name, setName] = useState("");
+  const [secret, setSecret] = useState("");
+  const [adding, setAdding] = useState(false);
+
+  const reference = selectedId ? `{{ secrets.${selectedId} }}` : "";
+  const error = listError ?? createCredential.error ?? deleteCredential.error;
+  const inputClass = "mt-1 w-full text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded px-2 py-1";
+  const buttonClass = "cursor-pointer flex items-center gap-1 text-xs font-medium text-gray-700 px-2 py-1 rounded border border-gray-200 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  const handleCreate = () => {
+    createCredential.mutate(
+      { name: name.trim(), secret },
+      {
+        onSuccess: (created) => {
+          setSelectedId(created.id);
+          setName("");
+          setSecret("");
+          setAdding(false);
+        },
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    const credential = credentials?.find((c) => c.id === selectedId);
+    if (!credential || !confirm(`Delete credential "${credential.name}"? Nodes using it will fail.`)) return;
+    deleteCredential.mutate(selectedId, { onSuccess: () => setSelectedId("") });
+  };
+
+  return (
+    <div>
+      <label className="flex items-center gap-1 text-xs font-medium text-gray-600">
+        <KeyRound size={12} />
+        Credentials
+      </label>
+      <div className="flex gap-1">
+        <select className={inputClass} value={selectedId} onChange={(e) => setSelectedId(e.target.value)}>
+          <option value="">{credentials?.length ? "Select a credential..." : "No credentials"}</option>
+          {credentials?.map((credential) => (
+            <option key={credential.id} value={credential.id}>{credential.name}</option>
+          ))}
+        </select>
+        <button className="cursor-pointer text-gray-500 hover:text-gray-700" title="New credential" onClick={() => setAdding(!adding)}>
+          <Plus size={16} />
+        </button>
+      </div>
+
+      {selectedId ? (
+        <div className="mt-1 space-y-1">
+          <input className={`${inputClass} font-mono text-xs`} readOnly value={reference} onFocus={(e) => e.target.select()} />
+          <div className="flex gap-1">
+            <button className={buttonClass} onClick={() => onUseAsBearer(reference)}>
+              Use as bearer token
+            </button>
+            <button className={buttonClass} title="Delete credential" disabled={deleteCredential.isPending} onClick={handleDelete}>
+              <Trash2 size={12} />
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {adding ? (
+        <div className="mt-2 space-y-1">
+          <input className={inputClass} value={name} placeholder="Name" onChange={(e) => setName(e.target.value)} />
+          <input type="password" className={inputClass} value={secret} placeholder="Secret value" onChange={(e) => setSecret(e.target.value)} />
+          <button className={buttonClass} disabled={!name.trim() || !secret || createCredential.isPending} onClick={handleCreate}>
+            {createCredential.isPending ? "Saving..." : "Save credential"}
+          </button>
+        </div>
+      ) : null}
+
+      <p className="mt-1 text-xs text-gray-500">
+        Paste the reference into the URL, headers, query params or body. Secret values are hidden in logs and results.
+      </p>
+      {error ? <p className="text-xs text-red-600 mt-1">{error.message}</p> : null}
+    </div>
+  );
+}
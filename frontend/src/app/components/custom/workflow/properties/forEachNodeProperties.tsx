@@ -0,0 +1,63 @@
+"use client";
+
+import { AppNode } from "@/app/types/store";
+import { useWorkflowStore } from "@/app/hooks/useWorkflowStore";
+
+interface ForEachNodePropertiesProps {
+  node: AppNode;
+}
+
+export default function ForEachNodeProperties({ node }: ForEachNodePropertiesProps) {
+  const { updateNodeData } = useWorkflowStore();
+  const data = node.data ?? {};
+  const inputClass = "mt-1 w-full text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded px-2 py-1";
+
+  return (
+    <div className="mt-4 space-y-3">
+      <h2 className="text-sm font-semibold mb-2">ForEach Node Properties</h2>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-600">Items</label>
+        <input
+          className={`${inputClass} font-mono`}
+          defaultValue={typeof data.items === "string" ? data.items : JSON.stringify(data.items ?? "")}
+          placeholder="{{ nodes.2.result.body }}"
+          onBlur={(e) => updateNodeData(node.id, { items: e.target.value.trim() })}
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Must resolve to an array. Nodes on the item handle run once per element and read it as{" "}
+          <code>{`{{ nodes.${node.id}.result.item }}`}</code>; the done handle receives the collected results.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs font-medium text-gray-600">Concurrency</label>
+          <input
+            type="number"
+            min={1}
+            max={50}
+            className={inputClass}
+            defaultValue={typeof data.concurrency === "number" ? data.concurrency : ""}
+            placeholder="5"
+            onBlur={(e) => {
+              const concurrency = Number(e.target.value);
+              updateNodeData(node.id, { concurrency: e.target.value.trim() && concurrency > 0 ? concurrency : undefined });
+            }}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600">On item error</label>
+          <select
+            className={inputClass}
+            defaultValue={data.errorMode === "collect" ? "collect" : "stop"}
+            onChange={(e) => updateNodeData(node.id, { errorMode: e.target.value })}
+          >
+            <option value="stop">Stop</option>
+            <option value="collect">Collect errors</option>
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+}
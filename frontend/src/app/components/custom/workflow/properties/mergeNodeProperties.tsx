@@ -0,0 +1,49 @@
+"use client";
+
+import { AppNode } from "@/app/types/store";
+import { useWorkflowStore } from "@/app/hooks/useWorkflowStore";
+
+interface MergeNodePropertiesProps {
+  node: AppNode;
+}
+
+const MODE_DESCRIPTIONS: Record<string, string> = {
+  all: "Waits for every parent to finish; a failed parent blocks the merge.",
+  any: "Runs as soon as any parent finishes, even if it failed.",
+  first: "Runs with the first parent that succeeds.",
+};
+
+export default function MergeNodeProperties({ node }: MergeNodePropertiesProps) {
+  const { updateNodeData } = useWorkflowStore();
+  const data = node.data ?? {};
+  const mode = typeof data.mode === "string" ? data.mode : "all";
+  const inputClass = "mt-1 w-full text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded px-2 py-1";
+
+  return (
+    <div className="mt-4 space-y-3">
+      <h2 className="text-sm font-semibold mb-2">Merge Node Properties</h2>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-600">Wait for</label>
+        <select className={inputClass} value={mode} onChange={(e) => updateNodeData(node.id, { mode: e.target.value })}>
+          <option value="all">All parents</option>
+          <option value="any">Any parent</option>
+          <option value="first">First successful parent</option>
+        </select>
+        <p className="mt-1 text-xs text-gray-500">{MODE_DESCRIPTIONS[mode]}</p>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-600">Key results by</label>
+        <select
+          className={inputClass}
+          defaultValue={data.keyBy === "label" ? "label" : "id"}
+          onChange={(e) => updateNodeData(node.id, { keyBy: e.target.value })}
+        >
+          <option value="id">Node ID</option>
+          <option value="label">Node label</option>
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,21 @@
 "use client";
 
 import React, { useMemo } from "react";
-import { AlertCircle, CheckCircle, Loader } from "lucide-react";
+import { AlertCircle, Ban, CheckCircle, Loader, RotateCcw, SkipForward } from "lucide-react";
 
 import { AppNode } from "@/app/types/store";
 import useStore from "@/app/store/workflowStore";
 import { useNodeLogs } from "@/app/hooks/useNodeLogs";
+import { getSocketService } from "@/services/socketService";
 import ApiNodeProperties from "./apiNodeProperties";
+import ApprovalNodeProperties from "./approvalNodeProperties";
+import ApprovalPrompt from "./approvalPrompt";
+import ConditionNodeProperties from "./conditionNodeProperties";
+import ForEachNodeProperties from "./forEachNodeProperties";
+import MergeNodeProperties from "./mergeNodeProperties";
 import ResultNodeProperties from "./resultNodeProperties";
+import TransformNodeProperties from "./transformNodeProperties";
+import WebhookNodeProperties from "./webhookNodeProperties";
 import { nodeTypes } from "../nodes";
 
 interface PropertiesProps {
@@ -18,12 +26,21 @@ export default function Properties({ node }: PropertiesProps) {
   const label = String(node.data?.label || "Unknown");
   const nodeState = useStore(state => state.nodeStates.get(node.id));
   const workflowId = useStore(state => state.workflowId);
-  const { data: logs } = useNodeLogs(node.id, workflowId);
+  const isExecuting = useStore(state => state.isExecuting);
+  const { data: logs } = useNodeLogs(node.id, workflowId, nodeState?.status);
+  // Entries streamed with the node's events, otherwise those persisted for the run
+  const shownLogs = nodeState?.logs && nodeState.logs.length > 0 ? nodeState.logs : logs ?? [];
 
   const nodePropertiesMap: Record<keyof typeof nodeTypes, React.ReactNode> = {
-    api: <ApiNodeProperties />,
+    api: <ApiNodeProperties key={node.id} node={node} />,
+    approval: <ApprovalNodeProperties key={node.id} node={node} />,
+    condition: <ConditionNodeProperties key={node.id} node={node} />,
+    forEach: <ForEachNodeProperties key={node.id} node={node} />,
+    merge: <MergeNodeProperties key={node.id} node={node} />,
     result: <ResultNodeProperties />,
-    start: <></>
+    start: <></>,
+    transform: <TransformNodeProperties key={node.id} node={node} />,
+    webhook: <WebhookNodeProperties key={node.id} node={node} />,
   };
 
   // Calculate duration if node is running or completed
@@ -60,6 +77,12 @@ export default function Properties({ node }: PropertiesProps) {
               {nodeState.status === 'error' && (
                 <AlertCircle size={16} className="text-red-500" />
               )}
+              {nodeState.status === 'cancelled' && (
+                <Ban size={16} className="text-gray-500" />
+              )}
+              {nodeState.status === 'skipped' && (
+                <SkipForward size={16} className="text-gray-400" />
+              )}
             </div>
           )}
         </div>
@@ -81,6 +104,7 @@ export default function Properties({ node }: PropertiesProps) {
                       'text-gray-600'
                   }`}>
                   {nodeState.status.charAt(0).toUpperCase() + nodeState.status.slice(1)}
+                  {nodeState.cached ? ' (cached)' : ''}
                 </span>
               </div>
               {formattedTime ? (
@@ -95,6 +119,12 @@ export default function Properties({ node }: PropertiesProps) {
                   <span className="text-gray-700 font-mono">{duration}s</span>
                 </div>
               ) : null}
+              {nodeState.attempt && nodeState.attempt > 1 ? (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Attempt:</span>
+                  <span className="text-gray-700 font-mono">{nodeState.attempt}</span>
+                </div>
+              ) : null}
               {nodeState.progress !== undefined && nodeState.progress < 100 ? (
                 <div className="flex justify-between items-center">
                   <span className="text-gray-600">Progress:</span>
@@ -110,8 +140,41 @@ export default function Properties({ node }: PropertiesProps) {
           </div>
         ) : null}
 
+        {/* Re-run: reuse the finished run's upstream results and execute this node and its descendants */}
+        {workflowId && !isExecuting && nodeState && ['completed', 'error', 'cancelled'].includes(nodeState.status) ? (
+          <button
+            className="cursor-pointer w-full flex items-center justify-center gap-1 text-xs font-medium text-blue-700 border border-blue-200 bg-blue-50 hover:bg-blue-100 rounded px-3 py-1.5"
+            title="Execute this node and its descendants again, reusing the recorded results of everything else"
+            onClick={() => getSocketService().rerunFrom(workflowId, node.id)}
+          >
+            <RotateCcw size={14} />
+            Re-run from here
+          </button>
+        ) : null}
+
+        {/* Approval Section */}
+        {workflowId && nodeState?.status === 'running' && nodeState.pendingApproval ? (
+          <ApprovalPrompt key={nodeState.pendingApproval.approvalId} workflowId={workflowId} pendingApproval={nodeState.pendingApproval} />
+        ) : null}
+
+        {/* Retry History Section */}
+        {nodeState?.retryHistory && nodeState.retryHistory.length > 0 ? (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+            <h3 className="text-sm font-semibold text-yellow-900 mb-2">Retry History</h3>
+            <div className="space-y-1 text-xs">
+              {nodeState.retryHistory.map((retry) => (
+                <div key={retry.attempt} className="flex justify-between gap-2">
+                  <span className="text-yellow-800 font-medium shrink-0">#{retry.attempt}</span>
+                  <span className="text-yellow-700 truncate flex-1" title={retry.error}>{retry.error}</span>
+                  <span className="text-yellow-600 font-mono shrink-0">+{(retry.retryDelayMs / 1000).toFixed(1)}s</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : null}
+
         {/* Error Section */}
-        {nodeState?.error && nodeState.status === 'error' ? (
+        {nodeState?.error && (nodeState.status === 'error' || nodeState.status === 'cancelled') ? (
           <div className="bg-red-50 border border-red-200 rounded-lg p-3">
             <div className="flex items-start gap-2 mb-2">
               <AlertCircle size={16} className="text-red-600 mt-0.5 shrink-0" />
@@ -122,6 +185,16 @@ export default function Properties({ node }: PropertiesProps) {
             <p className="text-xs text-red-700 font-mono bg-red-100 rounded p-2 max-h-24 overflow-y-auto">
               {typeof nodeState.error === 'string' ? nodeState.error : String(nodeState.error)}
             </p>
+            {nodeState.errorDetails !== undefined ? (
+              <details className="mt-2">
+                <summary className="text-xs text-red-600 cursor-pointer hover:text-red-700">
+                  Details{nodeState.errorCode ? ` (${nodeState.errorCode})` : ''}
+                </summary>
+                <pre className="text-xs text-red-700 bg-red-100 rounded p-2 mt-1 max-h-32 overflow-y-auto whitespace-pre-wrap">
+                  {JSON.stringify(nodeState.errorDetails, null, 2)}
+                </pre>
+              </details>
+            ) : null}
             {nodeState.errorStack ? (
               <details className="mt-2">
                 <summary className="text-xs text-red-600 cursor-pointer hover:text-red-700">
@@ -145,30 +218,42 @@ export default function Properties({ node }: PropertiesProps) {
           </div>
         ) : null}
 
+        {/* Resolved Templates Section */}
+        {nodeState?.resolvedTemplates && Object.keys(nodeState.resolvedTemplates).length > 0 ? (
+          <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-3">
+            <h3 className="text-sm font-semibold text-indigo-900 mb-2">Resolved Values</h3>
+            <div className="space-y-1 text-xs font-mono">
+              {Object.entries(nodeState.resolvedTemplates).map(([path, value]) => (
+                <div key={path} className="flex gap-2">
+                  <span className="text-indigo-600 shrink-0">{path}</span>
+                  <span className="text-indigo-900 truncate" title={JSON.stringify(value)}>{JSON.stringify(value)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : null}
+
         {/* Logs Section */}
         <div className="bg-gray-50 rounded-lg p-3">
           <div className="flex items-center justify-between mb-2">
             <h3 className="text-sm font-semibold text-gray-700">Logs</h3>
-            {nodeState?.logs && nodeState.logs.length > 0 ? (
+            {shownLogs.length > 0 ? (
               <span className="text-xs bg-gray-200 text-gray-700 px-2 py-0.5 rounded-full">
-                {nodeState.logs.length}
+                {shownLogs.length}
               </span>
             ) : null}
           </div>
           <div className="space-y-1 max-h-48 overflow-y-auto text-xs font-mono bg-gray-900 text-gray-100 rounded p-2">
-            {nodeState?.logs && nodeState.logs.length > 0 ? (
-              nodeState.logs.map((log, idx) => (
-                <div key={idx} className="text-gray-300">
-                  <span className="text-gray-500">[{idx + 1}]</span> {log}
-                </div>
-              ))
-            ) : logs && logs.length > 0 ? (
-              logs.map((log, idx) => (
+            {shownLogs.length > 0 ? (
+              shownLogs.map((log, idx) => (
                 <div key={idx} className="text-gray-300">
-                  <span className="text-gray-500">[{log.timestamp}]</span>{' '}
+                  <span className="text-gray-500">[{new Date(log.timestamp).toLocaleTimeString()}]</span>{' '}
                   <span className={log.level === 'error' ? 'text-red-400' : log.level === 'warning' ? 'text-yellow-400' : 'text-green-400'}>
                     {log.message}
                   </span>
+                  {log.fields && Object.keys(log.fields).length > 0 ? (
+                    <span className="text-gray-500"> {JSON.stringify(log.fields)}</span>
+                  ) : null}
                 </div>
               ))
             ) : (
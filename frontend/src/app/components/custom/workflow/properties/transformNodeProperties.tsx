@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+
+import { AppNode } from "@/app/types/store";
+import { useWorkflowStore } from "@/app/hooks/useWorkflowStore";
+
+interface TransformNodePropertiesProps {
+  node: AppNode;
+}
+
+export default function TransformNodeProperties({ node }: TransformNodePropertiesProps) {
+  const { updateNodeData } = useWorkflowStore();
+  const data = node.data ?? {};
+  const [mode, setMode] = useState<"script" | "mapping">(data.mapping !== undefined ? "mapping" : "script");
+  const [mappingError, setMappingError] = useState<string | null>(null);
+
+  // Only one of script/mapping is sent; switching modes clears the other
+  const switchMode = (next: "script" | "mapping") => {
+    setMode(next);
+    setMappingError(null);
+    updateNodeData(node.id, next === "script" ? { mapping: undefined, script: "return inputs;" } : { mapping: {}, script: undefined });
+  };
+
+  const commitMapping = (text: string) => {
+    try {
+      const mapping = text.trim() ? JSON.parse(text) : {};
+      if (mapping === null || typeof mapping !== "object" || Array.isArray(mapping)) throw new Error();
+      updateNodeData(node.id, { mapping });
+      setMappingError(null);
+    } catch {
+      setMappingError("Mapping must be a JSON object");
+    }
+  };
+
+  const commitLimit = (field: "cpuLimitMs" | "memoryLimitMb", text: string) => {
+    const value = Number(text);
+    updateNodeData(node.id, { [field]: text.trim() && value > 0 ? value : undefined });
+  };
+
+  const inputClass = "mt-1 w-full text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded px-2 py-1";
+
+  return (
+    <div className="mt-4 space-y-3">
+      <h2 className="text-sm font-semibold mb-2">Transform Node Properties</h2>
+
+      <div className="flex gap-2 text-xs">
+        {(["script", "mapping"] as const).map((option) => (
+          <button
+            key={option}
+            className={`cursor-pointer px-2 py-1 rounded border ${mode === option ? "bg-teal-500 border-teal-500 text-white" : "border-gray-200 text-gray-600 hover:bg-gray-100"}`}
+            onClick={() => mode !== option && switchMode(option)}
+          >
+            {option === "script" ? "Script" : "Mapping"}
+          </button>
+        ))}
+      </div>
+
+      {mode === "script" ? (
+        <div>
+          <label className="block text-xs font-medium text-gray-600">Script</label>
+          <textarea
+            key="script"
+            className={`${inputClass} font-mono text-xs h-40`}
+            defaultValue={typeof data.script === "string" ? data.script : ""}
+            placeholder={"const user = inputs['2'].body;\nconsole.log('user', user.id);\nreturn { id: user.id, name: user.name };"}
+            onBlur={(e) => updateNodeData(node.id, { script: e.target.value })}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Function body. <code>inputs</code> maps each parent node ID to its result; the return value becomes this node&apos;s result.
+            Runs sandboxed without network or filesystem access; <code>console.log</code> output appears in Logs.
+          </p>
+        </div>
+      ) : (
+        <div>
+          <label className="block text-xs font-medium text-gray-600">Mapping (JSON)</label>
+          <textarea
+            key="mapping"
+            className={`${inputClass} font-mono text-xs h-40`}
+            defaultValue={data.mapping === undefined ? "" : JSON.stringify(data.mapping, null, 2)}
+            placeholder={'{\n  "id": "{{ nodes.2.result.body.id }}",\n  "name": "{{ upper(nodes.2.result.body.name) }}"\n}'}
+            onBlur={(e) => commitMapping(e.target.value)}
+          />
+          {mappingError ? <p className="text-xs text-red-600 mt-1">{mappingError}</p> : null}
+        </div>
+      )}
+
+      {mode === "script" && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-xs font-medium text-gray-600">CPU limit (ms)</label>
+            <input
+              type="number"
+              min={10}
+              max={10000}
+              className={inputClass}
+              defaultValue={typeof data.cpuLimitMs === "number" ? data.cpuLimitMs : ""}
+              placeholder="1000"
+              onBlur={(e) => commitLimit("cpuLimitMs", e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600">Memory limit (MB)</label>
+            <input
+              type="number"
+              min={16}
+              max={256}
+              className={inputClass}
+              defaultValue={typeof data.memoryLimitMb === "number" ? data.memoryLimitMb : ""}
+              placeholder="64"
+              onBlur={(e) => commitLimit("memoryLimitMb", e.target.value)}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
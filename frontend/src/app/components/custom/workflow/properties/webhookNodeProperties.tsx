@@ -0,0 +1,64 @@
+"use client";
+
+import { AppNode } from "@/app/types/store";
+import { useCredentialList } from "@/app/hooks/useCredentials";
+import { useWorkflowStore } from "@/app/hooks/useWorkflowStore";
+import { webhookUrl } from "@/services/workflowApi";
+
+interface WebhookNodePropertiesProps {
+  node: AppNode;
+}
+
+export default function WebhookNodeProperties({ node }: WebhookNodePropertiesProps) {
+  const { updateNodeData } = useWorkflowStore();
+  const { data: credentials, error: credentialsError } = useCredentialList();
+  const data = node.data ?? {};
+  const token = typeof data.token === "string" ? data.token : undefined;
+  const inputClass = "mt-1 w-full text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded px-2 py-1";
+
+  return (
+    <div className="mt-4 space-y-3">
+      <h2 className="text-sm font-semibold mb-2">Webhook Node Properties</h2>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-600">URL</label>
+        {token ? (
+          <input className={`${inputClass} font-mono`} readOnly value={webhookUrl(token)} onFocus={(e) => e.target.select()} />
+        ) : (
+          <p className="mt-1 text-xs text-gray-500 italic">Save the workflow to get its URL</p>
+        )}
+        <p className="mt-1 text-xs text-gray-500">
+          POST a JSON or form body to start the saved workflow. Its body, headers and query are this node&apos;s result.
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-600">Signing secret</label>
+        <select
+          className={inputClass}
+          value={typeof data.secretCredentialId === "string" ? data.secretCredentialId : ""}
+          onChange={(e) => updateNodeData(node.id, { secretCredentialId: e.target.value || undefined })}
+        >
+          <option value="">Accept unsigned requests</option>
+          {credentials?.map((credential) => (
+            <option key={credential.id} value={credential.id}>{credential.name}</option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">
+          Requests must carry the HMAC-SHA256 hex digest of the body made with this credential, optionally prefixed with sha256=.
+          Add credentials from an API node; the credential must belong to the workflow&apos;s owner.
+        </p>
+        {credentialsError ? <p className="text-xs text-red-600 mt-1">{credentialsError.message}</p> : null}
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-600">Signature header</label>
+        <input
+          className={inputClass}
+          defaultValue={typeof data.signatureHeader === "string" ? data.signatureHeader : "x-signature-256"}
+          onBlur={(e) => updateNodeData(node.id, { signatureHeader: e.target.value.trim() || "x-signature-256" })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -5,14 +5,41 @@ import { ReactFlow } from '@xyflow/react';
 
 import '@xyflow/react/dist/style.css';
 import { useWorkflowStore } from '@/app/hooks/useWorkflowStore';
+import useStore from '@/app/store/workflowStore';
 import { AppNode } from '@/app/types/store';
 import { nodeTypes } from './nodes';
 import Properties from './properties/properties';
 import { FloatingStartButton } from './FloatingStartButton';
+import { GraphIssuesPanel } from './GraphIssuesPanel';
+import { LoginPrompt } from './LoginPrompt';
+import { NodePalette } from './NodePalette';
+import { WorkflowMenu } from './WorkflowMenu';
 import { initializeSocketService, getSocketService } from '@/services/socketService';
 
 function Flow() {
   const { nodes, edges, onNodesChange, onEdgesChange, onConnect, selectedNode, setSelectedNode } = useWorkflowStore();
+  const graphIssues = useStore(state => state.graphIssues);
+  const nodeStates = useStore(state => state.nodeStates);
+  const definitionId = useStore(state => state.definitionId);
+
+  // Highlight nodes and edges flagged by graph validation
+  const displayedNodes = useMemo(() => {
+    const issueNodeIds = new Set(graphIssues.map(issue => issue.nodeId).filter(Boolean));
+    if (issueNodeIds.size === 0) return nodes;
+    return nodes.map(n => issueNodeIds.has(n.id) ? { ...n, className: 'ring-2 ring-red-500 ring-offset-2 rounded-lg' } : n);
+  }, [nodes, graphIssues]);
+
+  // Issue edges are red; edges on untaken condition branches are gray and dashed
+  const displayedEdges = useMemo(() => {
+    const issueEdgeIds = new Set(graphIssues.map(issue => issue.edgeId).filter(Boolean));
+    const skippedEdgeIds = new Set([...nodeStates.values()].flatMap(state => state.skippedEdges ?? []));
+    if (issueEdgeIds.size === 0 && skippedEdgeIds.size === 0) return edges;
+    return edges.map(e => {
+      if (issueEdgeIds.has(e.id)) return { ...e, animated: true, style: { stroke: '#ef4444', strokeWidth: 2 } };
+      if (skippedEdgeIds.has(e.id)) return { ...e, style: { stroke: '#9ca3af', strokeDasharray: '6 4', opacity: 0.6 } };
+      return e;
+    });
+  }, [edges, graphIssues, nodeStates]);
 
   // Initialize Socket.IO on component mount
   useEffect(() => {
@@ -31,6 +58,11 @@ function Flow() {
     };
   }, []);
 
+  // Follow runs of the open workflow started elsewhere, e.g. by its webhook
+  useEffect(() => {
+    getSocketService().watchWorkflow(definitionId);
+  }, [definitionId]);
+
   // Memoize node click handler to prevent recreating on every render
   const handleNodeClick = useCallback((event: React.MouseEvent, node: AppNode) => {
     setSelectedNode(node);
@@ -59,7 +91,7 @@ function Flow() {
           const nodeType = n.type || 'api';
           return {
             id: n.id,
-            type: nodeType as 'start' | 'api' | 'result',
+            type: nodeType as 'start' | 'api' | 'condition' | 'forEach' | 'merge' | 'transform' | 'approval' | 'result' | 'webhook',
             label: n.data?.label as string | undefined,
             data: n.data as Record<string, unknown> | undefined,
           };
@@ -67,8 +99,12 @@ function Flow() {
         edges.map(e => ({
           id: e.id,
           source: e.source,
+          sourceHandle: e.sourceHandle,
           target: e.target,
-        }))
+        })),
+        undefined,
+        undefined,
+        useStore.getState().definitionId
       );
     } catch (error) {
       console.error('[Workflow] Error starting workflow:', error);
@@ -76,6 +112,29 @@ function Flow() {
     }
   }, [nodes, edges]);
 
+  // Memoize cancel workflow handler
+  const handleCancelWorkflow = useCallback(() => {
+    const { workflowId } = useStore.getState();
+    if (!workflowId) return;
+
+    getSocketService().cancelWorkflow(workflowId);
+  }, []);
+
+  // Memoize pause/resume handlers
+  const handlePauseWorkflow = useCallback(() => {
+    const { workflowId } = useStore.getState();
+    if (!workflowId) return;
+
+    getSocketService().pauseWorkflow(workflowId);
+  }, []);
+
+  const handleResumeWorkflow = useCallback(() => {
+    const { workflowId } = useStore.getState();
+    if (!workflowId) return;
+
+    getSocketService().resumeWorkflow(workflowId);
+  }, []);
+
   // Memoize nodeTypes to prevent recreation
   const memoizedNodeTypes = useMemo(() => nodeTypes, []);
 
@@ -83,9 +142,9 @@ function Flow() {
     <div className="flex h-full w-full relative">
       <div className="flex-1">
         <ReactFlow
-          nodes={nodes}
+          nodes={displayedNodes}
           nodeTypes={memoizedNodeTypes}
-          edges={edges}
+          edges={displayedEdges}
           onNodesChange={onNodesChange}
           onEdgesChange={onEdgesChange}
           onConnect={onConnect}
@@ -93,7 +152,16 @@ function Flow() {
           onPaneClick={handlePaneClick}
           fitView
         />
-        <FloatingStartButton onClick={handleStartWorkflow} />
+        <FloatingStartButton
+          onClick={handleStartWorkflow}
+          onCancel={handleCancelWorkflow}
+          onPause={handlePauseWorkflow}
+          onResume={handleResumeWorkflow}
+        />
+        <GraphIssuesPanel />
+        <NodePalette />
+        <WorkflowMenu />
+        <LoginPrompt />
       </div>
       {selectedNode && <Properties node={selectedNode} />}
     </div>
@@ -0,0 +1,49 @@
+/**
+ * React Query hooks for stored credentials
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+    createCredential,
+    deleteCredential,
+    listCredentials,
+} from "@/services/workflowApi";
+
+const CREDENTIALS_KEY = ["credentials"];
+
+/**
+ * Hook: useCredentialList
+ * Credentials of the signed-in user, oldest first
+ */
+export function useCredentialList() {
+    return useQuery({
+        queryKey: CREDENTIALS_KEY,
+        queryFn: listCredentials,
+        staleTime: 10000,
+        retry: 1,
+    });
+}
+
+/**
+ * Hook: useCreateCredential
+ */
+export function useCreateCredential() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: createCredential,
+        onSuccess: () =>
+            queryClient.invalidateQueries({ queryKey: CREDENTIALS_KEY }),
+    });
+}
+
+/**
+ * Hook: useDeleteCredential
+ */
+export function useDeleteCredential() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: deleteCredential,
+        onSuccess: () =>
+            queryClient.invalidateQueries({ queryKey: CREDENTIALS_KEY }),
+    });
+}
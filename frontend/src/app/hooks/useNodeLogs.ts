@@ -4,43 +4,23 @@
  */
 
 import { useQuery } from "@tanstack/react-query";
-
-export interface NodeLog {
-    timestamp: number;
-    message: string;
-    level: "info" | "warning" | "error";
-}
+import { NodeLog } from "@/app/types/store";
+import { listNodeLogs } from "@/services/workflowApi";
 
 /**
- * Fetch node logs from backend (mock implementation for now)
- * In production, this would fetch from your API endpoint
+ * Fetch the first 100 persisted log lines of a node in a run
  */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
 async function fetchNodeLogs(
-    _nodeId: string,
-    _workflowId?: string
+    nodeId: string,
+    workflowId: string
 ): Promise<NodeLog[]> {
-    // Mock implementation: simulate fetching logs
-    // In a real scenario, this would call:
-    // GET /api/v1/workflows/{_workflowId}/logs?nodeId={_nodeId}&limit=100
-
-    return [
-        {
-            timestamp: Date.now() - 3000,
-            message: "Node initialized",
-            level: "info",
-        },
-        {
-            timestamp: Date.now() - 2000,
-            message: "Making API request...",
-            level: "info",
-        },
-        {
-            timestamp: Date.now() - 1000,
-            message: "Response received",
-            level: "info",
-        },
-    ];
+    const { logs } = await listNodeLogs(workflowId, nodeId, { limit: 100 });
+    return logs.map(({ timestamp, message, level, fields }) => ({
+        timestamp,
+        message,
+        level,
+        fields,
+    }));
 }
 
 /**
@@ -48,16 +28,21 @@ async function fetchNodeLogs(
  * Fetches logs for a specific node with caching
  *
  * @param nodeId - The node ID to fetch logs for
- * @param workflowId - Optional workflow ID for context
+ * @param workflowId - Run the logs belong to; nothing is fetched without one
+ * @param status - Node status; a change refetches so lines written since are picked up
  * @returns React Query useQuery result with logs
  */
-export function useNodeLogs(nodeId: string, workflowId?: string) {
+export function useNodeLogs(
+    nodeId: string,
+    workflowId?: string,
+    status?: string
+) {
     return useQuery({
-        queryKey: ["nodeLogs", nodeId, workflowId],
-        queryFn: () => fetchNodeLogs(nodeId, workflowId),
+        queryKey: ["nodeLogs", nodeId, workflowId, status],
+        queryFn: () => fetchNodeLogs(nodeId, workflowId!),
         staleTime: 30000, // 30 seconds - logs don't change after execution completes
         gcTime: 60000, // 60 seconds - keep in cache for 1 minute
         retry: 1,
-        enabled: !!nodeId,
+        enabled: !!nodeId && !!workflowId,
     });
 }
@@ -12,6 +12,8 @@ const workflowSelector = (state: AppState) => ({
     setNodes: state.setNodes,
     setEdges: state.setEdges,
     setSelectedNode: state.setSelectedNode,
+    updateNodeData: state.updateNodeData,
+    addNode: state.addNode,
 });
 
 export function useWorkflowStore() {
@@ -0,0 +1,124 @@
+/**
+ * React Query hooks for saved workflow definitions and their runs
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+    createWorkflow,
+    deleteWorkflow,
+    diffVersions,
+    listRuns,
+    listVersions,
+    listWorkflows,
+    rollbackWorkflow,
+    updateWorkflow,
+    WorkflowInput,
+} from "@/services/workflowApi";
+
+const WORKFLOWS_KEY = ["workflows"];
+
+/**
+ * Hook: useWorkflowList
+ * Saved workflows, most recently updated first
+ */
+export function useWorkflowList() {
+    return useQuery({
+        queryKey: WORKFLOWS_KEY,
+        queryFn: listWorkflows,
+        staleTime: 10000,
+        retry: 1,
+    });
+}
+
+/**
+ * Hook: useWorkflowRuns
+ * Most recent runs of a saved workflow; disabled until the workflow is saved
+ */
+export function useWorkflowRuns(definitionId?: string) {
+    return useQuery({
+        queryKey: ["workflowRuns", definitionId],
+        queryFn: () => listRuns(definitionId!),
+        staleTime: 10000,
+        retry: 1,
+        enabled: !!definitionId,
+    });
+}
+
+/**
+ * Hook: useWorkflowVersions
+ * Saved versions of a workflow, newest first
+ */
+export function useWorkflowVersions(definitionId?: string) {
+    return useQuery({
+        queryKey: ["workflowVersions", definitionId],
+        queryFn: () => listVersions(definitionId!),
+        retry: 1,
+        enabled: !!definitionId,
+    });
+}
+
+/**
+ * Hook: useVersionDiff
+ * Versions never change, so a diff is cached indefinitely
+ */
+export function useVersionDiff(
+    definitionId?: string,
+    from?: number,
+    to?: number
+) {
+    return useQuery({
+        queryKey: ["workflowDiff", definitionId, from, to],
+        queryFn: () => diffVersions(definitionId!, from!, to!),
+        staleTime: Infinity,
+        retry: 1,
+        enabled: !!definitionId && !!from && !!to,
+    });
+}
+
+/**
+ * Hook: useSaveWorkflow
+ * Creates the workflow when it has no ID yet, otherwise updates it
+ */
+export function useSaveWorkflow() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ id, input }: { id?: string; input: WorkflowInput }) =>
+            id ? updateWorkflow(id, input) : createWorkflow(input),
+        onSuccess: (saved) => {
+            queryClient.invalidateQueries({ queryKey: WORKFLOWS_KEY });
+            queryClient.invalidateQueries({
+                queryKey: ["workflowVersions", saved.id],
+            });
+        },
+    });
+}
+
+/**
+ * Hook: useRollbackWorkflow
+ * Saves an older version as the newest one
+ */
+export function useRollbackWorkflow() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ id, version }: { id: string; version: number }) =>
+            rollbackWorkflow(id, version),
+        onSuccess: (saved) => {
+            queryClient.invalidateQueries({ queryKey: WORKFLOWS_KEY });
+            queryClient.invalidateQueries({
+                queryKey: ["workflowVersions", saved.id],
+            });
+        },
+    });
+}
+
+/**
+ * Hook: useDeleteWorkflow
+ */
+export function useDeleteWorkflow() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: deleteWorkflow,
+        onSuccess: () =>
+            queryClient.invalidateQueries({ queryKey: WORKFLOWS_KEY }),
+    });
+}
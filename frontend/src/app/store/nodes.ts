@@ -11,14 +11,23 @@ export const initialNodes = [
     {
         id: "2",
         type: "api",
-        data: { label: "Api Node" },
+        data: {
+            label: "Api Node",
+            method: "GET",
+            url: "https://jsonplaceholder.typicode.com/users/1",
+        },
         position: { x: 125, y: 250 },
     },
 
     {
         id: "3",
         type: "api",
-        data: { label: "Api Node" },
+        data: {
+            label: "Api Node",
+            method: "GET",
+            url: "https://jsonplaceholder.typicode.com/posts",
+            queryParams: { userId: 1 },
+        },
         position: { x: 325, y: 250 },
     },
     {
@@ -7,15 +7,34 @@ import { initialEdges } from "./edges";
 
 const MAX_LOGS_PER_NODE = 100;
 
+// Initial data for nodes added from the palette
+const DEFAULT_NODE_DATA: Record<string, Record<string, unknown>> = {
+    api: { label: "Api Node", method: "GET", url: "" },
+    approval: { label: "Approval", message: "" },
+    condition: { label: "Condition", expression: "" },
+    forEach: { label: "ForEach", items: "", concurrency: 5, errorMode: "stop" },
+    merge: { label: "Merge", mode: "all", keyBy: "id" },
+    result: { label: "Result Node" },
+    transform: { label: "Transform", script: "return inputs;" },
+    webhook: { label: "Webhook", signatureHeader: "x-signature-256" },
+};
+
 // this is our useStore hook that we can use in our components to get parts of the store and call actions
 const useStore = create<AppState>((set, get) => ({
     nodes: initialNodes,
     edges: initialEdges,
     selectedNode: null,
     nodeStates: new Map(),
+    definitionId: undefined,
+    definitionVersion: undefined,
+    workflowName: "Untitled workflow",
+    workflowDescription: undefined,
     workflowId: undefined,
     executionStartTime: undefined,
     isExecuting: false,
+    isPaused: false,
+    graphIssues: [],
+    authPrompt: null,
 
     // Graph manipulation
     onNodesChange: (changes) => {
@@ -42,6 +61,58 @@ const useStore = create<AppState>((set, get) => ({
     setSelectedNode: (node) => {
         set({ selectedNode: node });
     },
+    updateNodeData: (nodeId, data) => {
+        const nodes = get().nodes.map((node) =>
+            node.id === nodeId
+                ? { ...node, data: { ...node.data, ...data } }
+                : node
+        );
+        const selectedNode = get().selectedNode;
+        set({
+            nodes,
+            // Keep the properties panel in sync with the edited node
+            selectedNode:
+                selectedNode?.id === nodeId
+                    ? nodes.find((node) => node.id === nodeId) ?? null
+                    : selectedNode,
+        });
+    },
+
+    addNode: (type) => {
+        const nodes = get().nodes;
+        const nextId = Math.max(0, ...nodes.map((node) => Number(node.id)).filter(Number.isFinite)) + 1;
+        const rightmost = Math.max(0, ...nodes.map((node) => node.position.x));
+        set({
+            nodes: [
+                ...nodes,
+                {
+                    id: String(nextId),
+                    type,
+                    data: { ...(DEFAULT_NODE_DATA[type] ?? { label: type }) },
+                    position: { x: rightmost + 200, y: 250 },
+                },
+            ],
+        });
+    },
+
+    loadDefinition: ({ nodes, edges, ...meta }) => {
+        // States of the previous canvas would point at unrelated nodes
+        set({
+            definitionId: undefined,
+            definitionVersion: undefined,
+            workflowDescription: undefined,
+            ...meta,
+            nodes,
+            edges,
+            selectedNode: null,
+            nodeStates: new Map(),
+            graphIssues: [],
+        });
+    },
+
+    setDefinitionMeta: (meta) => {
+        set(meta);
+    },
 
     // Execution state management
     updateNodeState: (nodeId: string, update: Partial<NodeExecutionState>) => {
@@ -105,17 +176,44 @@ const useStore = create<AppState>((set, get) => ({
         set({ nodeStates: new Map() });
     },
 
+    loadRunStates: (workflowId: string, states: NodeStateUpdate[]) => {
+        // Show a recorded run as if it had just finished on the canvas
+        const nodeStates = new Map<string, NodeExecutionState>();
+        states.forEach(({ nodeId, ...state }) => {
+            nodeStates.set(nodeId, {
+                status: "idle",
+                logs: [],
+                ...state,
+                timestamp: state.timestamp || state.endTime || Date.now(),
+            });
+        });
+        set({ workflowId, nodeStates, isExecuting: false, isPaused: false });
+    },
+
     setWorkflowId: (id: string) => {
         set({ workflowId: id });
     },
 
     setIsExecuting: (executing: boolean) => {
-        set({ isExecuting: executing });
+        // A run that is no longer executing cannot stay paused
+        set(executing ? { isExecuting: true } : { isExecuting: false, isPaused: false });
+    },
+
+    setIsPaused: (paused: boolean) => {
+        set({ isPaused: paused });
     },
 
     setExecutionStartTime: (time: number) => {
         set({ executionStartTime: time });
     },
+
+    setGraphIssues: (issues) => {
+        set({ graphIssues: issues });
+    },
+
+    setAuthPrompt: (prompt) => {
+        set({ authPrompt: prompt });
+    },
 }));
 
 export default useStore;
@@ -14,8 +14,47 @@ export type AppNode = Node;
  * - running: Node is currently executing
  * - completed: Node execution finished successfully
  * - error: Node execution failed
+ * - cancelled: Node was running when the workflow was cancelled
+ * - skipped: Node never ran: it was on an untaken condition branch or the workflow was cancelled first
  */
-export type NodeStatus = "idle" | "running" | "completed" | "error";
+export type NodeStatus =
+    | "idle"
+    | "running"
+    | "completed"
+    | "error"
+    | "cancelled"
+    | "skipped";
+
+/**
+ * A failed attempt of a node that was retried by its retry policy
+ */
+export interface RetryAttempt {
+    attempt: number;
+    startTime: number;
+    endTime: number;
+    error: string;
+    errorCode?: string;
+    retryDelayMs: number; // Backoff before the next attempt
+}
+
+/**
+ * Approval an approval node is waiting on
+ */
+export interface PendingApproval {
+    approvalId: string;
+    expiresAt?: number; // When the node gives up waiting (milliseconds)
+    message?: string; // Shown to the approver
+}
+
+/**
+ * Log entry of a node, as streamed while it runs and as persisted in the run history
+ */
+export interface NodeLog {
+    timestamp: number;
+    level: "info" | "warning" | "error";
+    message: string;
+    fields?: Record<string, unknown>; // Structured context, e.g. { status: 200, durationMs: 120 }
+}
 
 /**
  * Tracks the execution state of a single node during workflow runs.
@@ -26,11 +65,19 @@ export interface NodeExecutionState {
     timestamp: number; // Last update timestamp (milliseconds)
     startTime?: number; // When execution started
     endTime?: number; // When execution completed
-    logs: string[]; // Execution logs (max 100 entries)
+    logs: NodeLog[]; // Execution logs (max 100 entries)
     error?: string; // Error message if status === 'error'
+    errorCode?: string; // Machine-readable error code (e.g. HTTP_ERROR)
+    errorDetails?: unknown; // Extra error context (e.g. the failed HTTP response)
     errorStack?: string; // Full error stack trace
     result?: unknown; // Execution result if status === 'completed'
     progress?: number; // Progress percentage (0-100) for long-running nodes
+    attempt?: number; // Current attempt number (1-based)
+    retryHistory?: RetryAttempt[]; // Previous failed attempts
+    resolvedTemplates?: Record<string, unknown>; // Node data field path -> resolved {{ }} value
+    skippedEdges?: string[]; // Outgoing edge IDs not taken (untaken condition branch or skipped node)
+    pendingApproval?: PendingApproval; // Set while an approval node waits for a decision
+    cached?: boolean; // Result reused from the run this re-run started from
 }
 
 export interface NodeStateUpdate {
@@ -39,11 +86,53 @@ export interface NodeStateUpdate {
     timestamp?: number;
     startTime?: number;
     endTime?: number;
-    logs?: string[];
+    logs?: NodeLog[];
     error?: string;
+    errorCode?: string;
+    errorDetails?: unknown;
     errorStack?: string;
     result?: unknown;
     progress?: number;
+    attempt?: number;
+    retryHistory?: RetryAttempt[];
+    resolvedTemplates?: Record<string, unknown>;
+    skippedEdges?: string[];
+    pendingApproval?: PendingApproval;
+    cached?: boolean;
+}
+
+/**
+ * Structural problem in the workflow graph reported by the backend (INVALID_GRAPH)
+ */
+export interface GraphIssue {
+    code: string;
+    message: string;
+    nodeId?: string;
+    edgeId?: string;
+}
+
+/**
+ * Why the user is asked to sign in: the server refused their token (UNAUTHORIZED)
+ * or their user lacks access to a workflow or run (FORBIDDEN)
+ */
+export interface AuthPrompt {
+    code: "UNAUTHORIZED" | "FORBIDDEN";
+    message: string;
+}
+
+export interface DefinitionMeta {
+    definitionId?: string;
+    definitionVersion?: number; // Saved version the canvas was loaded from or last saved as
+    workflowName: string;
+    workflowDescription?: string;
+}
+
+/**
+ * A saved workflow converted to canvas nodes and edges
+ */
+export interface LoadedDefinition extends DefinitionMeta {
+    nodes: AppNode[];
+    edges: Edge[];
 }
 
 export interface BatchNodeStateUpdate {
@@ -59,10 +148,23 @@ export type AppState = {
     // Execution state: nodeId -> NodeExecutionState
     nodeStates: Map<string, NodeExecutionState>;
 
+    // Saved definition on the canvas (REST); undefined until first saved
+    definitionId?: string;
+    definitionVersion?: number;
+    workflowName: string;
+    workflowDescription?: string;
+
     // Workflow metadata
     workflowId?: string;
     executionStartTime?: number;
     isExecuting: boolean;
+    isPaused: boolean;
+
+    // Graph validation issues from the last execute attempt
+    graphIssues: GraphIssue[];
+
+    // Set while the user should sign in, e.g. after an UNAUTHORIZED error
+    authPrompt: AuthPrompt | null;
 
     // Graph manipulation actions
     onNodesChange: OnNodesChange<AppNode>;
@@ -71,6 +173,10 @@ export type AppState = {
     setNodes: (nodes: AppNode[]) => void;
     setEdges: (edges: Edge[]) => void;
     setSelectedNode: (node: AppNode | null) => void;
+    updateNodeData: (nodeId: string, data: Record<string, unknown>) => void;
+    addNode: (type: string) => void;
+    loadDefinition: (definition: LoadedDefinition) => void;
+    setDefinitionMeta: (meta: DefinitionMeta) => void;
 
     // Execution state management
     updateNodeState: (
@@ -80,7 +186,11 @@ export type AppState = {
     batchUpdateNodeStates: (updates: NodeStateUpdate[]) => void;
     getNodeState: (nodeId: string) => NodeExecutionState | undefined;
     resetNodeStates: () => void;
+    loadRunStates: (workflowId: string, states: NodeStateUpdate[]) => void;
     setWorkflowId: (id: string) => void;
     setIsExecuting: (executing: boolean) => void;
+    setIsPaused: (paused: boolean) => void;
     setExecutionStartTime: (time: number) => void;
+    setGraphIssues: (issues: GraphIssue[]) => void;
+    setAuthPrompt: (prompt: AuthPrompt | null) => void;
 };
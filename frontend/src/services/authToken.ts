@@ -0,0 +1,22 @@
+/**
+ * Authentication token sent to the API and with the WebSocket handshake
+ * Kept in localStorage so a reload stays signed in
+ */
+
+const STORAGE_KEY = "frozen_workflow.authToken";
+
+export function getAuthToken(): string | null {
+    if (typeof window === "undefined") return null;
+    return window.localStorage.getItem(STORAGE_KEY);
+}
+
+/**
+ * Store a token, or forget it with null
+ */
+export function setAuthToken(token: string | null): void {
+    if (token) {
+        window.localStorage.setItem(STORAGE_KEY, token);
+    } else {
+        window.localStorage.removeItem(STORAGE_KEY);
+    }
+}
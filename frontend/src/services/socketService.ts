@@ -5,7 +5,15 @@
 
 import { io, Socket } from "socket.io-client";
 import useStore from "@/app/store/workflowStore";
-import { NodeStateUpdate } from "@/app/types/store";
+import { getAuthToken } from "@/services/authToken";
+import {
+    AuthPrompt,
+    GraphIssue,
+    NodeLog,
+    NodeStateUpdate,
+    PendingApproval,
+    RetryAttempt,
+} from "@/app/types/store";
 
 /**
  * Workflow node configuration
@@ -25,6 +33,7 @@ export interface WorkflowNode {
 export interface WorkflowEdge {
     id: string;
     source: string;
+    sourceHandle?: string | null; // "true"/"false" from a condition node, "item"/"done" from a forEach node
     target: string;
 }
 
@@ -47,17 +56,44 @@ export interface NodeEventsBatchData {
     count: number;
 }
 
+/**
+ * Node states of a run for a client that starts following it
+ * @public
+ */
+export interface WorkflowSnapshotData {
+    workflowId: string;
+    events: NodeEvent[]; // Latest event of every node so far
+    status: "running" | "success" | "failed" | "cancelled" | "timeout";
+    state?: "paused" | "running";
+}
+
 /**
  * Node event structure
  * @public
  */
 export interface NodeEvent {
     nodeId: string;
-    eventType: "start" | "running" | "complete" | "error";
+    eventType:
+        | "start"
+        | "running"
+        | "complete"
+        | "error"
+        | "cancelled"
+        | "skipped";
     timestamp: number;
+    seq?: number; // Position in the run's event stream, increasing by one per event
     payload?: Record<string, unknown>;
 }
 
+/**
+ * Run-wide execution options
+ * @public
+ */
+export interface WorkflowRunOptions {
+    deadlineMs?: number; // Deadline for the whole run
+    nodeTimeoutMs?: number; // Default timeout per node (node.data.timeoutMs overrides); approval nodes only use approvalTimeoutMs
+}
+
 export interface SocketServiceConfig {
     url: string;
     reconnectDelay?: number;
@@ -71,6 +107,10 @@ class SocketService {
     private reconnectAttempts = 0;
     private eventQueue: Array<{ event: string; data: unknown }> = [];
     private isQueueing = false;
+    private pendingStart = false; // Set between asking for a run and its workflow:started
+    private watchedDefinitionId?: string;
+    private subscribedRunId?: string; // Run followed through workflow:subscribe
+    private lastSeq = 0; // seq of the last node event applied for the run on the canvas
 
     constructor(config: SocketServiceConfig) {
         this.config = {
@@ -93,6 +133,8 @@ class SocketService {
                     reconnectionDelay: this.config.reconnectDelay,
                     reconnectionDelayMax: this.config.reconnectDelay! * 2,
                     reconnectionAttempts: this.config.maxReconnectAttempts,
+                    // Read on every (re)connection, so signing in applies to the next one
+                    auth: (cb) => cb({ token: getAuthToken() }),
                 });
 
                 this.setupEventHandlers();
@@ -101,12 +143,30 @@ class SocketService {
                     this.log("✅ WebSocket connected");
                     this.reconnectAttempts = 0;
                     this.isQueueing = false;
+                    // Rooms do not survive a reconnect
+                    if (this.watchedDefinitionId) {
+                        this.socket?.emit("workflow:watch", {
+                            definitionId: this.watchedDefinitionId,
+                        });
+                    }
+                    this.resumeStream();
+                    // Queued controls go out after the resume. Without authentication the
+                    // server only takes them from the run's socket, and the resume hands
+                    // the run over to this one once the old socket is gone
                     this.flushEventQueue();
                     resolve();
                 });
 
                 this.socket.on("connect_error", (error) => {
                     this.log("❌ Connection error:", error.message);
+                    // Refused by the server's authentication: no retry until the user signs in
+                    const { data } = error as Error & { data?: { code?: string } };
+                    if (data?.code === "UNAUTHORIZED") {
+                        useStore.getState().setAuthPrompt({
+                            code: "UNAUTHORIZED",
+                            message: error.message,
+                        });
+                    }
                     reject(error);
                 });
             } catch (error) {
@@ -126,11 +186,32 @@ class SocketService {
         }
     }
 
+    /**
+     * Connect again, e.g. with the token the user just signed in with
+     */
+    reconnect(): void {
+        this.socket?.disconnect().connect();
+    }
+
     /**
      * Execute a workflow
      */
-    executeWorkflow(nodes: WorkflowNode[], edges: WorkflowEdge[]): void {
-        this.emitEvent("workflow:execute", { nodes, edges });
+    executeWorkflow(
+        nodes: WorkflowNode[],
+        edges: WorkflowEdge[],
+        options?: WorkflowRunOptions,
+        inputs?: Record<string, unknown>,
+        definitionId?: string
+    ): void {
+        // definitionId files the run under a saved workflow's history
+        this.pendingStart = true;
+        this.emitEvent("workflow:execute", {
+            nodes,
+            edges,
+            options,
+            inputs,
+            definitionId,
+        });
     }
 
     /**
@@ -140,6 +221,84 @@ class SocketService {
         this.emitEvent("workflow:cancel", { workflowId });
     }
 
+    /**
+     * Pause a workflow: running nodes finish, new nodes wait for resume
+     */
+    pauseWorkflow(workflowId: string): void {
+        this.emitEvent("workflow:pause", { workflowId });
+    }
+
+    /**
+     * Resume a paused workflow
+     */
+    resumeWorkflow(workflowId: string): void {
+        this.emitEvent("workflow:resume", { workflowId });
+    }
+
+    /**
+     * Re-run a finished workflow from a node, reusing the recorded results of everything upstream
+     */
+    rerunFrom(workflowId: string, nodeId: string): void {
+        this.pendingStart = true;
+        this.emitEvent("workflow:rerun-from", { workflowId, nodeId });
+    }
+
+    /**
+     * Follow every run of a saved workflow, including runs started elsewhere (e.g. by its webhook)
+     * Replaces the previously watched workflow; pass undefined to stop watching
+     */
+    watchWorkflow(definitionId?: string): void {
+        if (definitionId === this.watchedDefinitionId) return;
+
+        const previous = this.watchedDefinitionId;
+        this.watchedDefinitionId = definitionId;
+        // While disconnected, the connect handler sends the watch instead
+        if (!this.socket?.connected) return;
+        if (previous) {
+            this.socket.emit("workflow:unwatch", { definitionId: previous });
+        }
+        if (definitionId) {
+            this.socket.emit("workflow:watch", { definitionId });
+        }
+    }
+
+    /**
+     * Follow a run started by any client: the server replies with a snapshot of its node states
+     * and then streams its events. Replaces the previously followed run
+     */
+    subscribeToRun(workflowId: string): void {
+        if (this.subscribedRunId && this.subscribedRunId !== workflowId) {
+            this.unsubscribeFromRun(this.subscribedRunId);
+        }
+        this.subscribedRunId = workflowId;
+        this.emitEvent("workflow:subscribe", { workflowId });
+    }
+
+    /**
+     * Stop following a run
+     */
+    unsubscribeFromRun(workflowId: string): void {
+        if (this.subscribedRunId === workflowId) this.subscribedRunId = undefined;
+        this.emitEvent("workflow:unsubscribe", { workflowId });
+    }
+
+    /**
+     * Approve or reject a node waiting for approval
+     */
+    respondToApproval(
+        workflowId: string,
+        approvalId: string,
+        decision: "approve" | "reject",
+        comment?: string
+    ): void {
+        this.emitEvent("approval:respond", {
+            workflowId,
+            approvalId,
+            decision,
+            comment,
+        });
+    }
+
     /**
      * Internal: Setup Socket.IO event handlers
      */
@@ -147,19 +306,73 @@ class SocketService {
         if (!this.socket) return;
 
         // Workflow started
-        this.socket.on("workflow:started", (data: { workflowId: string }) => {
-            this.log("🚀 Workflow started:", data.workflowId);
+        this.socket.on(
+            "workflow:started",
+            (data: {
+                workflowId: string;
+                parentWorkflowId?: string;
+                rerunFromNodeId?: string;
+            }) => {
+                // A watched workflow started elsewhere while this client runs its own
+                if (!this.pendingStart && useStore.getState().isExecuting) {
+                    this.log("👀 Ignoring concurrent run:", data.workflowId);
+                    return;
+                }
+                this.pendingStart = false;
+                // The started run replaces any run followed through a subscription
+                if (this.subscribedRunId) {
+                    this.unsubscribeFromRun(this.subscribedRunId);
+                }
+
+                this.log("🚀 Workflow started:", data.workflowId);
+                if (data.parentWorkflowId) {
+                    this.log(
+                        `🔁 Re-run of ${data.parentWorkflowId} from node ${data.rerunFromNodeId}`
+                    );
+                }
+                this.lastSeq = 0;
+                useStore.getState().setWorkflowId(data.workflowId);
+                useStore.getState().setIsExecuting(true);
+                useStore.getState().setExecutionStartTime(Date.now());
+                useStore.getState().resetNodeStates();
+                useStore.getState().setGraphIssues([]);
+
+                // Add performance marker
+                this.perfMark(`workflow-${data.workflowId}-start`);
+            }
+        );
+
+        // State of a run this client subscribed to, or of its own run after a reconnect
+        this.socket.on("workflow:snapshot", (data: WorkflowSnapshotData) => {
+            if (
+                data.workflowId !== this.subscribedRunId &&
+                !this.isCurrentRun(data.workflowId)
+            ) {
+                return;
+            }
+            this.log(
+                `📸 Snapshot of ${data.workflowId}: ${data.events.length} nodes, ${data.status}`
+            );
+            // The latest event of every node includes the run's latest event
+            this.lastSeq = Math.max(0, ...data.events.map((event) => event.seq ?? 0));
             useStore.getState().setWorkflowId(data.workflowId);
-            useStore.getState().setIsExecuting(true);
-            useStore.getState().setExecutionStartTime(Date.now());
             useStore.getState().resetNodeStates();
-
-            // Add performance marker
-            this.perfMark(`workflow-${data.workflowId}-start`);
+            useStore.getState().setGraphIssues([]);
+            useStore
+                .getState()
+                .batchUpdateNodeStates(
+                    data.events.map((event) => this.parseNodeEvent(event))
+                );
+            useStore.getState().setIsExecuting(data.status === "running");
+            useStore.getState().setIsPaused(data.state === "paused");
+            // A finished run sends nothing more
+            if (data.status !== "running") this.subscribedRunId = undefined;
         });
 
         // Single node event (non-batched)
         this.socket.on("workflow:node-event", (data: NodeEventData) => {
+            if (!this.isCurrentRun(data.workflowId)) return;
+            if (this.acceptEvents([data.event]).length === 0) return;
             this.handleNodeEvent(data.event);
         });
 
@@ -167,8 +380,11 @@ class SocketService {
         this.socket.on(
             "workflow:node-events-batch",
             (data: NodeEventsBatchData) => {
+                if (!this.isCurrentRun(data.workflowId)) return;
                 this.log(`📦 Received batch of ${data.count} events`);
-                const updates: NodeStateUpdate[] = data.events.map((event) =>
+                const events = this.acceptEvents(data.events);
+                if (events.length === 0) return;
+                const updates: NodeStateUpdate[] = events.map((event) =>
                     this.parseNodeEvent(event)
                 );
                 useStore.getState().batchUpdateNodeStates(updates);
@@ -188,12 +404,17 @@ class SocketService {
                 workflowId: string;
                 totalTime: number;
                 status: string;
+                timedOutNodes?: string[];
             }) => {
+                if (!this.isCurrentRun(data.workflowId)) return;
                 this.log(
                     `✅ Workflow completed in ${(data.totalTime / 1000).toFixed(
                         2
                     )}s`
                 );
+                if (data.timedOutNodes && data.timedOutNodes.length > 0) {
+                    this.log("⏱️ Timed out nodes:", data.timedOutNodes);
+                }
                 useStore.getState().setIsExecuting(false);
 
                 this.perfMeasure(
@@ -206,15 +427,73 @@ class SocketService {
         // Workflow error
         this.socket.on(
             "workflow:error",
-            (data: { workflowId?: string; error: string; code: string }) => {
+            (data: {
+                workflowId?: string;
+                error: string;
+                code: string;
+                issues?: GraphIssue[];
+            }) => {
+                // Also errors about a run this client asked to follow
+                const followed =
+                    data.workflowId !== undefined &&
+                    data.workflowId === this.subscribedRunId;
+                if (!this.isCurrentRun(data.workflowId) && !followed) return;
                 this.log("❌ Workflow error:", data.error);
+                // Errors without a workflow ID are requests that never started a run
+                if (!data.workflowId) this.pendingStart = false;
+                // Refused requests leave any run going on as it is
+                if (data.code === "UNAUTHORIZED" || data.code === "FORBIDDEN") {
+                    if (followed) this.subscribedRunId = undefined;
+                    useStore.getState().setAuthPrompt({
+                        code: data.code as AuthPrompt["code"],
+                        message: data.error,
+                    });
+                    return;
+                }
                 useStore.getState().setIsExecuting(false);
+
+                // Highlight offending nodes and edges on the canvas
+                if (data.code === "INVALID_GRAPH") {
+                    useStore.getState().setGraphIssues(data.issues ?? []);
+                }
+            }
+        );
+
+        // Run state changed (paused/running)
+        this.socket.on(
+            "workflow:state",
+            (data: { workflowId: string; state: "paused" | "running" }) => {
+                if (!this.isCurrentRun(data.workflowId)) return;
+                this.log(
+                    data.state === "paused"
+                        ? "⏸️ Workflow paused:"
+                        : "▶️ Workflow resumed:",
+                    data.workflowId
+                );
+                useStore.getState().setIsPaused(data.state === "paused");
+            }
+        );
+
+        // An approval node is waiting for a decision
+        this.socket.on(
+            "workflow:approval-required",
+            (data: PendingApproval & { workflowId: string; nodeId: string }) => {
+                if (!this.isCurrentRun(data.workflowId)) return;
+                this.log("✋ Approval required:", data.nodeId);
+                useStore.getState().updateNodeState(data.nodeId, {
+                    pendingApproval: {
+                        approvalId: data.approvalId,
+                        expiresAt: data.expiresAt,
+                        message: data.message,
+                    },
+                });
             }
         );
 
         // Workflow cancelled
         this.socket.on("workflow:cancelled", (data: { workflowId: string }) => {
-            this.log("⏸️ Workflow cancelled:", data.workflowId);
+            if (!this.isCurrentRun(data.workflowId)) return;
+            this.log("⏹️ Workflow cancelled:", data.workflowId);
             useStore.getState().setIsExecuting(false);
         });
 
@@ -239,39 +518,92 @@ class SocketService {
         });
     }
 
+    /**
+     * Rejoin the run on the canvas after a reconnect and catch up on the node events missed meanwhile
+     */
+    private resumeStream(): void {
+        const { isExecuting, workflowId } = useStore.getState();
+        if (isExecuting && workflowId) {
+            this.log(`🔄 Resuming ${workflowId} after event ${this.lastSeq}`);
+            this.socket?.emit("workflow:resume-stream", {
+                workflowId,
+                lastSeq: this.lastSeq,
+            });
+        } else if (this.subscribedRunId) {
+            this.socket?.emit("workflow:subscribe", {
+                workflowId: this.subscribedRunId,
+            });
+        }
+    }
+
+    /**
+     * Whether an event belongs to the run shown on the canvas
+     * Watched workflows also deliver runs this client chose not to follow
+     */
+    private isCurrentRun(workflowId?: string): boolean {
+        return !workflowId || workflowId === useStore.getState().workflowId;
+    }
+
+    /**
+     * Drop node events already applied or older than them, e.g. events replayed after a reconnect
+     * that the server also had queued in its next batch
+     */
+    private acceptEvents(events: NodeEvent[]): NodeEvent[] {
+        return events.filter((event) => {
+            if (event.seq === undefined) return true;
+            if (event.seq <= this.lastSeq) return false;
+            this.lastSeq = event.seq;
+            return true;
+        });
+    }
+
     /**
      * Handle a single node event
      */
     private handleNodeEvent(event: NodeEvent): void {
-        const update = this.parseNodeEvent(event);
-        useStore.getState().updateNodeState(update.nodeId, {
-            status: update.status,
-            timestamp: update.timestamp,
-            startTime: update.startTime,
-            endTime: update.endTime,
-            logs: update.logs,
-            error: update.error,
-            result: update.result,
-            progress: update.progress,
-        });
+        const { nodeId, ...update } = this.parseNodeEvent(event);
+        useStore.getState().updateNodeState(nodeId, update);
     }
 
     /**
      * Parse Socket.IO event into NodeStateUpdate format
+     * The update is merged into the node's state: fields an event does not carry (e.g. logs and progress,
+     * absent from start events) keep what earlier events showed, except that every event says whether
+     * the node has failed or waits for an approval
      */
     private parseNodeEvent(event: NodeEvent): NodeStateUpdate {
         const { payload = {} } = event;
         const status = (payload.status ?? "idle") as NodeStateUpdate["status"];
+        const carried: Omit<NodeStateUpdate, "nodeId"> = {
+            startTime: payload.startTime as number | undefined,
+            endTime: payload.endTime as number | undefined,
+            logs: payload.logs as NodeLog[] | undefined,
+            result: payload.result,
+            progress: payload.progress as number | undefined,
+            attempt: payload.attempt as number | undefined,
+            retryHistory: payload.retryHistory as RetryAttempt[] | undefined,
+            resolvedTemplates: payload.resolvedTemplates as
+                | Record<string, unknown>
+                | undefined,
+            skippedEdges: payload.skippedEdges as string[] | undefined,
+            cached: payload.cached as boolean | undefined,
+        };
         return {
             nodeId: event.nodeId,
-            status: status ?? undefined,
+            status,
             timestamp: event.timestamp,
-            startTime: (payload.startTime ?? undefined) as number | undefined,
-            endTime: (payload.endTime ?? undefined) as number | undefined,
-            logs: (payload.logs ?? []) as string[],
-            error: (payload.error ?? undefined) as string | undefined,
-            result: payload.result,
-            progress: (payload.progress ?? undefined) as number | undefined,
+            error: payload.error as string | undefined,
+            errorCode: payload.errorCode as string | undefined,
+            errorDetails: payload.errorDetails,
+            errorStack: payload.errorStack as string | undefined,
+            pendingApproval: payload.pendingApproval as
+                | PendingApproval
+                | undefined,
+            ...Object.fromEntries(
+                Object.entries(carried).filter(
+                    ([, value]) => value !== undefined
+                )
+            ),
         };
     }
 
@@ -0,0 +1,413 @@
+/**
+ * REST client for saved workflow definitions (/api/v1/workflows), their run history (/api/v1/runs)
+ * and stored credentials (/api/v1/credentials)
+ */
+
+import { type Edge } from "@xyflow/react";
+import {
+    AppNode,
+    LoadedDefinition,
+    NodeLog,
+    NodeStatus,
+    RetryAttempt,
+} from "@/app/types/store";
+import useStore from "@/app/store/workflowStore";
+import { getAuthToken } from "@/services/authToken";
+
+const API_URL = `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:3000"}/api/v1`;
+
+/**
+ * Saved workflow as returned by the API
+ * @public
+ */
+export interface WorkflowDefinition {
+    id: string;
+    name: string;
+    description?: string;
+    nodes: Array<{
+        id: string;
+        type: string;
+        label?: string;
+        data?: Record<string, unknown>;
+        position: { x: number; y: number };
+    }>;
+    edges: Array<{
+        id: string;
+        source: string;
+        sourceHandle?: string | null;
+        target: string;
+        targetHandle?: string | null;
+    }>;
+    createdAt: number;
+    updatedAt: number;
+    version: number; // Latest version; every save adds one
+}
+
+export type WorkflowSummary = Omit<WorkflowDefinition, "nodes" | "edges">;
+
+export type WorkflowInput = Pick<
+    WorkflowDefinition,
+    "name" | "description" | "nodes" | "edges"
+>;
+
+/**
+ * Immutable snapshot taken on every save
+ */
+export interface WorkflowVersion extends WorkflowInput {
+    definitionId: string;
+    version: number;
+    createdAt: number;
+    restoredFrom?: number; // Set when the version was created by a rollback
+}
+
+export type WorkflowVersionSummary = Omit<WorkflowVersion, "nodes" | "edges">;
+
+export interface FieldChange {
+    path: string; // e.g. "data.url"
+    from?: unknown;
+    to?: unknown;
+}
+
+type EdgeEndpoints = Pick<
+    WorkflowDefinition["edges"][number],
+    "source" | "sourceHandle" | "target" | "targetHandle"
+>;
+
+/**
+ * Structured diff between two versions, as returned by GET /workflows/:id/diff
+ */
+export interface WorkflowDiff {
+    fromVersion: number;
+    toVersion: number;
+    metadata: FieldChange[];
+    nodes: {
+        added: WorkflowDefinition["nodes"];
+        removed: WorkflowDefinition["nodes"];
+        changed: Array<{ nodeId: string; changes: FieldChange[] }>;
+    };
+    edges: {
+        added: WorkflowDefinition["edges"];
+        removed: WorkflowDefinition["edges"];
+        rewired: Array<{ edgeId: string; from: EdgeEndpoints; to: EdgeEndpoints }>;
+    };
+}
+
+/**
+ * Outcome of one node in a recorded run
+ */
+export interface NodeRun {
+    nodeId: string;
+    status: NodeStatus;
+    startTime?: number;
+    endTime?: number;
+    attempt?: number;
+    cached?: boolean;
+    error?: string;
+    errorCode?: string;
+    errorDetails?: unknown;
+    result?: unknown;
+    retryHistory?: RetryAttempt[];
+}
+
+/**
+ * What started a run that no client asked for
+ * @public
+ */
+export type RunTrigger =
+    | {
+          type: "schedule";
+          scheduleId: string;
+          cron: string;
+          timezone: string;
+          scheduledFor: number;
+      }
+    | {
+          type: "webhook";
+          method: string;
+          receivedAt: number;
+          body: unknown;
+          headers: Record<string, string>;
+          query: Record<string, unknown>;
+      };
+
+/**
+ * Recorded run as returned by GET /runs/:runId
+ */
+export interface WorkflowRun {
+    runId: string;
+    definitionId?: string;
+    definitionVersion?: number; // Saved version the run executed
+    parentRunId?: string; // Run this re-run started from
+    rerunFromNodeId?: string;
+    trigger?: RunTrigger; // Unset for runs started from the canvas or the REST API
+    status: "running" | "success" | "failed" | "cancelled" | "timeout";
+    startTime: number;
+    endTime?: number;
+    error?: string;
+    failedNodes?: string[];
+    timedOutNodes?: string[];
+    nodeRuns: Record<string, NodeRun>;
+}
+
+export type WorkflowRunSummary = Omit<WorkflowRun, "nodeRuns">;
+
+/**
+ * Persisted log entry of a node; seq is the pagination cursor
+ */
+export interface NodeLogEntry extends NodeLog {
+    seq: number;
+}
+
+/**
+ * Stored credential; its secret value is never returned
+ * API nodes reference it as {{ secrets.<id> }}
+ */
+export interface Credential {
+    id: string;
+    name: string;
+    description?: string;
+    ownerId?: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * Error response from the API ({ code, error })
+ */
+export class ApiError extends Error {
+    constructor(
+        message: string,
+        public status: number,
+        public code: string
+    ) {
+        super(message);
+        this.name = "ApiError";
+    }
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+    const token = getAuthToken();
+    const response = await fetch(`${API_URL}${path}`, {
+        ...init,
+        headers: {
+            "Content-Type": "application/json",
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            ...init?.headers,
+        },
+    });
+    if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        // Ask the user to sign in (again, or as someone with access)
+        if (body.code === "UNAUTHORIZED" || body.code === "FORBIDDEN") {
+            useStore.getState().setAuthPrompt({
+                code: body.code,
+                message: body.error ?? "Please sign in",
+            });
+        }
+        throw new ApiError(
+            body.error ?? `Request failed with status ${response.status}`,
+            response.status,
+            body.code ?? "HTTP_ERROR"
+        );
+    }
+    return (response.status === 204 ? undefined : await response.json()) as T;
+}
+
+/**
+ * Convert the canvas graph into the API's definition shape
+ */
+export function toWorkflowInput(
+    name: string,
+    description: string | undefined,
+    nodes: AppNode[],
+    edges: Edge[]
+): WorkflowInput {
+    return {
+        name,
+        description,
+        nodes: nodes.map((n) => ({
+            id: n.id,
+            type: n.type || "api",
+            label: n.data?.label as string | undefined,
+            data: n.data as Record<string, unknown> | undefined,
+            position: n.position,
+        })),
+        edges: edges.map((e) => ({
+            id: e.id,
+            source: e.source,
+            sourceHandle: e.sourceHandle,
+            target: e.target,
+            targetHandle: e.targetHandle,
+        })),
+    };
+}
+
+/**
+ * Convert a saved definition back into canvas nodes and edges
+ */
+export function fromWorkflowDefinition(
+    definition: WorkflowDefinition
+): LoadedDefinition {
+    return {
+        definitionId: definition.id,
+        definitionVersion: definition.version,
+        workflowName: definition.name,
+        workflowDescription: definition.description,
+        nodes: definition.nodes.map((n) => ({
+            id: n.id,
+            type: n.type,
+            data: { ...n.data, label: n.data?.label ?? n.label },
+            position: n.position,
+        })),
+        edges: definition.edges.map((e) => ({
+            id: e.id,
+            source: e.source,
+            sourceHandle: e.sourceHandle,
+            target: e.target,
+            targetHandle: e.targetHandle,
+        })),
+    };
+}
+
+export async function listWorkflows(): Promise<WorkflowSummary[]> {
+    const { workflows } = await request<{ workflows: WorkflowSummary[] }>(
+        "/workflows"
+    );
+    return workflows;
+}
+
+export function getWorkflow(id: string): Promise<WorkflowDefinition> {
+    return request(`/workflows/${encodeURIComponent(id)}`);
+}
+
+export function createWorkflow(
+    input: WorkflowInput
+): Promise<WorkflowDefinition> {
+    return request("/workflows", {
+        method: "POST",
+        body: JSON.stringify(input),
+    });
+}
+
+export function updateWorkflow(
+    id: string,
+    input: Partial<WorkflowInput>
+): Promise<WorkflowDefinition> {
+    return request(`/workflows/${encodeURIComponent(id)}`, {
+        method: "PUT",
+        body: JSON.stringify(input),
+    });
+}
+
+export function deleteWorkflow(id: string): Promise<void> {
+    return request(`/workflows/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+    });
+}
+
+/**
+ * Versions of a saved workflow, newest first
+ */
+export async function listVersions(
+    id: string
+): Promise<WorkflowVersionSummary[]> {
+    const { versions } = await request<{
+        versions: WorkflowVersionSummary[];
+    }>(`/workflows/${encodeURIComponent(id)}/versions`);
+    return versions;
+}
+
+export function getVersion(
+    id: string,
+    version: number
+): Promise<WorkflowVersion> {
+    return request(`/workflows/${encodeURIComponent(id)}/versions/${version}`);
+}
+
+export function diffVersions(
+    id: string,
+    from: number,
+    to: number
+): Promise<WorkflowDiff> {
+    return request(
+        `/workflows/${encodeURIComponent(id)}/diff?from=${from}&to=${to}`
+    );
+}
+
+/**
+ * Save an older version's contents as the newest version
+ */
+export function rollbackWorkflow(
+    id: string,
+    version: number
+): Promise<WorkflowDefinition> {
+    return request(
+        `/workflows/${encodeURIComponent(id)}/versions/${version}/rollback`,
+        { method: "POST" }
+    );
+}
+
+/**
+ * Runs of a saved workflow, newest first
+ * Pass the returned nextCursor back as cursor to get the next page
+ */
+export function listRuns(
+    definitionId: string,
+    { limit = 20, cursor }: { limit?: number; cursor?: string } = {}
+): Promise<{ runs: WorkflowRunSummary[]; nextCursor?: string }> {
+    const query = new URLSearchParams({ limit: String(limit) });
+    if (cursor !== undefined) query.set("cursor", cursor);
+    return request(
+        `/workflows/${encodeURIComponent(definitionId)}/runs?${query}`
+    );
+}
+
+export function getRun(runId: string): Promise<WorkflowRun> {
+    return request(`/runs/${encodeURIComponent(runId)}`);
+}
+
+/**
+ * Log lines of a node in a run, oldest first
+ */
+export function listNodeLogs(
+    runId: string,
+    nodeId: string,
+    { limit = 100, cursor }: { limit?: number; cursor?: number } = {}
+): Promise<{ logs: NodeLogEntry[]; nextCursor?: number }> {
+    const query = new URLSearchParams({ limit: String(limit) });
+    if (cursor !== undefined) query.set("cursor", String(cursor));
+    return request(
+        `/runs/${encodeURIComponent(runId)}/nodes/${encodeURIComponent(nodeId)}/logs?${query}`
+    );
+}
+
+/**
+ * Public URL that triggers a saved workflow through one of its webhook nodes
+ */
+export function webhookUrl(token: string): string {
+    return `${API_URL}/hooks/${encodeURIComponent(token)}`;
+}
+
+export async function listCredentials(): Promise<Credential[]> {
+    const { credentials } = await request<{ credentials: Credential[] }>(
+        "/credentials"
+    );
+    return credentials;
+}
+
+export function createCredential(input: {
+    name: string;
+    description?: string;
+    secret: string;
+}): Promise<Credential> {
+    return request("/credentials", {
+        method: "POST",
+        body: JSON.stringify(input),
+    });
+}
+
+export function deleteCredential(id: string): Promise<void> {
+    return request(`/credentials/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+    });
+}